@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createAnimationSystem, easeOutCubic } from './animation';
+import type { Animation } from './animation';
+
+/**
+ * an animation that overrides value.current for `frames` updates
+ */
+function createTestAnimation(value: { current: number }, frames: number) {
+  let left = frames;
+  let saved: number | null = null;
+  const animation: Animation & { settles: number } = {
+    settles: 0,
+    update() {
+      animation.settle();
+      if (left-- <= 0) return false;
+      saved = value.current;
+      value.current = -1;
+      return true;
+    },
+    settle() {
+      animation.settles++;
+      if (saved === null) return;
+      value.current = saved;
+      saved = null;
+    },
+  };
+  return animation;
+}
+
+describe('Animation system', () => {
+  it('should drop animations once they are done', () => {
+    const animations = createAnimationSystem();
+    const value = { current: 1 };
+    animations.add(createTestAnimation(value, 2));
+    animations.add(createTestAnimation(value, 1));
+    expect(animations.count).toBe(2);
+
+    animations.update(0.1);
+    expect(animations.count).toBe(2);
+    animations.update(0.1);
+    expect(animations.count).toBe(1);
+    animations.update(0.1);
+    expect(animations.count).toBe(0);
+    expect(value.current).toBe(1);
+  });
+
+  it('should put back overridden values on settle and carry on afterwards', () => {
+    const animations = createAnimationSystem();
+    const value = { current: 1 };
+    animations.add(createTestAnimation(value, 3));
+
+    animations.update(0.1);
+    expect(value.current).toBe(-1);
+    animations.settle();
+    expect(value.current).toBe(1);
+    expect(animations.count).toBe(1);
+
+    value.current = 2; // the simulation moved it
+    animations.update(0.1);
+    animations.settle();
+    expect(value.current).toBe(2);
+  });
+
+  it('should settle and drop everything on finish', () => {
+    const animations = createAnimationSystem();
+    const value = { current: 1 };
+    animations.add(createTestAnimation(value, 10));
+    animations.update(0.1);
+
+    animations.finish();
+
+    expect(value.current).toBe(1);
+    expect(animations.count).toBe(0);
+  });
+});
+
+describe('easeOutCubic', () => {
+  it('should go from 0 to 1, fast at first', () => {
+    expect(easeOutCubic(0)).toBe(0);
+    expect(easeOutCubic(1)).toBe(1);
+    expect(easeOutCubic(0.5)).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,52 @@
+// --- small animation system (visual only, ticked once per rendered frame) ---
+
+/**
+ * Something that changes over a few frames (a tween, a pop, ...).
+ * Animations only change how things look: before the simulation steps, settle() puts back
+ * whatever the animation overrode, so the simulation never sees (or depends on) an animated value.
+ */
+export interface Animation {
+  update(dt: number): boolean; // advances by dt seconds, returns false once it's done (or can't carry on)
+  settle(): void; // puts back the values it overrode
+}
+
+export interface AnimationSystem {
+  readonly count: number; // animations running
+  add(animation: Animation): void;
+  update(dt: number): void; // advance every animation, drop the finished ones
+  settle(): void; // put back everything the running animations overrode (they carry on with the next update)
+  finish(): void; // settle and drop every animation (e.g. before saving, the state saved is the settled one)
+}
+
+/**
+ * Creates an empty animation system.
+ */
+export function createAnimationSystem(): AnimationSystem {
+  let animations: Animation[] = [];
+
+  return {
+    get count() {
+      return animations.length;
+    },
+    add(animation) {
+      animations.push(animation);
+    },
+    update(dt) {
+      animations = animations.filter((animation) => animation.update(dt));
+    },
+    settle() {
+      animations.forEach((animation) => animation.settle());
+    },
+    finish() {
+      animations.forEach((animation) => animation.settle());
+      animations = [];
+    },
+  };
+}
+
+/**
+ * Eases out (fast start, gentle landing), t from 0 to 1.
+ */
+export function easeOutCubic(t: number): number {
+  return 1 - (1 - t) ** 3;
+}
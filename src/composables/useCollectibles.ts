@@ -1,9 +1,25 @@
 // --- item management ---
-import { shallowRef, ref } from 'vue';
+import { shallowRef, ref, onBeforeUnmount } from 'vue';
 import type { Ref } from 'vue';
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
+import { DEFAULT_ITEM_CATALOG } from '../itemCatalog';
+import {
+  spawnItem as spawnItemInto,
+  spawnRandomItems,
+  spawnLevelItems,
+  clearItems,
+} from '../simulation/collectibleSpawner';
+import { createCollectibleIndex } from '../simulation/collectibleIndex';
+import { createItemInstances } from '../simulation/itemInstances';
+import { createSeededRandom } from '../random';
 import type { Collectible } from '../gameLogic';
+import type { ItemCatalog, ItemDefinition } from '../itemCatalog';
+import type { Level, AreaDefinition } from '../levels';
+import type { SpawnContext } from '../simulation/collectibleSpawner';
+import type { ItemInstances } from '../simulation/itemInstances';
+import type { RandomSource } from '../random';
+import type { Heightmap } from '../heightmap';
 
 /**
  * Composable for managing collectible items (spawning, tracking)
@@ -13,72 +29,101 @@ import type { Collectible } from '../gameLogic';
  * - keeps the main game component clean
  * - easy to add different collectible types or power-ups
  */
-export function useCollectibles(scene: Ref<THREE.Scene | null>, world: Ref<CANNON.World | null>) {
-  const collectibles = shallowRef<Collectible | []>([]); // array holding all collectibles (collected and not)
+export function useCollectibles(
+  scene: Ref<THREE.Scene | null>,
+  world: Ref<CANNON.World | null>,
+  terrain: Ref<Heightmap | null>, // the level's hills (items stand on them)
+  catalog: ItemCatalog = DEFAULT_ITEM_CATALOG, // which items can spawn (src/data/items.json by default)
+) {
+  const collectibles = shallowRef<Collectible[]>([]); // array holding all collectibles (collected and not), never replaced
   const collectedCount = ref(0); // how many items have been collected? (for score display)
+  const score = ref(0); // sum of the points of all collected items
+  const itemsByMesh = new Map<THREE.Object3D, Collectible>(); // the same items by mesh (kept in sync by the spawner)
+  const itemsByBody = new Map<CANNON.Body, Collectible>(); // and by physics body
+  const collectibleIndex = createCollectibleIndex(); // where the uncollected items are (kept in sync by the spawner and the simulation)
+
+  // level currently spawned (respawn brings its items back)
+  let currentLevel: Level | null = null;
+
+  // instanced meshes uncollected items are drawn with (created once the scene exists)
+  let instances: ItemInstances | null = null;
+
+  // where random layouts come from (seeded per run, so a recording can rebuild the same level)
+  let random: RandomSource = Math.random;
 
   /**
-   * spawns random collectibles across plane
-   * - random shapes (visual interest)
-   * - random colors (easy to distinguish items)
-   * - random positions (spread across 100mx100m area)
-   *
-   * @param count - how many collectibles to spawn
+   * what the spawner works on (null until scene and world are initialized)
    */
-  function spawnCollectibles(count: number = 50) {
+  function getSpawnContext(): SpawnContext | null {
     if (!scene.value || !world.value) {
       console.warn('Scene or world not initialized!');
-      return;
+      return null;
     }
+    instances ??= createItemInstances(scene.value);
+    return {
+      world: world.value,
+      terrain: terrain.value,
+      catalog,
+      collectibles: collectibles.value,
+      itemsByMesh,
+      itemsByBody,
+      index: collectibleIndex,
+      instances,
+      random,
+    };
+  }
 
-    // predefined geometries for variety
-    const geometries = [
-      new THREE.BoxGeometry(0.5, 0.5, 0.5), //cube
-      new THREE.SphereGeometry(0.3, 16, 16), // sphere
-      new THREE.ConeGeometry(0.4, 0.8, 16), // cone
-    ];
-
-    for (let i = 0; i < count; i++) {
-      // pick a random geo from the array
-      const geometry = geometries[Math.floor(Math.random() * geometries.length)];
-
-      // random color for visual variety (any RGB color can be produced here)
-      const material = new THREE.MeshStandardMaterial({
-        color: Math.random() * 0xffffff
-      });
-      const mesh = new THREE.Mesh(geometry, material);
-
-      // random position on the plane
-      // (Math.Random() - 0.5) gives a range [-0.5, 0.5]
-      // multiply by 100 for the 100m x 100m area
-      mesh.position.set(
-        (Math.random() - 0.5) * 100, // x
-        0.5, // y (slightly above ground to prevent clipping)
-        (Math.random() - 0.5) * 100, // z
-      );
-
-      // --- physics body for collectible ---
-      // box shape (good enough for simple approximation)
-      // 0.25 size -> half visual size
-      const shape = new CANNON.Box(new CANNON.Vec3(0.25, 0.25, 0.25));
-      const body = new CANNON.Body({
-        mass: 0, // static until collected (no physics computes)
-        position: new CANNON.Vec3(mesh.position.x, mesh.position.y, mesh.position.z),
-        shape: shape
-      });
-
-      // add to scene and physics world
-      scene.value.add(mesh);
-      world.value.addBody(body);
-
-      // store to collections array (0.4 radius -> slightly smaller than visual size for forgiving collision)
-      collectibles.value.push({
-        mesh,
-        body,
-        collected: false,
-        radius: 0.4
-      });
-    }
+  /**
+   * makes the following random layouts reproducible
+   * (the same seed spawns the same items in the same places)
+   */
+  function seedRandom(seed: number) {
+    random = createSeededRandom(seed);
+  }
+
+  /**
+   * spawns one item of the given kind, resting on the ground
+   *
+   * @param def - catalog entry for the item
+   * @param x - position on the plane
+   * @param z - position on the plane
+   * @param rotationY - facing (radians)
+   */
+  function spawnItem(def: ItemDefinition, x: number, z: number, rotationY: number = 0) {
+    const ctx = getSpawnContext();
+    if (ctx) spawnItemInto(ctx, def, x, z, rotationY);
+  }
+
+  /**
+   * spawns random collectibles across an area of the plane
+   * - item kinds picked from the catalog (weighted by spawnWeight)
+   * - random positions and facing
+   *
+   * @param count - how many collectibles to spawn
+   * @param area - where to spread them (100mx100m around the origin by default)
+   * @param itemCatalog - which items can spawn (whole catalog by default)
+   */
+  function spawnCollectibles(
+    count: number = 50,
+    area: AreaDefinition = { minX: -50, maxX: 50, minZ: -50, maxZ: 50 },
+    itemCatalog: ItemCatalog = catalog,
+  ) {
+    const ctx = getSpawnContext();
+    if (ctx) spawnRandomItems(ctx, count, area, itemCatalog);
+  }
+
+  /**
+   * spawns everything a level asks for
+   * 1. fixed placements (exactly where the designer put them)
+   * 2. random items in each spawn zone (count from the zone's density)
+   *
+   * @param level - level to populate
+   */
+  function spawnLevel(level: Level) {
+    currentLevel = level;
+
+    const ctx = getSpawnContext();
+    if (ctx) spawnLevelItems(ctx, level);
   }
 
   /**
@@ -89,44 +134,86 @@ export function useCollectibles(scene: Ref<THREE.Scene | null>, world: Ref<CANNO
   function clearCollectibles() {
     if (!scene.value || !world.value) return;
 
-    collectibles.value.forEach((item) => {
-      // remove from three.js scene
-      scene.value!.remove(item.mesh);
-
-      // remove from physics world
-      if (world.value!.bodies.includes(item.body)) {
-        world.value!.removeBody(item.body);
-      }
-    });
-
-    // clear the array as well
-    collectibles.value = [];
+    // the array and index are emptied in place, so the simulation keeps seeing the same ones
+    const ctx = getSpawnContext();
+    if (ctx) clearItems(ctx);
   }
 
   /**
    * respawns all collectibles (clears old, spawns new)
    * - user-triggered (r key)
+   * - brings back the current level's items (or 50 random ones without a level)
    */
   function respawnCollectibles() {
     clearCollectibles();
-    spawnCollectibles(50);
+    if (currentLevel) {
+      spawnLevel(currentLevel);
+    } else {
+      spawnCollectibles(50);
+    }
     //TODO: scrub score on reset
   }
 
   /**
-   * increments the collected count
+   * increments the collected count and adds the item's points to the score
    * - encapsulation (only this composable should modify its own state)
    */
-  function incrementCollectedCount() {
+  function incrementCollectedCount(item: Collectible) {
     collectedCount.value++;
+    score.value += item.points;
+  }
+
+  /**
+   * decrements the collected count and takes the item's points back
+   * - items knocked off the katamari no longer count
+   */
+  function decrementCollectedCount(item: Collectible) {
+    collectedCount.value = Math.max(0, collectedCount.value - 1);
+    score.value = Math.max(0, score.value - item.points);
   }
 
+  /**
+   * resets the collected count and score (for restarting a run)
+   */
+  function resetCollectedCount() {
+    collectedCount.value = 0;
+    score.value = 0;
+  }
+
+  /**
+   * puts back the collected count and score of a saved run
+   */
+  function restoreCollectedCount(count: number, points: number) {
+    collectedCount.value = count;
+    score.value = points;
+  }
+
+  /**
+   * cleanup function (called when component unmounts)
+   * frees the instanced meshes (their geometries and materials live on the gpu)
+   */
+  onBeforeUnmount(() => {
+    instances?.dispose();
+    instances = null;
+  });
+
   return {
     collectibles,
+    itemsByMesh,
+    itemsByBody,
+    collectibleIndex,
     collectedCount,
+    score,
+    spawnItem,
     spawnCollectibles,
+    seedRandom,
+    spawnLevel,
     clearCollectibles,
     respawnCollectibles,
-    incrementCollectedCount
+    getSpawnContext,
+    incrementCollectedCount,
+    decrementCollectedCount,
+    resetCollectedCount,
+    restoreCollectedCount
   };
 }
@@ -0,0 +1,106 @@
+// --- dev overlay (tuning aid)
+import { ref, watch, onBeforeUnmount } from 'vue';
+import type { Ref } from 'vue';
+import type * as THREE from 'three';
+import type * as CANNON from 'cannon-es';
+import { createDebugDraw, DEFAULT_DEBUG_DRAW_OPTIONS } from '../simulation/debugDraw';
+import type { DebugDrawOptions } from '../simulation/debugDraw';
+import type { FrameStats, FrameStatsSummary } from '../frameStats';
+import type { Collectible } from '../gameLogic';
+
+// how often the numbers on the overlay change (ms), every frame would be unreadable (and busy for vue)
+export const DEBUG_READOUT_INTERVAL = 250;
+
+/**
+ * Numbers shown on the dev overlay.
+ */
+export interface DebugReadout extends FrameStatsSummary {
+  bodies: number; // bodies in the physics world
+  collected: number; // items stuck to the katamari
+  remaining: number; // items still lying around
+}
+
+/**
+ * Composable for the dev overlay: performance numbers plus what the physics sees
+ *
+ * why?
+ * - tuning is guesswork without seeing what the simulation is doing
+ * - wireframes of the cannon shapes show where the colliders really are (not where the meshes are)
+ * - hidden by default and free when hidden: nothing is drawn or counted
+ */
+export function useDebugOverlay(
+  scene: Ref<THREE.Scene | null>,
+  world: Ref<CANNON.World | null>,
+  katamariBody: Ref<CANNON.Body | null>,
+  collectibles: Ref<Collectible[]>,
+  stats: FrameStats, // timings from the game loop
+) {
+  const visible = ref(false);
+  const drawOptions = ref<DebugDrawOptions>({ ...DEFAULT_DEBUG_DRAW_OPTIONS }); // which overlays are drawn
+  const readout = ref<DebugReadout>({
+    fps: 0,
+    frameTime: 0,
+    stepTime: 0,
+    stepsPerFrame: 0,
+    bodies: 0,
+    collected: 0,
+    remaining: 0,
+  });
+
+  const draw = createDebugDraw();
+  let readoutTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * refreshes the numbers (on a timer, not every frame)
+   */
+  function refreshReadout() {
+    const collected = collectibles.value.filter((item) => item.collected).length;
+    readout.value = {
+      ...stats.summary(),
+      bodies: world.value?.bodies.length ?? 0,
+      collected,
+      remaining: collectibles.value.length - collected,
+    };
+  }
+
+  // showing: draw into the scene, start the numbers ticking
+  // hiding: take it all out again
+  // (sync: a frame drawn straight after the toggle already has it)
+  watch(visible, (isVisible) => {
+    if (isVisible) {
+      scene.value?.add(draw.object);
+      refreshReadout();
+      readoutTimer = setInterval(refreshReadout, DEBUG_READOUT_INTERVAL);
+    } else {
+      draw.object.removeFromParent();
+      if (readoutTimer !== null) clearInterval(readoutTimer);
+      readoutTimer = null;
+    }
+  }, { flush: 'sync' });
+
+  /**
+   * redraws the wireframes and arrows from the physics state
+   * called every rendered frame (does nothing while hidden)
+   */
+  function update() {
+    if (!visible.value || !world.value || !katamariBody.value) return;
+    draw.update(world.value, collectibles.value, katamariBody.value, drawOptions.value);
+  }
+
+  function toggle() {
+    visible.value = !visible.value;
+  }
+
+  onBeforeUnmount(() => {
+    if (readoutTimer !== null) clearInterval(readoutTimer);
+    draw.dispose();
+  });
+
+  return {
+    visible,
+    drawOptions,
+    readout,
+    update,
+    toggle
+  };
+}
@@ -1,127 +1,132 @@
 // --- main game loop ---
 import { ref, onBeforeUnmount } from 'vue';
 import type { Ref } from 'vue';
-import * as THREE from 'three';
-import * as CANNON from 'cannon-es';
 import {
-  applyInputForce,
-  capLinearVelocity,
-  capAngularVelocity,
-  findCollidingCollectibles,
-  stickItem,
-  growKatamari,
-} from '../gameLogic';
-import type { KeyState, Collectible } from '../gameLogic';
+  FIXED_TIMESTEP,
+  MAX_FRAME_TIME,
+  advanceAccumulator,
+  captureTransform,
+  interpolateTransform,
+} from '../fixedTimestep';
+import { createFrameStats } from '../frameStats';
+import type { BodyTransform } from '../fixedTimestep';
+import type { AnimationSystem } from '../animation';
+import type { Simulation } from '../simulation/simulation';
+
+// what the loop needs from a simulation (replays have the same shape)
+type SteppedSimulation = Pick<Simulation, 'step' | 'katamariBody' | 'katamariMesh'>;
 
 /**
  * Composable for managing the game loop (the heart of the game)
  *
  * why?
- * - game loop is complex coordination of physics, input, and rendering
- * - separating it makes the flow crystal clear
+ * - the game rules run in the simulation core (framework-free, testable in node)
+ * - this loop only ties it to the browser: requestAnimationFrame, real time, rendering
  * - easy to add pause/resume functionality
- * - performance monitoring can be added here
+ * - times frames and physics steps (dev overlay)
  */
 export function useGameLoop(
   // dependencies injected from parent
-  world: Ref<CANNON.World | null>,
-  katamariBody: Ref<CANNON.Body | null>,
-  katamariMesh: Ref<THREE.Mesh | null>,
-  keys: Ref<KeyState>,
-  collectibles: Ref<Collectible[]>,
-  katamariSize: Ref<number>,
-  onCollect: () => void, // callback when item is collected
+  simulation: Readonly<Ref<SteppedSimulation | null>>, // simulation to drive, or a replay of one (set once the game is initialized)
   renderFn: () => void, // threeJS render function
-  updateCameraFn: () => void, // camera follow function
+  updateCameraFn: (dt: number) => void, // camera follow function (gets the frame time, for smoothing)
+  onTick: (dt: number) => void = () => {}, // called every physics step with the step size (game clock)
+  pollInputFn: () => void = () => {}, // called once per frame, before the physics steps (devices without events, e.g. gamepads)
+  animations: Pick<AnimationSystem, 'update' | 'settle'> | null = null, // visual-only animations (e.g. items flying onto the ball)
 ) {
   // store animation frame ID so we can cancel it on unmount
   // prevents game loop from running after component is destroyed
   const animationId = ref<number | null>(null);
 
+  // simulated seconds per real second (replays: 0 = paused, 0.25 = slow motion, 4 = fast forward)
+  const timeScale = ref(1);
+
+  // frame and physics step timings, not reactive: read them when needed (dev overlay)
+  const stats = createFrameStats();
+
+  // fixed timestep bookkeeping
+  let lastFrameTime: number | null = null; // timestamp of the previous frame (ms)
+  let accumulator = 0; // real time not yet simulated (s)
+  let previousTransform: BodyTransform | null = null; // katamari state before the latest step (for interpolation)
+
   /**
-   * main gain loop - runs ~60 times per second
+   * main gain loop - runs once per display frame (60, 144, ... times per second)
    * phases:
    * 1. request next frame
-   * 2. step physics simulation
-   * 3. process player input
-   * 4. check collisions
-   * 5. update visual positions from physics
+   * 2. poll input devices
+   * 3. work out how many fixed physics steps the elapsed real time is worth
+   * 4. run that many simulation steps (input, physics, collisions, game clock)
+   * 5. interpolate visuals between the last two physics states
+   * 6. advance animations
+   * 7. update camera and render
    *
-   * - physics-first ensures consistent simulation
-   * - input affects physics for next frame
+   * - fixed steps keep the simulation speed the same on every monitor
+   * - interpolation keeps motion smooth when frames and steps don't line up
    * - visuals updated last
    */
-  function gameLoop() {
+  function gameLoop(time: number = performance.now()) {
     // request next frame first (we stay in the loop, even if something errors)
     animationId.value = requestAnimationFrame(gameLoop);
 
-    // --- physics simulation ---
-    if (world.value) {
-      world.value.fixedStep(); // step physics forward 1/60th of a second
+    const sim = simulation.value;
+
+    // --- poll input ---
+    pollInputFn();
+
+    // --- accumulate real elapsed time ---
+    const frameTime = lastFrameTime === null ? 0 : (time - lastFrameTime) / 1000;
+    lastFrameTime = time;
+
+    const result = advanceAccumulator(accumulator, frameTime * timeScale.value);
+    accumulator = result.accumulator;
+
+    // --- fixed simulation steps (zero or more per frame) ---
+    // animations only change looks: the simulation steps from its own state, not an animated one
+    animations?.settle();
+    if (sim) {
+      for (let i = 0; i < result.steps; i++) {
+        // remember where the katamari was (interpolation start point)
+        previousTransform = captureTransform(sim.katamariBody, previousTransform ?? undefined);
+        const stepStart = performance.now();
+        sim.step(FIXED_TIMESTEP);
+        stats.recordStep(performance.now() - stepStart);
+
+        // --- advance game clock ---
+        onTick(FIXED_TIMESTEP);
+      }
+
+      // --- update visuals ---
+      // blend between the last two physics states, physics = source of truth
+      if (previousTransform) {
+        interpolateTransform(sim.katamariMesh, previousTransform, sim.katamariBody, result.alpha);
+      }
     }
 
-    // --- process input ---
-    if (katamariBody.value) {
-      // apply force based on keys pressed
-      applyInputForce(keys.value, katamariBody.value);
+    // --- animations (at replay speed, frozen while a replay is paused) ---
+    animations?.update(Math.min(frameTime, MAX_FRAME_TIME) * timeScale.value);
 
-      // cap velocities to prevent runaway speed
-      capLinearVelocity(katamariBody.value);
-      capAngularVelocity(katamariBody.value);
-    }
-
-    // --- check collisions ---
-    if (katamariBody.value) {
-      checkCollisions();
-    }
-
-    // --- update visuals ---
-    // copy physics body/rotation to visual mesh, physics = source of truth
-    if (katamariMesh.value && katamariBody.value) {
-      katamariMesh.value.position.copy(katamariBody.value.position);
-      katamariMesh.value.quaternion.copy(katamariBody.value.quaternion);
-    }
+    // --- timings (the first frame after a start has nothing to compare with) ---
+    if (frameTime > 0) stats.recordFrame(frameTime * 1000, sim ? result.steps : 0);
 
     // --- update camera and render ---
-    updateCameraFn();
+    updateCameraFn(Math.min(frameTime, MAX_FRAME_TIME));
     renderFn();
   }
 
-  /**
-   * checks for collisions between katamari and collectibles
-   * 1. fid all items touching katamari
-   * 2. for each touching item:
-   * - stick it to katamari
-   * - grow katamari
-   * - increment counter
-   */
-  function checkCollisions() {
-    if (!katamariBody.value || !katamariMesh.value || !world.value) return;
-
-    // identify colliding items
-    const collidingItems = findCollidingCollectibles(katamariBody.value, collectibles.value, katamariSize.value);
-
-    // process each collision
-    collidingItems.forEach((item) => {
-      // stick item to katamari
-      stickItem(item, katamariMesh.value!, world.value!, katamariSize.value);
-
-      // grow katamari (0.05m at a time)
-      const newSize = growKatamari(0.05, katamariSize.value, katamariMesh.value!, katamariBody.value!, collectibles.value);
-      katamariSize.value = newSize;
-
-      // notify parent component (for score update)
-      onCollect();
-    });
-  }
-
   /**
    * starts game loop
    *
    * why separate from constructor? allow setting up dependencies first
    */
   function start() {
-    if (animationId.value === null) gameLoop();
+    if (animationId.value === null) {
+      // fresh timing, so time spent stopped isn't simulated all at once
+      lastFrameTime = null;
+      accumulator = 0;
+      previousTransform = null;
+      stats.reset();
+      gameLoop();
+    }
   }
 
   /**
@@ -135,6 +140,15 @@ export function useGameLoop(
     }
   }
 
+  /**
+   * forgets where the katamari was drawn last (the simulation jumped, e.g. seeking in a replay),
+   * so the next frame doesn't blend from the old spot
+   */
+  function resync() {
+    previousTransform = null;
+    accumulator = 0;
+  }
+
   /**
    * cleanup on component unmount
    */
@@ -143,8 +157,11 @@ export function useGameLoop(
   });
 
   return {
+    timeScale,
+    stats,
     start,
     stop,
+    resync,
     gameLoop
   };
 }
@@ -0,0 +1,104 @@
+// --- game flow (title, countdown, playing, paused, results, game over) ---
+import { ref, watch, onBeforeUnmount } from 'vue';
+import { createGameState, restoreGameState, dispatchGameEvent, tickGameState } from '../gameState';
+import type { GameState, GameEvent } from '../gameState';
+import type { Level } from '../levels';
+
+// how often the countdown ticks while the game loop is stopped (ms)
+const COUNTDOWN_TICK_MS = 100;
+
+/**
+ * Composable for managing the game flow state machine
+ *
+ * why?
+ * - the rules (which phase follows which) live in gameState.ts and are unit-tested
+ * - this composable just holds the reactive state and reacts to phase changes
+ * - the game loop only runs while actually playing or watching a replay (paused = loop stopped)
+ */
+export function useGameState(
+  level: Level,
+  gameLoop: { start: () => void; stop: () => void }, // loop to drive
+) {
+  const state = ref<GameState>(createGameState(level));
+
+  // the game loop is stopped during the countdown, so it gets its own timer
+  let countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * applies a player event (start, pause, resume, restart, watch, quit)
+   * events that don't fit the current phase are ignored
+   */
+  function dispatch(event: GameEvent) {
+    state.value = dispatchGameEvent(state.value, event);
+  }
+
+  /**
+   * advances the clock (called by the game loop while playing)
+   * - reaching the goal size -> results
+   * - running out of time -> game over
+   */
+  function tick(dt: number, katamariSize: number) {
+    state.value = tickGameState(state.value, dt, katamariSize);
+  }
+
+  /**
+   * pause key toggles between playing and paused
+   */
+  function togglePause() {
+    dispatch(state.value.phase === 'paused' ? 'resume' : 'pause');
+  }
+
+  /**
+   * carries on a saved run (paused, so the player can get ready before resuming)
+   *
+   * @param elapsed - seconds of play the saved run had used
+   */
+  function restore(elapsed: number) {
+    state.value = restoreGameState(level, elapsed);
+  }
+
+  function startCountdown() {
+    if (countdownTimer !== null) return;
+    countdownTimer = setInterval(() => tick(COUNTDOWN_TICK_MS / 1000, 0), COUNTDOWN_TICK_MS);
+  }
+
+  function stopCountdown() {
+    if (countdownTimer !== null) {
+      clearInterval(countdownTimer);
+      countdownTimer = null;
+    }
+  }
+
+  // phase changes drive the game loop and the countdown timer
+  watch(
+    () => state.value.phase,
+    (phase) => {
+      if (phase === 'playing' || phase === 'replay') {
+        gameLoop.start();
+      } else {
+        gameLoop.stop();
+      }
+
+      if (phase === 'countdown') {
+        startCountdown();
+      } else {
+        stopCountdown();
+      }
+    }
+  );
+
+  /**
+   * cleanup on component unmount
+   */
+  onBeforeUnmount(() => {
+    stopCountdown();
+  });
+
+  return {
+    state,
+    dispatch,
+    tick,
+    togglePause,
+    restore
+  };
+}
@@ -0,0 +1,122 @@
+// --- gamepad controls
+import { ref, shallowRef, onBeforeUnmount } from 'vue';
+import {
+  createInputVector,
+  readGamepadMovement,
+  readGamepadCameraTurn,
+  DEFAULT_STICK_SETTINGS,
+  GAMEPAD_BUTTON_RESPAWN,
+  GAMEPAD_BUTTON_PAUSE,
+} from '../input';
+import type { StickSettings } from '../input';
+
+/**
+ * Composable for reading a gamepad (Gamepad API)
+ *
+ * why?
+ * - analog steering: push the stick a little to roll slowly
+ * - the Gamepad API has no input events, it has to be polled every frame
+ * - pads can be plugged in or out at any time (hot-plug)
+ * - keeps the same shape as useKeyboardInput, so both can be merged
+ */
+export function useGamepadInput(settings: StickSettings = DEFAULT_STICK_SETTINGS) {
+  const movement = ref(createInputVector()); // left stick (or d-pad), dead zone and curve applied
+  const cameraTurn = ref(0); // right stick sideways (-1 left, 1 right)
+  const gamepadName = shallowRef<string | null>(null); // id of the pad in use (null = none connected)
+
+  let gamepadIndex: number | null = null; // which navigator.getGamepads() slot we read
+  let pollId: number | null = null;
+  let previousButtons: boolean[] = []; // pressed state last poll (buttons fire once per press)
+
+  /**
+   * reads the pad once
+   * - movement every poll
+   * - buttons only on the frame they go down
+   */
+  function poll() {
+    pollId = requestAnimationFrame(poll);
+
+    // chrome hands out a fresh snapshot every call, so look it up every time
+    const gamepad = gamepadIndex === null ? null : navigator.getGamepads()[gamepadIndex];
+    if (!gamepad) return;
+
+    readGamepadMovement(gamepad, settings, movement.value);
+    cameraTurn.value = readGamepadCameraTurn(gamepad, settings);
+
+    const buttons = gamepad.buttons.map((button) => button.pressed);
+    const justPressed = (index: number) => buttons[index] && !previousButtons[index];
+
+    // same window events as the keyboard (keeps composable focused on input, not game logic)
+    if (justPressed(GAMEPAD_BUTTON_RESPAWN)) {
+      window.dispatchEvent(new CustomEvent('respawn-collectibles'));
+    }
+    if (justPressed(GAMEPAD_BUTTON_PAUSE)) {
+      window.dispatchEvent(new CustomEvent('toggle-pause'));
+    }
+    previousButtons = buttons;
+  }
+
+  function startPolling() {
+    if (pollId === null) poll();
+  }
+
+  function stopPolling() {
+    if (pollId !== null) {
+      cancelAnimationFrame(pollId);
+      pollId = null;
+    }
+  }
+
+  /**
+   * starts using a pad (first one connected wins)
+   */
+  function use(gamepad: Gamepad) {
+    gamepadIndex = gamepad.index;
+    gamepadName.value = gamepad.id;
+    previousButtons = gamepad.buttons.map((button) => button.pressed); // held buttons don't fire
+    startPolling();
+  }
+
+  function onGamepadConnected(e: GamepadEvent) {
+    if (gamepadIndex === null) use(e.gamepad);
+  }
+
+  /**
+   * pad unplugged: switch to another connected one, or stop polling
+   */
+  function onGamepadDisconnected(e: GamepadEvent) {
+    if (e.gamepad.index !== gamepadIndex) return;
+
+    gamepadIndex = null;
+    gamepadName.value = null;
+    movement.value.x = 0;
+    movement.value.y = 0;
+    cameraTurn.value = 0;
+    stopPolling();
+
+    const other = navigator.getGamepads().find((gamepad) => gamepad && gamepad.connected);
+    if (other) use(other);
+  }
+
+  /**
+   * registers event listeners
+   * (pads connected before the page loaded show up on their first button press)
+   */
+  function setupListeners() {
+    window.addEventListener('gamepadconnected', onGamepadConnected);
+    window.addEventListener('gamepaddisconnected', onGamepadDisconnected);
+  }
+
+  onBeforeUnmount(() => {
+    stopPolling();
+    window.removeEventListener('gamepadconnected', onGamepadConnected);
+    window.removeEventListener('gamepaddisconnected', onGamepadDisconnected);
+  });
+
+  return {
+    movement,
+    cameraTurn,
+    gamepadName,
+    setupListeners
+  };
+}
@@ -0,0 +1,99 @@
+// --- ghost racer (best run rolling alongside)
+import { ref, shallowRef, onBeforeUnmount } from 'vue';
+import type { Ref } from 'vue';
+import * as THREE from 'three';
+import { createGhost } from '../simulation/ghost';
+import { loadBestRun, saveBestRun, isBetterRun } from '../simulation/bestRun';
+import type { Ghost } from '../simulation/ghost';
+import type { BestRun, RunResult } from '../simulation/bestRun';
+import type { Recording } from '../simulation/recording';
+import type { Level } from '../levels';
+
+/**
+ * Composable for racing against the level's best run
+ *
+ * why?
+ * - a ghost gives every run something to beat, not just the clock
+ * - the ghost replays in a physics world of its own: it can't touch the live one (usePhysics)
+ * - the best run survives reloads (localStorage)
+ */
+export function useGhost(
+  level: Level,
+  scene: Ref<THREE.Scene | null>,
+  storage: Storage = window.localStorage,
+) {
+  const bestRun = shallowRef<BestRun | null>(loadBestRun(storage, level.id));
+  const enabled = ref(true); // player can switch the ghost off
+  const ghostSize = ref<number | null>(null); // ghost katamari size (null = no ghost in this run)
+
+  let ghost: Ghost | null = null;
+
+  /**
+   * puts the ghost at the start of the level (start of a run)
+   * no best run yet, or switched off -> no ghost
+   */
+  function prepare() {
+    clear();
+    if (!enabled.value || !bestRun.value || !scene.value) return;
+
+    ghost = createGhost(level, bestRun.value.recording);
+    scene.value.add(ghost.object);
+    ghostSize.value = ghost.size;
+  }
+
+  /**
+   * takes the ghost out of the scene (title screen, replays)
+   */
+  function clear() {
+    ghost?.dispose();
+    ghost = null;
+    ghostSize.value = null;
+  }
+
+  /**
+   * advances the ghost one physics step (in lockstep with the live run)
+   */
+  function step() {
+    if (!ghost) return;
+    ghost.step();
+    ghostSize.value = ghost.size;
+  }
+
+  /**
+   * keeps a finished run if it beats the best one
+   * returns whether it did (new best -> the ghost replays it from now on)
+   */
+  function submitRun(recording: Recording, result: RunResult): boolean {
+    if (!isBetterRun(result, bestRun.value)) return false;
+
+    const run = { ...result, recording };
+    bestRun.value = run;
+    try {
+      saveBestRun(storage, run);
+    } catch (error) {
+      // storage full or disabled: still race it for the rest of the session
+      console.warn('Could not save best run:', error);
+    }
+    return true;
+  }
+
+  function toggle() {
+    enabled.value = !enabled.value;
+    if (!enabled.value) clear();
+  }
+
+  onBeforeUnmount(() => {
+    clear();
+  });
+
+  return {
+    bestRun,
+    enabled,
+    ghostSize,
+    prepare,
+    clear,
+    step,
+    submitRun,
+    toggle
+  };
+}
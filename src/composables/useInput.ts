@@ -0,0 +1,67 @@
+// --- merged player input
+import { ref } from 'vue';
+import type { Ref } from 'vue';
+import { useKeyboardInput } from './useKeyboardInput';
+import { useGamepadInput } from './useGamepadInput';
+import { createInputVector, keysToInputVector, mergeInputVectors, mergeCameraTurn } from '../input';
+import type { InputVector } from '../gameLogic';
+import type { KeyBindings } from '../keyBindings';
+
+/**
+ * Composable that merges every input device into one input vector
+ *
+ * why?
+ * - the simulation reads a single vector, it doesn't care where it came from
+ * - keyboard and gamepad work at the same time (no device switching)
+ * - more sources just join the merge (touch joystick reports through setTouchMovement)
+ */
+export function useInput(bindings: Ref<KeyBindings>) {
+  const keyboard = useKeyboardInput(bindings);
+  const gamepad = useGamepadInput();
+
+  // the vector the simulation reads (plain object, updated in place)
+  const state: InputVector = createInputVector();
+  const keyboardVector = createInputVector();
+  const touchVector = createInputVector(); // on-screen joystick (touch devices)
+
+  // camera turn input, -1 (left) to 1 (right)
+  const cameraTurn = ref(0);
+
+  /**
+   * merges the devices into state
+   * call once per frame, before stepping the simulation
+   */
+  function update() {
+    keysToInputVector(keyboard.keys.value, keyboardVector);
+    mergeInputVectors([keyboardVector, gamepad.movement.value, touchVector], state);
+
+    const keyboardTurn = (keyboard.camera.value.right ? 1 : 0) - (keyboard.camera.value.left ? 1 : 0);
+    cameraTurn.value = mergeCameraTurn([keyboardTurn, gamepad.cameraTurn.value]);
+  }
+
+  /**
+   * stores the on-screen joystick's latest input (merged on the next update)
+   */
+  function setTouchMovement(movement: InputVector) {
+    touchVector.x = movement.x;
+    touchVector.y = movement.y;
+  }
+
+  /**
+   * registers every device's event listeners
+   */
+  function setupListeners() {
+    keyboard.setupListeners();
+    gamepad.setupListeners();
+  }
+
+  return {
+    state,
+    cameraTurn,
+    keys: keyboard.keys,
+    gamepadName: gamepad.gamepadName,
+    update,
+    setTouchMovement,
+    setupListeners
+  };
+}
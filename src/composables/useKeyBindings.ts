@@ -0,0 +1,67 @@
+// --- key bindings (rebindable controls)
+import { ref, computed, watch } from 'vue';
+import {
+  loadKeyBindings,
+  saveKeyBindings,
+  resetKeyBindings,
+  bindKey,
+  unbindKey,
+  getControlHints,
+} from '../keyBindings';
+import type { InputAction } from '../keyBindings';
+
+/**
+ * Composable holding the player's key bindings
+ *
+ * why?
+ * - keyboard input looks keys up here instead of hardcoding them
+ * - bindings survive reloads (localStorage)
+ * - hint text always matches what the keys actually do
+ */
+export function useKeyBindings(storage: Storage = window.localStorage) {
+  const bindings = ref(loadKeyBindings(storage));
+
+  // on-screen hints ("Use W, A, S, D to move", ...) from the active bindings
+  const hints = computed(() => getControlHints(bindings.value));
+
+  // save every change (bindings are replaced, never changed in place; the defaults are never saved)
+  watch(bindings, (value) => {
+    try {
+      saveKeyBindings(storage, value);
+    } catch (error) {
+      // storage full or disabled: the new keys still work for the rest of the session
+      console.warn('Could not save key bindings:', error);
+    }
+  });
+
+  /**
+   * binds a key to an action (taking it away from any other action)
+   *
+   * @param slot - which of the action's keys to replace (past the end = add another key)
+   */
+  function setBinding(action: InputAction, key: string, slot: number) {
+    bindings.value = bindKey(bindings.value, action, key, slot);
+  }
+
+  /**
+   * removes one of an action's keys
+   */
+  function removeBinding(action: InputAction, slot: number) {
+    bindings.value = unbindKey(bindings.value, action, slot);
+  }
+
+  /**
+   * back to the default keys (and forget the saved ones)
+   */
+  function resetToDefaults() {
+    bindings.value = resetKeyBindings(storage);
+  }
+
+  return {
+    bindings,
+    hints,
+    setBinding,
+    removeBinding,
+    resetToDefaults
+  };
+}
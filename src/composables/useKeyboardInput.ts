@@ -1,5 +1,8 @@
 // --- player controls
-import { ref, onBeforeUnmount } from 'vue';
+import { ref, watch, onBeforeUnmount } from 'vue';
+import type { Ref } from 'vue';
+import { findActionForKey, normalizeKey } from '../keyBindings';
+import type { KeyBindings } from '../keyBindings';
 import type { KeyState } from '../gameLogic';
 
 /**
@@ -7,12 +10,11 @@ import type { KeyState } from '../gameLogic';
  *
  * why?
  * - decouples input handling from game logic
- * - easy to add gamepad support later
- * - easy to add key remapping
+ * - keys are looked up in the bindings (rebindable), never hardcoded
  * - clean event listener management
  */
-export function useKeyboardInput() {
-  // Reactive state tracking which keys are currently pressed
+export function useKeyboardInput(bindings: Ref<KeyBindings>) {
+  // Reactive state tracking which movement directions are held
   const keys = ref<KeyState>({
     w: false,
     a: false,
@@ -20,32 +22,50 @@ export function useKeyboardInput() {
     d: false
   });
 
+  // camera turn keys held
+  const camera = ref({ left: false, right: false });
+
+  // every key currently down (an action is held while any of its keys is)
+  const pressedKeys = new Set<string>();
+
+  /**
+   * recomputes held actions from the pressed keys
+   */
+  function updateHeld() {
+    const held = (keyList: string[]) => keyList.some((key) => pressedKeys.has(key));
+    const b = bindings.value;
+
+    keys.value.w = held(b.moveUp);
+    keys.value.s = held(b.moveDown);
+    keys.value.a = held(b.moveLeft);
+    keys.value.d = held(b.moveRight);
+    camera.value.left = held(b.cameraLeft);
+    camera.value.right = held(b.cameraRight);
+  }
+
   /**
    * handles keydown events
    */
   function onKeyDown(e: KeyboardEvent) {
-    const key = e.key.toLowerCase();
+    pressedKeys.add(normalizeKey(e.key));
+    updateHeld();
 
-    // only update if it's a tracked key
-    if (key in keys.value) {
-      keys.value[key as keyof KeyState] = true;
-    }
+    // one-shot actions fire once per press, not on key repeat
+    if (e.repeat) return;
 
-    // handle respawn distinctly
-    if (key === 'r') {
+    const action = findActionForKey(bindings.value, e.key);
+    if (action === 'respawn') {
       // emit an event that the game can listen for
       // keep composable focused on input, not game logic
       window.dispatchEvent(new CustomEvent('respawn-collectibles'));
     }
-    //also, handle arrow keys as wasd
-    else if (key === 'arrowup') {
-      keys.value.w = true;
-    } else if (key === 'arrowdown') {
-      keys.value.s = true;
-    } else if (key === 'arrowleft') {
-      keys.value.a = true;
-    } else if (key === 'arrowright') {
-      keys.value.d = true;
+    // pause is a game flow concern too, same idea as respawn
+    else if (action === 'pause') {
+      window.dispatchEvent(new CustomEvent('toggle-pause'));
+    }
+    // dev overlay (stats, collider wireframes) is for tuning, the game doesn't care about it
+    else if (action === 'toggleDebug') {
+      window.dispatchEvent(new CustomEvent('toggle-debug'));
     }
   }
 
@@ -53,21 +73,21 @@ export function useKeyboardInput() {
    * handles keyup events
    */
   function onKeyUp(e: KeyboardEvent) {
-    const key = e.key.toLowerCase();
+    pressedKeys.delete(normalizeKey(e.key));
+    updateHeld();
+  }
 
-    if (key in keys.value) {
-      keys.value[key as keyof KeyState] = false;
-    } else if (key === 'arrowup') {
-      keys.value.w = false;
-    } else if (key === 'arrowdown') {
-      keys.value.s = false;
-    } else if (key === 'arrowleft') {
-      keys.value.a = false;
-    } else if (key === 'arrowright') {
-      keys.value.d = false;
-    }
+  /**
+   * window lost focus: keyup events won't arrive, so let go of everything
+   */
+  function onBlur() {
+    pressedKeys.clear();
+    updateHeld();
   }
 
+  // rebinding while a key is held takes effect right away
+  watch(bindings, updateHeld);
+
   /**
    * registers event listeners
    * (allows calling this after the DOM is ready)
@@ -75,6 +95,7 @@ export function useKeyboardInput() {
   function setupListeners() {
     window.addEventListener('keydown', onKeyDown);
     window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
   }
 
   /**
@@ -84,10 +105,12 @@ export function useKeyboardInput() {
   onBeforeUnmount(() => {
     window.removeEventListener('keydown', onKeyDown);
     window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', onBlur);
   });
 
   return {
     keys,
+    camera,
     setupListeners
   };
 }
@@ -0,0 +1,182 @@
+// --- recording runs and watching them back
+import { ref, shallowRef, watchEffect } from 'vue';
+import type { Ref } from 'vue';
+import {
+  createInputRecorder,
+  createReplayPlayer,
+  parseRecording,
+  clampReplaySpeed,
+} from '../simulation/recording';
+import { downloadJson, fileTimestamp } from '../download';
+import type { Recording, InputRecorder, ReplayPlayer, ReplayTarget } from '../simulation/recording';
+import type { InputVector, ViewState } from '../gameLogic';
+import type { Level } from '../levels';
+
+/**
+ * Composable for recording runs and playing them back
+ *
+ * why?
+ * - a recording (seed + input per physics step) reproduces a run exactly: bug repros, reviewing runs
+ * - recording and replaying happen in the simulation core (recording.ts), this holds the ui state
+ * - playback speed works through the game loop's time scale, so replays look as smooth as live play
+ */
+export function useReplay(
+  level: Level,
+  gameLoop: { timeScale: Ref<number>; resync: () => void }, // loop that drives the replay
+) {
+  const lastRecording = shallowRef<Recording | null>(null); // most recent finished (or loaded) run
+  const player = shallowRef<ReplayPlayer | null>(null); // replay being watched (null = playing live)
+  const position = ref(0); // steps played (mirrors the player for the controls)
+  const speed = ref(1);
+  const paused = ref(false);
+  const message = ref<string | null>(null); // feedback for the last loaded file
+  const isRecording = ref(false);
+
+  let recorder: InputRecorder | null = null; // run being recorded (null = not recording)
+
+  // replays run the loop faster or slower, live play always at 1x
+  watchEffect(() => {
+    gameLoop.timeScale.value = player.value ? (paused.value ? 0 : speed.value) : 1;
+  });
+
+  /**
+   * starts recording a fresh run (the level was just spawned from this seed)
+   */
+  function startRecording(seed: number) {
+    recorder = createInputRecorder(level.id, seed);
+    isRecording.value = true;
+  }
+
+  /**
+   * ends the current recording and keeps it (for watching or downloading)
+   * returns it (null if nothing was being recorded)
+   */
+  function finishRecording(): Recording | null {
+    const recording = recorder?.finish() ?? null;
+    if (recording) lastRecording.value = recording;
+    recorder = null;
+    isRecording.value = false;
+    return recording;
+  }
+
+  /**
+   * stops recording without keeping it (e.g. a saved run was loaded: it didn't start from a seed)
+   * the previous recording goes too, so "watch replay" at the end doesn't show some other run
+   */
+  function cancelRecording() {
+    recorder = null;
+    isRecording.value = false;
+    lastRecording.value = null;
+  }
+
+  /**
+   * records a respawn (it changes the world, so the replay has to do it at the same step)
+   */
+  function recordEvent(type: 'respawn') {
+    recorder?.recordEvent(type);
+  }
+
+  /**
+   * called after every physics step
+   * - recording: remembers the input the step used
+   * - replaying: keeps the controls in sync, pauses at the end
+   */
+  function onStep(input: InputVector, view: ViewState) {
+    recorder?.record(input, view);
+
+    if (player.value) {
+      position.value = player.value.position;
+      if (player.value.finished) paused.value = true;
+    }
+  }
+
+  /**
+   * starts watching a recording (restarts the level from the recording's seed)
+   */
+  function startReplay(recording: Recording, target: ReplayTarget) {
+    recorder = null;
+    isRecording.value = false;
+    paused.value = false;
+    player.value = createReplayPlayer(recording, target);
+    position.value = 0;
+    gameLoop.resync();
+  }
+
+  function stopReplay() {
+    player.value = null;
+    position.value = 0;
+  }
+
+  function togglePaused() {
+    if (!player.value) return;
+    // play at the end starts over
+    if (paused.value && player.value.finished) seek(0);
+    paused.value = !paused.value;
+  }
+
+  function setSpeed(value: number) {
+    speed.value = clampReplaySpeed(value);
+  }
+
+  /**
+   * jumps to a step (runs the simulation there without drawing, backwards replays from the start)
+   */
+  function seek(step: number) {
+    if (!player.value) return;
+    player.value.seek(step);
+    position.value = player.value.position;
+    gameLoop.resync(); // the katamari jumped, don't blend from where it was
+  }
+
+  /**
+   * downloads a recording as a json file (the run so far while still recording)
+   */
+  function download(recording: Recording | null = recorder?.finish() ?? lastRecording.value) {
+    if (recording) {
+      downloadJson(`katamari-${recording.levelId}-replay-${fileTimestamp(recording.recordedAt)}.json`, recording);
+    }
+  }
+
+  /**
+   * reads a recording from a downloaded file
+   * returns null (and sets the message) if the file isn't a recording of this level
+   */
+  async function loadFromFile(file: File): Promise<Recording | null> {
+    try {
+      const recording = parseRecording(JSON.parse(await file.text()));
+      if (recording.levelId !== level.id) {
+        message.value = `That recording is of another level (${recording.levelId})`;
+        return null;
+      }
+      message.value = null;
+      lastRecording.value = recording;
+      return recording;
+    } catch (error) {
+      console.warn('Could not load recording:', error);
+      message.value = 'That file is not a recording';
+      return null;
+    }
+  }
+
+  return {
+    lastRecording,
+    player,
+    position,
+    speed,
+    paused,
+    message,
+    isRecording,
+    startRecording,
+    finishRecording,
+    cancelRecording,
+    recordEvent,
+    onStep,
+    startReplay,
+    stopReplay,
+    togglePaused,
+    setSpeed,
+    seek,
+    download,
+    loadFromFile
+  };
+}
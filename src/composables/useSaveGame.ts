@@ -0,0 +1,84 @@
+// --- saved runs (localStorage and exported files)
+import { ref, shallowRef } from 'vue';
+import { DEFAULT_ITEM_CATALOG } from '../itemCatalog';
+import { downloadJson, fileTimestamp } from '../download';
+import { parseSnapshot, saveSnapshot, loadSnapshot, deleteSnapshot } from '../simulation/snapshot';
+import type { RunSnapshot } from '../simulation/snapshot';
+import type { ItemCatalog } from '../itemCatalog';
+import type { Level } from '../levels';
+
+/**
+ * Composable for saving a run and carrying it on later
+ *
+ * why?
+ * - runs can be long, closing the tab shouldn't throw one away
+ * - exported files can be moved to another browser (or attached to a bug report)
+ * - capturing and restoring happen in the simulation core (snapshot.ts), this only stores them
+ */
+export function useSaveGame(
+  level: Level,
+  catalog: ItemCatalog = DEFAULT_ITEM_CATALOG,
+  storage: Storage = window.localStorage,
+) {
+  const savedRun = shallowRef<RunSnapshot | null>(loadSnapshot(storage, level.id, catalog)); // run to resume (null = none)
+  const message = ref<string | null>(null); // feedback for the last save / import ("Run saved", errors)
+
+  /**
+   * saves a run in the browser (one per level, replaces the previous one)
+   */
+  function save(snapshot: RunSnapshot) {
+    try {
+      saveSnapshot(storage, snapshot);
+      savedRun.value = snapshot;
+      message.value = 'Run saved';
+    } catch (error) {
+      // storage full or disabled (private browsing)
+      console.warn('Could not save run:', error);
+      message.value = 'Could not save the run in this browser';
+    }
+  }
+
+  /**
+   * forgets the saved run (finished runs have nothing left to resume)
+   */
+  function clear() {
+    deleteSnapshot(storage, level.id);
+    savedRun.value = null;
+  }
+
+  /**
+   * downloads a run as a json file
+   */
+  function exportToFile(snapshot: RunSnapshot) {
+    downloadJson(`katamari-${snapshot.levelId}-${fileTimestamp(snapshot.savedAt)}.json`, snapshot);
+  }
+
+  /**
+   * reads a run from an exported file
+   * returns null (and sets the message) if the file isn't a save for this level
+   */
+  async function importFromFile(file: File): Promise<RunSnapshot | null> {
+    try {
+      const snapshot = parseSnapshot(JSON.parse(await file.text()), catalog);
+      if (snapshot.levelId !== level.id) {
+        message.value = `That save is for another level (${snapshot.levelId})`;
+        return null;
+      }
+      message.value = null;
+      return snapshot;
+    } catch (error) {
+      console.warn('Could not import run:', error);
+      message.value = 'That file is not a saved run';
+      return null;
+    }
+  }
+
+  return {
+    savedRun,
+    message,
+    save,
+    clear,
+    exportToFile,
+    importFromFile
+  };
+}
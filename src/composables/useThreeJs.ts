@@ -1,7 +1,21 @@
 // --- 3d rendering ---
-import { shallowRef, onBeforeUnmount } from 'vue';
+import { ref, shallowRef, watch, onBeforeUnmount } from 'vue';
 import type { Ref } from 'vue';
 import * as THREE from 'three';
+import { createKatamariMesh, setKatamariWireframe } from '../simulation/katamariMesh';
+import { getLevelObstacles, createObstacleMesh } from '../simulation/obstacles';
+import { createTerrainMesh } from '../simulation/terrain';
+import { createTerrainHeightmap } from '../heightmap';
+import {
+  updateHeading,
+  updateFollowCamera,
+  createFollowCameraState,
+  CAMERA_BASE_FOV,
+} from '../followCamera';
+import { STARTING_KATAMARI_SIZE } from '../levels';
+import type { Level } from '../levels';
+import type { ViewState } from '../gameLogic';
+import type { ObstacleProbe } from '../followCamera';
 
 /**
  * Composable for managing Three.js scene, camera, renderer, and meshes
@@ -16,13 +30,26 @@ export function useThreeJS(canvasContainer: Ref<HTMLElement | null>) {
   const camera = shallowRef<THREE.PerspectiveCamera | null>(null);  // our eye into the world
   const renderer = shallowRef<THREE.WebGLRenderer | null>(null); //draws the scene to the canvas
   const katamariMesh = shallowRef<THREE.Mesh | null>(null); // visual representation of the player
+  const katamariWireframe = ref(true); // katamari drawn as a wireframe (easy to see it roll) or solid, switchable any time
+
+  // camera heading, shared with the simulation (movement input is relative to it)
+  const view: ViewState = { heading: 0 };
+
+  // follow camera smoothing (framing eases towards the katamari size)
+  const followState = createFollowCameraState(STARTING_KATAMARI_SIZE);
+
+  // things the camera shouldn't end up behind (level geometry, not items)
+  const cameraObstacles: THREE.Object3D[] = [];
+  const raycaster = new THREE.Raycaster();
 
   /**
    * initializes the three.js rendering pipeline
    *
    * waiting for canvasContainer to exist before setting up prevents attaching DOM to nothing
+   *
+   * @param level - level being played (ground size and terrain, obstacles, katamari spawn point)
    */
-  function initThreeJS() {
+  function initThreeJS(level: Level) {
     if (!canvasContainer.value) {
       console.warn('Canvas container not ready!');
       return;
@@ -34,15 +61,15 @@ export function useThreeJS(canvasContainer: Ref<HTMLElement | null>) {
 
     // --- camera setup ---
     camera.value = new THREE.PerspectiveCamera(
-      75, // field of view in degrees, wider -> more fish-eye
+      CAMERA_BASE_FOV, // field of view in degrees, wider -> more fish-eye (widens as the katamari grows)
       window.innerWidth / window.innerHeight, //aspect ration (prevent stretching)
       0.1, // near clipping plane (don't render what's too close)
       1000, // far clipping plane (don't render what's too far)
     );
 
     // position camera behind/above start so player can see
-    camera.value.position.set(0, 5, 10);
-    camera.value.lookAt(0, 0, 0);
+    camera.value.position.set(level.spawn.x, level.spawn.y, level.spawn.z + 10);
+    camera.value.lookAt(level.spawn.x, 0, level.spawn.z);
 
     // --- renderer setup ---
     renderer.value = new THREE.WebGLRenderer({
@@ -64,31 +91,53 @@ export function useThreeJS(canvasContainer: Ref<HTMLElement | null>) {
     scene.value.add(dirLight);
 
     // --- katamari mesh ---
-    const geometry = new THREE.SphereGeometry(1, 32, 32); // radius 1m, 32 segments (for smoothness)
-    const material = new THREE.MeshStandardMaterial({
-      color: 0x32cd32, // lime green
-      wireframe: true, // easy to see rotation, debug-friendly
-    });
-    katamariMesh.value = new THREE.Mesh(geometry, material);
-    katamariMesh.value.position.set(0, 5, 0); // start at falling point
+    // created by the simulation core (it needs the mesh for attaching items, even without a renderer)
+    katamariMesh.value = createKatamariMesh(level, katamariWireframe.value);
     scene.value.add(katamariMesh.value);
 
     // --- ground mesh ---
-    const planeGeo = new THREE.PlaneGeometry(150, 150); // 150m square
-    const planeMat = new THREE.MeshStandardMaterial({
-      color: '#f0f0f0', // light gray
-      side: THREE.DoubleSide, // visible from below (if camera goes under)
-    });
-    const plane = new THREE.Mesh(planeGeo, planeMat);
+    const heightmap = level.terrain ? createTerrainHeightmap(level.terrain, level.ground) : null;
+    if (heightmap) {
+      // hills: the same triangles as the physics heightfield
+      const terrain = createTerrainMesh(heightmap);
+      scene.value.add(terrain);
+      cameraObstacles.push(terrain);
+    } else {
+      const planeGeo = new THREE.PlaneGeometry(level.ground.width, level.ground.depth); // size from the level
+      const planeMat = new THREE.MeshStandardMaterial({
+        color: '#f0f0f0', // light gray
+        side: THREE.DoubleSide, // visible from below (if camera goes under)
+      });
+      const plane = new THREE.Mesh(planeGeo, planeMat);
+
+      // rotate horizontal to match physics ground
+      plane.rotation.x = -Math.PI / 2;
+      scene.value.add(plane);
+      cameraObstacles.push(plane);
+    }
 
-    // rotate horizontal to match physics plane
-    plane.rotation.x = -Math.PI / 2;
-    scene.value.add(plane);
+    // --- level geometry ---
+    // walls, ramps, steps, fences, stood on the hills (their physics bodies are made with the physics world)
+    getLevelObstacles(level, heightmap).forEach((obstacle) => {
+      const mesh = createObstacleMesh(obstacle);
+      scene.value!.add(mesh);
+      cameraObstacles.push(mesh); // the camera stays on the katamari's side of walls
+    });
 
     // --- window resize handler ---
     window.addEventListener('resize', onWindowResize);
   }
 
+  // wireframe toggle applies right away (the material is changed, not the mesh)
+  // sync: a render straight after the change already shows it
+  watch(
+    katamariWireframe,
+    (wireframe) => {
+      if (katamariMesh.value) setKatamariWireframe(katamariMesh.value, wireframe);
+    },
+    { flush: 'sync' }
+  );
+
   /**
    * updates camera aspect ratio and renderer size when window resizes
    * prevents game from looking squishy after window resize
@@ -115,23 +164,44 @@ export function useThreeJS(canvasContainer: Ref<HTMLElement | null>) {
     }
   }
 
+  /**
+   * distance to the first camera obstacle along a ray (null = clear view)
+   */
+  const probeObstacles: ObstacleProbe = (from, direction, maxDistance) => {
+    raycaster.set(from, direction);
+    raycaster.far = maxDistance;
+    const hit = raycaster.intersectObjects(cameraObstacles, true)[0];
+    return hit ? hit.distance : null;
+  };
+
   /**
    * updates camera to follow katamari from behind
-   * later we can update this to camera.position.lerp() perhaps
+   * 1. turn the heading (player input, or easing round to the travel direction)
+   * 2. glide towards the spot behind the ball (further back and wider as it grows, in front of walls)
+   *
+   * @param dt - seconds since the last frame (0 = snap into place)
+   * @param turn - camera turn input, -1 (left) to 1 (right)
+   * @param velocity - katamari velocity (the camera swings round to face where it's rolling)
+   * @param size - katamari size (the camera pulls back as it grows)
    */
-  function updateCamera() {
+  function updateCamera(
+    dt: number = 0,
+    turn: number = 0,
+    velocity: { x: number; z: number } = { x: 0, z: 0 },
+    size: number = followState.easedSize,
+  ) {
     if (!katamariMesh.value || !camera.value) return;
 
-    const ballPos = katamariMesh.value.position;
-
-    // camera position is offset by (0, 5, 10) from ball, keeping ball centered with good viz
-    camera.value.position.set(
-      ballPos.x,
-      ballPos.y + 5,
-      ballPos.z + 10
-    );
+    view.heading = updateHeading(view.heading, turn, velocity, dt);
+    updateFollowCamera(camera.value, followState, katamariMesh.value.position, size, view.heading, dt, probeObstacles);
+  }
 
-    camera.value.lookAt(ballPos);
+  /**
+   * points the camera back down -z and snaps it behind the starting-size katamari (start of a run)
+   */
+  function resetCamera() {
+    view.heading = 0;
+    updateCamera(0, 0, undefined, STARTING_KATAMARI_SIZE);
   }
 
   /**
@@ -158,8 +228,12 @@ export function useThreeJS(canvasContainer: Ref<HTMLElement | null>) {
     camera,
     renderer,
     katamariMesh,
+    katamariWireframe,
+    view,
+    cameraObstacles,
     initThreeJS,
     render,
-    updateCamera
+    updateCamera,
+    resetCamera
   };
 }
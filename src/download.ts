@@ -0,0 +1,23 @@
+// --- file downloads (browser only) ---
+
+/**
+ * Downloads data as a pretty-printed json file.
+ * A temporary link is the only way to give the downloaded file a name.
+ */
+export function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Turns an ISO date into something that can go in a file name (no colons or dots).
+ */
+export function fileTimestamp(isoDate: string): string {
+  return isoDate.replace(/[:.]/g, '-');
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import * as CANNON from 'cannon-es';
+import * as THREE from 'three';
+import {
+  advanceAccumulator,
+  captureTransform,
+  interpolateTransform,
+  FIXED_TIMESTEP,
+  MAX_STEPS_PER_FRAME,
+} from './fixedTimestep';
+
+describe('Fixed timestep accumulator', () => {
+  it('should run one step per frame at 60 Hz', () => {
+    const result = advanceAccumulator(0, 1 / 60);
+
+    expect(result.steps).toBe(1);
+    expect(result.accumulator).toBeCloseTo(0);
+  });
+
+  it('should sometimes run zero steps at 144 Hz', () => {
+    const result = advanceAccumulator(0, 1 / 144);
+
+    expect(result.steps).toBe(0);
+    expect(result.accumulator).toBeCloseTo(1 / 144);
+    expect(result.alpha).toBeCloseTo(60 / 144);
+  });
+
+  it('should run multiple steps when a frame takes long', () => {
+    const result = advanceAccumulator(0, 3.5 * FIXED_TIMESTEP);
+
+    expect(result.steps).toBe(3);
+    expect(result.alpha).toBeCloseTo(0.5);
+  });
+
+  it('should simulate the same time on every refresh rate', () => {
+    const countSteps = (hz: number) => {
+      let accumulator = 0;
+      let steps = 0;
+      for (let frame = 0; frame < hz * 10; frame++) {
+        const result = advanceAccumulator(accumulator, 1 / hz);
+        accumulator = result.accumulator;
+        steps += result.steps;
+      }
+      return steps;
+    };
+
+    // 10 seconds of real time -> ~600 steps, whatever the monitor
+    expect(Math.abs(countSteps(60) - 600)).toBeLessThanOrEqual(1);
+    expect(Math.abs(countSteps(144) - 600)).toBeLessThanOrEqual(1);
+    expect(Math.abs(countSteps(30) - 600)).toBeLessThanOrEqual(1);
+  });
+
+  it('should cap steps per frame and drop the excess time', () => {
+    const result = advanceAccumulator(0, 20 * FIXED_TIMESTEP, FIXED_TIMESTEP, 10);
+
+    expect(result.steps).toBe(10);
+    expect(result.accumulator).toBeLessThan(FIXED_TIMESTEP);
+  });
+
+  it('should clamp huge frame times (tab switched away)', () => {
+    const result = advanceAccumulator(0, 30);
+
+    expect(result.steps).toBeLessThanOrEqual(MAX_STEPS_PER_FRAME);
+    expect(result.accumulator).toBeLessThan(FIXED_TIMESTEP);
+  });
+
+  it('should ignore negative frame times', () => {
+    const result = advanceAccumulator(0.005, -1);
+
+    expect(result.steps).toBe(0);
+    expect(result.accumulator).toBeCloseTo(0.005);
+  });
+});
+
+describe('Render interpolation', () => {
+  it('should capture a body transform', () => {
+    const body = new CANNON.Body({ mass: 1, position: new CANNON.Vec3(1, 2, 3) });
+    body.quaternion.setFromEuler(0, Math.PI / 2, 0);
+
+    const transform = captureTransform(body);
+
+    expect(transform.position.toArray()).toEqual([1, 2, 3]);
+    expect(transform.quaternion.y).toBeCloseTo(body.quaternion.y);
+    expect(transform.quaternion.w).toBeCloseTo(body.quaternion.w);
+  });
+
+  it('should blend between previous and current state', () => {
+    const body = new CANNON.Body({ mass: 1, position: new CANNON.Vec3(0, 0, 0) });
+    const previous = captureTransform(body);
+
+    body.position.set(10, 0, 0);
+    body.quaternion.setFromEuler(0, Math.PI / 2, 0);
+
+    const mesh = new THREE.Object3D();
+
+    interpolateTransform(mesh, previous, body, 0);
+    expect(mesh.position.x).toBeCloseTo(0);
+
+    interpolateTransform(mesh, previous, body, 1);
+    expect(mesh.position.x).toBeCloseTo(10);
+    expect(mesh.quaternion.angleTo(new THREE.Quaternion().setFromEuler(new THREE.Euler(0, Math.PI / 2, 0)))).toBeCloseTo(0);
+
+    interpolateTransform(mesh, previous, body, 0.5);
+    expect(mesh.position.x).toBeCloseTo(5);
+    expect(mesh.quaternion.angleTo(new THREE.Quaternion())).toBeCloseTo(Math.PI / 4);
+  });
+});
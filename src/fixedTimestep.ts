@@ -0,0 +1,75 @@
+// --- fixed timestep helpers ---
+import * as CANNON from 'cannon-es';
+import * as THREE from 'three';
+
+// physics always advances in steps of this size (seconds), whatever the monitor's refresh rate
+export const FIXED_TIMESTEP = 1 / 60;
+// never run more than this many steps in one frame (spiral-of-death cap)
+export const MAX_STEPS_PER_FRAME = 5;
+// frames longer than this (tab in the background, debugger pause) are treated as this long
+export const MAX_FRAME_TIME = 0.25;
+
+export interface AccumulatorResult {
+  steps: number; // how many fixed steps to run this frame
+  accumulator: number; // leftover time carried to the next frame
+  alpha: number; // how far we are between the last two physics states (0..1), for interpolation
+}
+
+/**
+ * Adds a frame's real elapsed time to the accumulator and works out how many
+ * fixed steps to run. If the simulation can't keep up (more than maxSteps due),
+ * the extra time is dropped so the game slows down instead of freezing.
+ */
+export function advanceAccumulator(
+  accumulator: number,
+  frameTime: number,
+  step: number = FIXED_TIMESTEP,
+  maxSteps: number = MAX_STEPS_PER_FRAME
+): AccumulatorResult {
+  let acc = accumulator + Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+  let steps = Math.floor(acc / step);
+
+  if (steps > maxSteps) {
+    // spiral-of-death cap: keep only the fraction of a step that was left over
+    steps = maxSteps;
+    acc = acc % step;
+  } else {
+    acc -= steps * step;
+  }
+
+  return { steps, accumulator: acc, alpha: acc / step };
+}
+
+/**
+ * Position and rotation of a body at one physics step.
+ */
+export interface BodyTransform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+/**
+ * Copies a body's current transform (call before stepping to remember the previous state).
+ */
+export function captureTransform(body: CANNON.Body, target?: BodyTransform): BodyTransform {
+  const transform = target ?? { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() };
+  transform.position.set(body.position.x, body.position.y, body.position.z);
+  transform.quaternion.set(body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w);
+  return transform;
+}
+
+/**
+ * Places an object between the previous and current physics state of a body.
+ * alpha = 0 -> previous state, alpha = 1 -> current state.
+ * Keeps motion smooth when the render rate doesn't match the physics rate.
+ */
+export function interpolateTransform(
+  object: THREE.Object3D,
+  previous: BodyTransform,
+  body: CANNON.Body,
+  alpha: number
+): void {
+  const current = captureTransform(body);
+  object.position.lerpVectors(previous.position, current.position, alpha);
+  object.quaternion.slerpQuaternions(previous.quaternion, current.quaternion, alpha);
+}
@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import {
+  dampFactor,
+  shortestAngle,
+  headingFromDirection,
+  headingToDirection,
+  updateHeading,
+  getCameraFraming,
+  easeToward,
+  getDesiredCameraPosition,
+  avoidObstacles,
+  createFollowCameraState,
+  updateFollowCamera,
+  CAMERA_TURN_SPEED,
+  CAMERA_BASE_DISTANCE,
+  CAMERA_BASE_HEIGHT,
+  CAMERA_BASE_FOV,
+  CAMERA_MAX_FOV,
+  CAMERA_OBSTACLE_MARGIN,
+} from './followCamera';
+import type { FollowCameraState, ObstacleProbe } from './followCamera';
+
+describe('Follow camera', () => {
+  describe('dampFactor', () => {
+    it('should not move with no time passed', () => {
+      expect(dampFactor(3, 0)).toBe(0);
+    });
+
+    it('should approach 1 over long times', () => {
+      expect(dampFactor(3, 10)).toBeCloseTo(1);
+    });
+
+    it('should be frame-rate independent', () => {
+      // two half frames close the same total distance as one full frame
+      const half = dampFactor(3, 0.05);
+      const twoHalves = 1 - (1 - half) * (1 - half);
+
+      expect(twoHalves).toBeCloseTo(dampFactor(3, 0.1));
+    });
+  });
+
+  describe('shortestAngle', () => {
+    it('should take the short way round', () => {
+      expect(shortestAngle(0, 0.5)).toBeCloseTo(0.5);
+      expect(shortestAngle(0.1, -0.1)).toBeCloseTo(-0.2);
+      expect(shortestAngle(3, -3)).toBeCloseTo(Math.PI * 2 - 6);
+    });
+
+    it('should ignore whole turns', () => {
+      expect(shortestAngle(0, Math.PI * 4 + 0.3)).toBeCloseTo(0.3);
+    });
+  });
+
+  describe('headings and directions', () => {
+    it('should look down -z at heading 0', () => {
+      expect(headingFromDirection(0, -1)).toBeCloseTo(0);
+      expect(headingToDirection(0).z).toBeCloseTo(-1);
+    });
+
+    it('should be positive when turned left', () => {
+      expect(headingFromDirection(-1, 0)).toBeCloseTo(Math.PI / 2);
+      expect(headingToDirection(Math.PI / 2).x).toBeCloseTo(-1);
+    });
+
+    it('should round-trip', () => {
+      const dir = headingToDirection(2.2);
+
+      expect(headingFromDirection(dir.x, dir.z)).toBeCloseTo(2.2);
+    });
+  });
+
+  describe('updateHeading', () => {
+    const still = { x: 0, z: 0 };
+
+    it('should turn right with positive turn input', () => {
+      const heading = updateHeading(0, 1, still, 0.5);
+
+      expect(heading).toBeCloseTo(-CAMERA_TURN_SPEED * 0.5);
+    });
+
+    it('should turn left with negative turn input', () => {
+      expect(updateHeading(0, -0.5, still, 1)).toBeCloseTo(CAMERA_TURN_SPEED * 0.5);
+    });
+
+    it('should stay put while the ball is (almost) still', () => {
+      expect(updateHeading(0.3, 0, { x: 0.2, z: 0.1 }, 1)).toBe(0.3);
+    });
+
+    it('should swing round towards the travel direction', () => {
+      // rolling forward and a bit left of where the camera looks
+      let heading = 0;
+      const velocity = { x: -2, z: -4 };
+      for (let i = 0; i < 300; i++) heading = updateHeading(heading, 0, velocity, 1 / 60);
+
+      expect(heading).toBeCloseTo(headingFromDirection(velocity.x, velocity.z), 2);
+    });
+
+    it('should not follow when rolling backwards', () => {
+      expect(updateHeading(0, 0, { x: 0, z: 5 }, 1)).toBeCloseTo(0);
+    });
+
+    it('should not follow when rolling straight sideways', () => {
+      expect(updateHeading(0, 0, { x: 5, z: 0 }, 1)).toBeCloseTo(0);
+    });
+
+    it('should let manual turning win over following', () => {
+      const heading = updateHeading(0, 1, { x: -5, z: 0 }, 0.1);
+
+      expect(heading).toBeLessThan(0);
+    });
+
+    it('should follow at the same pace at any frame rate', () => {
+      const velocity = { x: -3, z: -3 };
+      let at30 = 0;
+      let at120 = 0;
+      for (let i = 0; i < 30; i++) at30 = updateHeading(at30, 0, velocity, 1 / 30);
+      for (let i = 0; i < 120; i++) at120 = updateHeading(at120, 0, velocity, 1 / 120);
+
+      expect(at30).toBeCloseTo(at120, 1);
+    });
+  });
+
+  describe('getCameraFraming', () => {
+    it('should match the classic offset at the starting size', () => {
+      const framing = getCameraFraming(1);
+
+      expect(framing.distance).toBe(CAMERA_BASE_DISTANCE);
+      expect(framing.height).toBe(CAMERA_BASE_HEIGHT);
+      expect(framing.fov).toBe(CAMERA_BASE_FOV);
+    });
+
+    it('should pull back in proportion to the size', () => {
+      const framing = getCameraFraming(5);
+
+      expect(framing.distance).toBe(CAMERA_BASE_DISTANCE * 5);
+      expect(framing.height).toBe(CAMERA_BASE_HEIGHT * 5);
+    });
+
+    it('should widen the view as the ball grows, up to a limit', () => {
+      expect(getCameraFraming(2).fov).toBeGreaterThan(CAMERA_BASE_FOV);
+      expect(getCameraFraming(100).fov).toBe(CAMERA_MAX_FOV);
+    });
+  });
+
+  describe('easeToward', () => {
+    it('should move part of the way each frame and settle on the target', () => {
+      const once = easeToward(1, 2, 2, 0.1);
+      expect(once).toBeGreaterThan(1);
+      expect(once).toBeLessThan(2);
+
+      let value = 1;
+      for (let i = 0; i < 600; i++) value = easeToward(value, 2, 2, 1 / 60);
+      expect(value).toBeCloseTo(2);
+    });
+  });
+
+  describe('getDesiredCameraPosition', () => {
+    it('should sit behind and above the ball', () => {
+      const target = new THREE.Vector3(3, 1, -4);
+      const pos = getDesiredCameraPosition(target, 0, getCameraFraming(1));
+
+      expect(pos.x).toBeCloseTo(3);
+      expect(pos.y).toBeCloseTo(1 + CAMERA_BASE_HEIGHT);
+      expect(pos.z).toBeCloseTo(-4 + CAMERA_BASE_DISTANCE);
+    });
+
+    it('should stay behind the ball when the heading turns', () => {
+      // looking down -x: camera is on the +x side
+      const pos = getDesiredCameraPosition(new THREE.Vector3(), Math.PI / 2, getCameraFraming(1));
+
+      expect(pos.x).toBeCloseTo(CAMERA_BASE_DISTANCE);
+      expect(pos.z).toBeCloseTo(0);
+    });
+  });
+
+  describe('avoidObstacles', () => {
+    const target = new THREE.Vector3(0, 0, 0);
+
+    it('should leave the camera alone with a clear view', () => {
+      const desired = new THREE.Vector3(0, 0, 10);
+      avoidObstacles(target, desired, () => null, 1);
+
+      expect(desired.z).toBe(10);
+    });
+
+    it('should pull the camera in front of a wall', () => {
+      const desired = new THREE.Vector3(0, 0, 10);
+      avoidObstacles(target, desired, () => 4, 1);
+
+      expect(desired.z).toBeCloseTo(4 - CAMERA_OBSTACLE_MARGIN);
+    });
+
+    it('should probe along the line from the ball to the camera', () => {
+      let probed: { direction: THREE.Vector3; maxDistance: number } | null = null;
+      const probe: ObstacleProbe = (_from, direction, maxDistance) => {
+        probed = { direction: direction.clone(), maxDistance };
+        return null;
+      };
+
+      avoidObstacles(target, new THREE.Vector3(0, 6, 8), probe, 1);
+
+      expect(probed!.maxDistance).toBeCloseTo(10);
+      expect(probed!.direction.y).toBeCloseTo(0.6);
+      expect(probed!.direction.z).toBeCloseTo(0.8);
+    });
+
+    it('should not come closer than the minimum distance', () => {
+      const desired = new THREE.Vector3(0, 0, 10);
+      avoidObstacles(target, desired, () => 0.5, 3);
+
+      expect(desired.z).toBeCloseTo(3);
+    });
+  });
+
+  describe('updateFollowCamera', () => {
+    let camera: THREE.PerspectiveCamera;
+    let state: FollowCameraState;
+    const target = new THREE.Vector3(0, 1, 0);
+
+    beforeEach(() => {
+      camera = new THREE.PerspectiveCamera(CAMERA_BASE_FOV);
+      state = createFollowCameraState(1);
+    });
+
+    function run(size: number, seconds: number, fps: number = 60) {
+      for (let i = 0; i < seconds * fps; i++) updateFollowCamera(camera, state, target, size, 0, 1 / fps);
+    }
+
+    it('should snap into place with dt 0', () => {
+      updateFollowCamera(camera, state, target, 1, 0, 0);
+
+      expect(camera.position.z).toBeCloseTo(CAMERA_BASE_DISTANCE);
+      expect(camera.position.y).toBeCloseTo(1 + CAMERA_BASE_HEIGHT);
+    });
+
+    it('should look at the ball', () => {
+      updateFollowCamera(camera, state, target, 1, 0, 0);
+
+      const lookDirection = camera.getWorldDirection(new THREE.Vector3());
+      const toBall = target.clone().sub(camera.position).normalize();
+      expect(lookDirection.dot(toBall)).toBeCloseTo(1);
+    });
+
+    it('should ease back gradually after a growth spurt', () => {
+      updateFollowCamera(camera, state, target, 1, 0, 0);
+
+      run(3, 1 / 60);
+      expect(camera.position.z).toBeLessThan(CAMERA_BASE_DISTANCE * 1.1);
+
+      run(3, 5);
+      expect(camera.position.z).toBeCloseTo(CAMERA_BASE_DISTANCE * 3, 0);
+      expect(camera.fov).toBeGreaterThan(CAMERA_BASE_FOV);
+    });
+
+    it('should end up in the same place at any frame rate', () => {
+      updateFollowCamera(camera, state, target, 1, 0, 0);
+      run(2, 0.5, 30);
+      const at30 = camera.position.clone();
+
+      state = createFollowCameraState(1);
+      updateFollowCamera(camera, state, target, 1, 0, 0);
+      run(2, 0.5, 144);
+
+      // the camera chases an eased target, so only the last bit differs (the move is 10 m)
+      expect(camera.position.distanceTo(at30)).toBeLessThan(0.25);
+    });
+
+    it('should keep out of obstacles', () => {
+      const wall: ObstacleProbe = () => 5;
+      for (let i = 0; i < 300; i++) updateFollowCamera(camera, state, target, 1, 0, 1 / 60, wall);
+
+      expect(camera.position.distanceTo(target)).toBeCloseTo(5 - CAMERA_OBSTACLE_MARGIN, 1);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+// --- follow camera math (framework-free) ---
+import * as THREE from 'three';
+
+export const CAMERA_TURN_SPEED = 2.5; // radians per second at full turn input
+export const CAMERA_FOLLOW_RATE = 1.5; // how quickly the camera swings behind the ball (per second)
+export const CAMERA_FOLLOW_MIN_SPEED = 1; // m/s, slower than this the camera stays put (no jitter when stopping)
+
+/**
+ * Tuning for how the camera heading moves.
+ * - turnSpeed: manual turning speed (radians per second at full input)
+ * - followRate: how quickly it swings round to the travel direction on its own (0 = never)
+ * - followMinSpeed: ball speed below which it doesn't follow
+ */
+export interface HeadingSettings {
+  turnSpeed: number;
+  followRate: number;
+  followMinSpeed: number;
+}
+
+export const DEFAULT_HEADING_SETTINGS: HeadingSettings = {
+  turnSpeed: CAMERA_TURN_SPEED,
+  followRate: CAMERA_FOLLOW_RATE,
+  followMinSpeed: CAMERA_FOLLOW_MIN_SPEED,
+};
+
+/**
+ * Returns the fraction of the remaining distance to close this frame when easing
+ * towards a target at the given rate. Frame-rate independent: two frames of dt/2
+ * end up at the same spot as one frame of dt.
+ */
+export function dampFactor(rate: number, dt: number): number {
+  return 1 - Math.exp(-rate * dt);
+}
+
+/**
+ * Returns the signed angle (radians, between -π and π) to turn from one heading to another the short way.
+ */
+export function shortestAngle(from: number, to: number): number {
+  const diff = (to - from) % (Math.PI * 2);
+  if (diff > Math.PI) return diff - Math.PI * 2;
+  if (diff < -Math.PI) return diff + Math.PI * 2;
+  return diff;
+}
+
+/**
+ * Returns the heading that looks along a direction on the ground
+ * (0 = looking down -z, positive = turned left).
+ */
+export function headingFromDirection(x: number, z: number): number {
+  return Math.atan2(-x, -z);
+}
+
+/**
+ * Returns the camera's forward direction on the ground for a heading (unit length).
+ */
+export function headingToDirection(heading: number): { x: number; z: number } {
+  return { x: -Math.sin(heading), z: -Math.cos(heading) };
+}
+
+/**
+ * Advances the camera heading by one frame.
+ * - turn input rotates it directly (positive = turn right)
+ * - otherwise it eases round to face the way the ball is rolling
+ * - the follow fades out when rolling sideways or backwards, so pulling back
+ *   doesn't spin the camera round (and flip the controls)
+ *
+ * @param turn - camera turn input, -1 (left) to 1 (right)
+ * @param velocity - ball velocity on the ground (m/s)
+ */
+export function updateHeading(
+  heading: number,
+  turn: number,
+  velocity: { x: number; z: number },
+  dt: number,
+  settings: HeadingSettings = DEFAULT_HEADING_SETTINGS
+): number {
+  if (turn !== 0) {
+    return heading - turn * settings.turnSpeed * dt;
+  }
+
+  const speed = Math.hypot(velocity.x, velocity.z);
+  if (speed < settings.followMinSpeed) return heading;
+
+  const diff = shortestAngle(heading, headingFromDirection(velocity.x, velocity.z));
+  const alignment = Math.max(0, Math.cos(diff)); // 1 = rolling straight ahead, 0 = sideways or back
+  return heading + diff * alignment * dampFactor(settings.followRate, dt);
+}
+
+// --- framing (how far back the camera sits) ---
+export const CAMERA_BASE_DISTANCE = 10; // behind the ball at the starting size (m)
+export const CAMERA_BASE_HEIGHT = 5; // above the ball at the starting size (m)
+export const CAMERA_BASE_FOV = 75; // degrees
+export const CAMERA_FOV_PER_METER = 3; // wider view as the ball grows (degrees per meter of size)
+export const CAMERA_MAX_FOV = 90;
+
+// --- smoothing (per second, higher = snappier) ---
+export const CAMERA_SIZE_EASE_RATE = 1.5; // growth spurts pull the camera back over about a second
+export const CAMERA_POSITION_RATE = 8;
+export const CAMERA_ROTATION_RATE = 10;
+
+// --- obstacle avoidance ---
+export const CAMERA_OBSTACLE_MARGIN = 0.3; // distance kept from whatever blocks the view (m)
+export const CAMERA_MIN_DISTANCE_PER_SIZE = 1.5; // never closer than this many katamari sizes
+
+/**
+ * Where the camera sits relative to the ball, and how wide it sees.
+ */
+export interface CameraFraming {
+  distance: number; // behind the ball (m)
+  height: number; // above the ball (m)
+  fov: number; // vertical field of view (degrees)
+}
+
+/**
+ * Returns the camera framing for a katamari size: distance and height grow with the ball
+ * (so it always takes up about the same part of the screen), the view widens a little.
+ */
+export function getCameraFraming(size: number): CameraFraming {
+  return {
+    distance: CAMERA_BASE_DISTANCE * size,
+    height: CAMERA_BASE_HEIGHT * size,
+    fov: Math.min(CAMERA_MAX_FOV, CAMERA_BASE_FOV + CAMERA_FOV_PER_METER * (size - 1)),
+  };
+}
+
+/**
+ * Eases a value towards a target (frame-rate independent, see dampFactor).
+ */
+export function easeToward(current: number, target: number, rate: number, dt: number): number {
+  return current + (target - current) * dampFactor(rate, dt);
+}
+
+/**
+ * Returns where the camera wants to be: behind the ball (against the heading) and above it.
+ */
+export function getDesiredCameraPosition(
+  target: THREE.Vector3,
+  heading: number,
+  framing: CameraFraming,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const forward = headingToDirection(heading);
+  return out.set(
+    target.x - forward.x * framing.distance,
+    target.y + framing.height,
+    target.z - forward.z * framing.distance
+  );
+}
+
+/**
+ * Distance from a point along a direction to the first thing that blocks the view
+ * (null = nothing within maxDistance). Supplied by the renderer (raycasting).
+ */
+export type ObstacleProbe = (from: THREE.Vector3, direction: THREE.Vector3, maxDistance: number) => number | null;
+
+/**
+ * Pulls the desired camera position in front of anything between it and the ball.
+ * - keeps a small margin from the obstacle
+ * - never closer than minDistance (inside the ball would be worse than a wall in the way)
+ */
+export function avoidObstacles(
+  target: THREE.Vector3,
+  desired: THREE.Vector3,
+  probe: ObstacleProbe,
+  minDistance: number,
+  margin: number = CAMERA_OBSTACLE_MARGIN
+): THREE.Vector3 {
+  const direction = desired.clone().sub(target);
+  const distance = direction.length();
+  if (distance === 0) return desired;
+  direction.divideScalar(distance);
+
+  const hit = probe(target, direction, distance);
+  if (hit === null) return desired;
+
+  const safe = Math.max(minDistance, hit - margin);
+  return safe < distance ? desired.copy(target).addScaledVector(direction, safe) : desired;
+}
+
+/**
+ * What the follow camera remembers between frames.
+ */
+export interface FollowCameraState {
+  easedSize: number; // katamari size the framing is based on (lags behind the real size)
+}
+
+export function createFollowCameraState(size: number): FollowCameraState {
+  return { easedSize: size };
+}
+
+const desiredPosition = new THREE.Vector3();
+const lookMatrix = new THREE.Matrix4();
+const desiredQuaternion = new THREE.Quaternion();
+
+/**
+ * Moves the camera one frame closer to its spot behind the ball.
+ * 1. ease the framing size towards the katamari size (no jumps on growth spurts)
+ * 2. work out the desired position, pulled in front of obstacles
+ * 3. lerp position and slerp rotation towards it (frame-rate independent)
+ * 4. update the field of view
+ *
+ * dt = 0 snaps straight to the desired spot (first frame, restarts).
+ */
+export function updateFollowCamera(
+  camera: THREE.PerspectiveCamera,
+  state: FollowCameraState,
+  target: THREE.Vector3,
+  size: number,
+  heading: number,
+  dt: number,
+  probe?: ObstacleProbe
+): void {
+  const snap = dt === 0;
+  state.easedSize = snap ? size : easeToward(state.easedSize, size, CAMERA_SIZE_EASE_RATE, dt);
+  const framing = getCameraFraming(state.easedSize);
+
+  getDesiredCameraPosition(target, heading, framing, desiredPosition);
+  if (probe) avoidObstacles(target, desiredPosition, probe, state.easedSize * CAMERA_MIN_DISTANCE_PER_SIZE);
+
+  if (snap) {
+    camera.position.copy(desiredPosition);
+  } else {
+    camera.position.lerp(desiredPosition, dampFactor(CAMERA_POSITION_RATE, dt));
+  }
+
+  // look at the ball from where the camera ended up
+  lookMatrix.lookAt(camera.position, target, camera.up);
+  desiredQuaternion.setFromRotationMatrix(lookMatrix);
+  if (snap) {
+    camera.quaternion.copy(desiredQuaternion);
+  } else {
+    camera.quaternion.slerp(desiredQuaternion, dampFactor(CAMERA_ROTATION_RATE, dt));
+  }
+
+  if (camera.fov !== framing.fov) {
+    camera.fov = framing.fov;
+    camera.updateProjectionMatrix();
+  }
+}
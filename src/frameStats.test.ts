@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createFrameStats } from './frameStats';
+
+describe('Frame stats', () => {
+  it('should start at zero', () => {
+    expect(createFrameStats().summary()).toEqual({ fps: 0, frameTime: 0, stepTime: 0, stepsPerFrame: 0 });
+  });
+
+  it('should average frame and step times', () => {
+    const stats = createFrameStats();
+    stats.recordFrame(10, 1);
+    stats.recordFrame(30, 2);
+    stats.recordStep(1);
+    stats.recordStep(2);
+    stats.recordStep(3);
+
+    const summary = stats.summary();
+    expect(summary.frameTime).toBe(20);
+    expect(summary.fps).toBe(50);
+    expect(summary.stepTime).toBe(2);
+    expect(summary.stepsPerFrame).toBe(1.5);
+  });
+
+  it('should only average the latest frames', () => {
+    const stats = createFrameStats(3);
+    stats.recordFrame(100, 1); // pushed out by the three below
+    stats.recordFrame(10, 1);
+    stats.recordFrame(20, 1);
+    stats.recordFrame(30, 1);
+
+    expect(stats.summary().frameTime).toBe(20);
+  });
+
+  it('should forget everything on reset', () => {
+    const stats = createFrameStats();
+    stats.recordFrame(16, 1);
+    stats.recordStep(2);
+    stats.reset();
+
+    expect(stats.summary().fps).toBe(0);
+    expect(stats.summary().stepTime).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+// --- performance numbers for the dev overlay ---
+
+// frames the averages are taken over (about a second at 60 Hz: steady, but still quick to react)
+export const FRAME_STATS_WINDOW = 60;
+
+/**
+ * Averages over the last few frames.
+ */
+export interface FrameStatsSummary {
+  fps: number; // frames per second (0 until two frames were timed)
+  frameTime: number; // real time between frames (ms)
+  stepTime: number; // time spent in one physics step (ms, 0 if no step ran yet)
+  stepsPerFrame: number; // physics steps per frame (0 = frames faster than 60 Hz, above 1 = catching up)
+}
+
+/**
+ * Collects frame and physics step timings (ms) and averages them over a rolling window.
+ */
+export interface FrameStats {
+  recordFrame(frameTime: number, steps: number): void;
+  recordStep(stepTime: number): void;
+  summary(): FrameStatsSummary;
+  reset(): void;
+}
+
+/**
+ * Creates an empty set of frame stats.
+ *
+ * @param windowSize - how many of the latest frames (and steps) the averages use
+ */
+export function createFrameStats(windowSize: number = FRAME_STATS_WINDOW): FrameStats {
+  const frameTimes = createRollingAverage(windowSize);
+  const stepTimes = createRollingAverage(windowSize);
+  const stepCounts = createRollingAverage(windowSize);
+
+  return {
+    recordFrame(frameTime, steps) {
+      frameTimes.add(frameTime);
+      stepCounts.add(steps);
+    },
+    recordStep(stepTime) {
+      stepTimes.add(stepTime);
+    },
+    summary() {
+      const frameTime = frameTimes.average();
+      return {
+        fps: frameTime > 0 ? 1000 / frameTime : 0,
+        frameTime,
+        stepTime: stepTimes.average(),
+        stepsPerFrame: stepCounts.average(),
+      };
+    },
+    reset() {
+      frameTimes.clear();
+      stepTimes.clear();
+      stepCounts.clear();
+    },
+  };
+}
+
+/**
+ * Average of the last `size` values added (ring buffer, no allocations per value).
+ */
+function createRollingAverage(size: number) {
+  const values = new Float64Array(size);
+  let count = 0; // values stored (up to size)
+  let next = 0; // slot the next value goes in
+  let sum = 0;
+
+  return {
+    add(value: number) {
+      if (count === size) sum -= values[next]!;
+      else count++;
+      values[next] = value;
+      sum += value;
+      next = (next + 1) % size;
+    },
+    average() {
+      return count === 0 ? 0 : sum / count;
+    },
+    clear() {
+      count = 0;
+      next = 0;
+      sum = 0;
+    },
+  };
+}
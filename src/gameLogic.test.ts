@@ -6,17 +6,49 @@ import {
   capLinearVelocity,
   capAngularVelocity,
   isColliding,
+  canAbsorb,
   findCollidingCollectibles,
   stickItem,
   growKatamari,
+  sphereVolume,
+  sphereRadius,
+  calculateGrowth,
+  calculateShrink,
+  countKnockedOffItems,
+  isKnockOffImpact,
+  findRecentlyCollected,
+  detachItem,
+  tickPickupCooldowns,
+  syncItemToBody,
+  updateKatamariColliders,
+  removeItemCollider,
+  cloneShape,
+  anchorStuckItem,
+  getStuckItemDepth,
   MOVE_FORCE,
   MAX_VELOCITY,
   MAX_ANGULAR_VELOCITY,
-  KeyState,
-  Collectible,
+  ABSORB_SIZE_FRACTION,
+  DEFAULT_GROWTH_CURVE,
+  KNOCK_OFF_IMPACT_SPEED,
+  KNOCK_OFF_SPEED_PER_ITEM,
+  MAX_KNOCK_OFF_ITEMS,
+  PICKUP_COOLDOWN,
+  MAX_KATAMARI_COLLIDER_SHAPES,
+  ITEM_EMBED_FRACTION,
+  ITEM_SINK_RATE,
 } from './gameLogic';
+import { keysToInputVector } from './input';
+import type { KeyState, Collectible } from './gameLogic';
 
-describe('Katamari movement based on keyboard input', () => {
+/**
+ * items by their mesh, the way the spawner keeps them
+ */
+function byMesh(items: Collectible[]): Map<THREE.Object3D, Collectible> {
+  return new Map(items.map((item) => [item.mesh, item]));
+}
+
+describe('Katamari movement based on player input', () => {
   let katamariBody: CANNON.Body;
 
   beforeEach(() => {
@@ -29,7 +61,7 @@ describe('Katamari movement based on keyboard input', () => {
 
   it('should apply negative Z force when W is pressed', () => {
     const keys: KeyState = { w: true, a: false, s: false, d: false };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
     expect(force.x).toBe(0);
     expect(force.z).toBe(-MOVE_FORCE);
@@ -37,7 +69,7 @@ describe('Katamari movement based on keyboard input', () => {
 
   it('should apply positive Z force when S is pressed', () => {
     const keys: KeyState = { w: false, a: false, s: true, d: false };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
     expect(force.x).toBe(0);
     expect(force.z).toBe(MOVE_FORCE);
@@ -45,7 +77,7 @@ describe('Katamari movement based on keyboard input', () => {
 
   it('should apply negative X force when A is pressed', () => {
     const keys: KeyState = { w: false, a: true, s: false, d: false };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
     expect(force.x).toBe(-MOVE_FORCE);
     expect(force.z).toBe(0);
@@ -53,7 +85,7 @@ describe('Katamari movement based on keyboard input', () => {
 
   it('should apply positive X force when D is pressed', () => {
     const keys: KeyState = { w: false, a: false, s: false, d: true };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
     expect(force.x).toBe(MOVE_FORCE);
     expect(force.z).toBe(0);
@@ -61,15 +93,16 @@ describe('Katamari movement based on keyboard input', () => {
 
   it('should apply diagonal force when W and D are pressed', () => {
     const keys: KeyState = { w: true, a: false, s: false, d: true };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
-    expect(force.x).toBe(MOVE_FORCE);
-    expect(force.z).toBe(-MOVE_FORCE);
+    // same total force as a single key (diagonals aren't faster)
+    expect(force.x).toBeCloseTo(MOVE_FORCE * Math.SQRT1_2);
+    expect(force.z).toBeCloseTo(-MOVE_FORCE * Math.SQRT1_2);
   });
 
   it('should apply no force when no keys are pressed', () => {
     const keys: KeyState = { w: false, a: false, s: false, d: false };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
     expect(force.x).toBe(0);
     expect(force.z).toBe(0);
@@ -77,11 +110,63 @@ describe('Katamari movement based on keyboard input', () => {
 
   it('should cancel out force when opposite keys are pressed', () => {
     const keys: KeyState = { w: true, a: false, s: true, d: false };
-    const force = applyInputForce(keys, katamariBody);
+    const force = applyInputForce(keysToInputVector(keys), katamariBody);
 
     expect(force.x).toBe(0);
     expect(force.z).toBe(0);
   });
+
+  it('should scale force with analog input', () => {
+    const force = applyInputForce({ x: 0.25, y: 0.5 }, katamariBody);
+
+    expect(force.x).toBeCloseTo(MOVE_FORCE * 0.25);
+    expect(force.z).toBeCloseTo(-MOVE_FORCE * 0.5);
+  });
+
+  describe('relative to the camera heading', () => {
+    it('should push the way the camera looks when moving forward', () => {
+      // camera turned a quarter left: looking down -x
+      const force = applyInputForce({ x: 0, y: 1 }, katamariBody, Math.PI / 2);
+
+      expect(force.x).toBeCloseTo(-MOVE_FORCE);
+      expect(force.z).toBeCloseTo(0);
+    });
+
+    it('should push to the camera\'s right when moving right', () => {
+      // camera turned a quarter left: its right is -z
+      const force = applyInputForce({ x: 1, y: 0 }, katamariBody, Math.PI / 2);
+
+      expect(force.x).toBeCloseTo(0);
+      expect(force.z).toBeCloseTo(-MOVE_FORCE);
+    });
+
+    it('should push towards the camera when turned around and moving back', () => {
+      // camera looking down +z, pulling back moves the ball towards -z
+      const force = applyInputForce({ x: 0, y: -1 }, katamariBody, Math.PI);
+
+      expect(force.x).toBeCloseTo(0);
+      expect(force.z).toBeCloseTo(-MOVE_FORCE);
+    });
+
+    it('should keep the force magnitude at any heading', () => {
+      const force = applyInputForce({ x: 0.6, y: 0.8 }, katamariBody, 1.234);
+
+      expect(force.length()).toBeCloseTo(MOVE_FORCE);
+    });
+
+    it('should match world axes at heading 0', () => {
+      const force = applyInputForce({ x: 0.3, y: 0.4 }, katamariBody, 0);
+
+      expect(force.x).toBeCloseTo(MOVE_FORCE * 0.3);
+      expect(force.z).toBeCloseTo(-MOVE_FORCE * 0.4);
+    });
+
+    it('should apply the custom move force', () => {
+      const force = applyInputForce({ x: 0, y: 1 }, katamariBody, 0, 5);
+
+      expect(force.z).toBeCloseTo(-5);
+    });
+  });
 });
 
 describe('Katamari velocity capping', () => {
@@ -192,8 +277,12 @@ describe('Collision detection', () => {
         shape: new CANNON.Box(new CANNON.Vec3(0.25, 0.25, 0.25)),
         position: new CANNON.Vec3(0, 0, 0),
       }),
+      type: 'toy-block',
       collected: false,
       radius: 0.4,
+      size: 0.5,
+      volume: 0.125,
+      points: 2,
     };
   });
 
@@ -240,26 +329,62 @@ describe('Collision detection', () => {
     expect(isColliding(katamariBody, collectible, 2)).toBe(true);
   });
 
+  describe('canAbsorb', () => {
+    it('should absorb items smaller than the absorb fraction of the katamari', () => {
+      collectible.size = 0.5;
+
+      expect(canAbsorb(collectible, 1)).toBe(true);
+    });
+
+    it('should not absorb items at or above the absorb fraction', () => {
+      collectible.size = ABSORB_SIZE_FRACTION;
+
+      expect(canAbsorb(collectible, 1)).toBe(false);
+    });
+
+    it('should absorb bigger items once the katamari has grown', () => {
+      collectible.size = 2;
+
+      // Small katamari (size 1): 2 >= 0.9 = too big
+      expect(canAbsorb(collectible, 1)).toBe(false);
+
+      // Large katamari (size 3): 2 < 2.7 = absorbable
+      expect(canAbsorb(collectible, 3)).toBe(true);
+    });
+  });
+
   describe('findCollidingCollectibles', () => {
     it('should return only colliding uncollected items', () => {
       const collectibles: Collectible[] = [
         {
           mesh: new THREE.Mesh(),
           body: new CANNON.Body({ position: new CANNON.Vec3(1, 0, 0) }),
+          type: 'toy-block',
           collected: false,
           radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
         },
         {
           mesh: new THREE.Mesh(),
           body: new CANNON.Body({ position: new CANNON.Vec3(10, 0, 0) }),
+          type: 'toy-block',
           collected: false,
           radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
         },
         {
           mesh: new THREE.Mesh(),
           body: new CANNON.Body({ position: new CANNON.Vec3(0.5, 0, 0) }),
+          type: 'toy-block',
           collected: true, // Already collected
           radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
         },
       ];
 
@@ -269,13 +394,87 @@ describe('Collision detection', () => {
       expect(colliding[0]).toBe(collectibles[0]);
     });
 
+    it('should skip items too big to absorb', () => {
+      const collectibles: Collectible[] = [
+        {
+          mesh: new THREE.Mesh(),
+          body: new CANNON.Body({ position: new CANNON.Vec3(1, 0, 0) }),
+          type: 'toy-block',
+          collected: false,
+          radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
+        },
+        {
+          mesh: new THREE.Mesh(),
+          body: new CANNON.Body({ position: new CANNON.Vec3(-1, 0, 0) }),
+          type: 'toy-block',
+          collected: false,
+          radius: 1.5,
+          size: 3, // bigger than the katamari
+          volume: 27,
+          points: 30,
+        },
+      ];
+
+      const colliding = findCollidingCollectibles(katamariBody, collectibles, 1);
+
+      expect(colliding).toHaveLength(1);
+      expect(colliding[0]).toBe(collectibles[0]);
+    });
+
+    it('should respect a custom absorb fraction', () => {
+      const collectibles: Collectible[] = [
+        {
+          mesh: new THREE.Mesh(),
+          body: new CANNON.Body({ position: new CANNON.Vec3(1, 0, 0) }),
+          type: 'toy-block',
+          collected: false,
+          radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
+        },
+      ];
+
+      // only items under a quarter of the katamari size stick
+      expect(findCollidingCollectibles(katamariBody, collectibles, 1, 0.25)).toHaveLength(0);
+      expect(findCollidingCollectibles(katamariBody, collectibles, 1, 0.75)).toHaveLength(1);
+    });
+
+    it('should skip items on pickup cooldown', () => {
+      const collectibles: Collectible[] = [
+        {
+          mesh: new THREE.Mesh(),
+          body: new CANNON.Body({ position: new CANNON.Vec3(1, 0, 0) }),
+          type: 'toy-block',
+          collected: false,
+          radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
+          pickupCooldown: 0.5,
+        },
+      ];
+
+      expect(findCollidingCollectibles(katamariBody, collectibles, 1)).toHaveLength(0);
+
+      collectibles[0]!.pickupCooldown = 0;
+      expect(findCollidingCollectibles(katamariBody, collectibles, 1)).toHaveLength(1);
+    });
+
     it('should return empty array when no collisions', () => {
       const collectibles: Collectible[] = [
         {
           mesh: new THREE.Mesh(),
           body: new CANNON.Body({ position: new CANNON.Vec3(10, 0, 0) }),
+          type: 'toy-block',
           collected: false,
           radius: 0.4,
+          size: 0.5,
+          volume: 0.125,
+          points: 2,
         },
       ];
 
@@ -316,8 +515,12 @@ describe('Item collection (stickItem)', () => {
     collectible = {
       mesh: collectibleMesh,
       body: collectibleBody,
+      type: 'toy-block',
       collected: false,
       radius: 0.4,
+      size: 0.5,
+      volume: 0.125,
+      points: 2,
     };
   });
 
@@ -351,18 +554,27 @@ describe('Item collection (stickItem)', () => {
     expect(collectible.collectedAtSize).toBe(katamariSize);
   });
 
-  it('should maintain world position when reparenting', () => {
-    const originalWorldPos = new THREE.Vector3();
-    collectible.mesh.getWorldPosition(originalWorldPos);
-
+  it('should anchor the item in the surface on the side it touched', () => {
     stickItem(collectible, katamariMesh, world, 1);
 
     const newWorldPos = new THREE.Vector3();
     collectible.mesh.getWorldPosition(newWorldPos);
 
-    expect(newWorldPos.x).toBeCloseTo(originalWorldPos.x);
-    expect(newWorldPos.y).toBeCloseTo(originalWorldPos.y);
-    expect(newWorldPos.z).toBeCloseTo(originalWorldPos.z);
+    // touched from +x (in pickup range, off the surface): pulled onto the surface, partly sunk in
+    expect(collectible.surfaceDirection!.x).toBeCloseTo(1);
+    expect(newWorldPos.x).toBeCloseTo(1 - collectible.size * ITEM_EMBED_FRACTION);
+    expect(newWorldPos.y).toBeCloseTo(1);
+    expect(newWorldPos.z).toBeCloseTo(0);
+  });
+
+  it('should free the instance slot the item was drawn with', () => {
+    let released = 0;
+    collectible.instanceSlot = { index: 3, update: () => {}, release: () => released++ };
+
+    stickItem(collectible, katamariMesh, world, 1);
+
+    expect(released).toBe(1);
+    expect(collectible.instanceSlot).toBeUndefined();
   });
 });
 
@@ -386,7 +598,7 @@ describe('Katamari growth', () => {
   });
 
   it('should update visual size correctly', () => {
-    const newSize = growKatamari(0.5, 1, katamariMesh, katamariBody, collectibles);
+    const newSize = growKatamari(0.5, 1, katamariMesh, katamariBody, byMesh(collectibles));
 
     expect(newSize).toBe(1.5);
     expect(katamariMesh.scale.x).toBe(1.5);
@@ -395,7 +607,7 @@ describe('Katamari growth', () => {
   });
 
   it('should update physics shape radius correctly', () => {
-    growKatamari(0.5, 1, katamariMesh, katamariBody, collectibles);
+    growKatamari(0.5, 1, katamariMesh, katamariBody, byMesh(collectibles));
 
     const sphereShape = katamariBody.shapes[0] as CANNON.Sphere;
     expect(sphereShape.radius).toBe(1.5);
@@ -412,14 +624,18 @@ describe('Katamari growth', () => {
     const collectedItem: Collectible = {
       mesh: collectedMesh,
       body: new CANNON.Body(),
+      type: 'toy-block',
       collected: true,
       radius: 0.4,
+      size: 0.5,
+      volume: 0.125,
+      points: 2,
       collectedAtSize: 1.0,
     };
     collectibles.push(collectedItem);
 
     // Grow from 1 to 1.5
-    growKatamari(0.5, 1, katamariMesh, katamariBody, collectibles);
+    growKatamari(0.5, 1, katamariMesh, katamariBody, byMesh(collectibles));
 
     // Counter-scale should be 1/1.5 ≈ 0.667
     expect(collectedMesh.scale.x).toBeCloseTo(1 / 1.5);
@@ -430,10 +646,10 @@ describe('Katamari growth', () => {
   it('should handle multiple growth increments correctly', () => {
     let currentSize = 1;
     
-    currentSize = growKatamari(0.1, currentSize, katamariMesh, katamariBody, collectibles);
+    currentSize = growKatamari(0.1, currentSize, katamariMesh, katamariBody, byMesh(collectibles));
     expect(currentSize).toBeCloseTo(1.1);
     
-    currentSize = growKatamari(0.2, currentSize, katamariMesh, katamariBody, collectibles);
+    currentSize = growKatamari(0.2, currentSize, katamariMesh, katamariBody, byMesh(collectibles));
     expect(currentSize).toBeCloseTo(1.3);
     
     expect(katamariMesh.scale.x).toBeCloseTo(1.3);
@@ -450,7 +666,7 @@ describe('Katamari growth', () => {
     randomChild.scale.set(1, 1, 1);
     katamariMesh.add(randomChild);
 
-    growKatamari(0.5, 1, katamariMesh, katamariBody, collectibles);
+    growKatamari(0.5, 1, katamariMesh, katamariBody, byMesh(collectibles));
 
     // Scale should remain unchanged since no collectible data matches
     expect(randomChild.scale.x).toBe(1);
@@ -467,23 +683,528 @@ describe('Katamari growth', () => {
     collectibles.push({
       mesh: mesh1,
       body: new CANNON.Body(),
+      type: 'toy-block',
       collected: true,
       radius: 0.3,
+      size: 0.5,
+      volume: 0.125,
+      points: 2,
       collectedAtSize: 1.0,
     });
     collectibles.push({
       mesh: mesh2,
       body: new CANNON.Body(),
+      type: 'toy-block',
       collected: true,
       radius: 0.5,
+      size: 0.5,
+      volume: 0.125,
+      points: 2,
       collectedAtSize: 1.2, // Collected at a different size
     });
 
     // Grow to size 2
-    growKatamari(1, 1, katamariMesh, katamariBody, collectibles);
+    growKatamari(1, 1, katamariMesh, katamariBody, byMesh(collectibles));
 
     // Both should be scaled to 1/newSize = 0.5
     expect(mesh1.scale.x).toBeCloseTo(0.5);
     expect(mesh2.scale.x).toBeCloseTo(0.5);
   });
 });
+
+describe('Stuck items staying on the surface', () => {
+  let world: CANNON.World;
+  let katamariMesh: THREE.Mesh;
+  let katamariBody: CANNON.Body;
+  let collectibles: Collectible[];
+  let size: number;
+
+  beforeEach(() => {
+    world = new CANNON.World();
+    katamariMesh = new THREE.Mesh(new THREE.SphereGeometry(1), new THREE.MeshBasicMaterial());
+    katamariBody = new CANNON.Body({ mass: 1, shape: new CANNON.Sphere(1) });
+    collectibles = [];
+    size = 1;
+  });
+
+  /**
+   * touches the ball with a 0.3 m item from a direction (in pickup range) and sticks it on
+   */
+  function absorb(direction: THREE.Vector3): Collectible {
+    const position = direction.clone().normalize().multiplyScalar(size + 0.2);
+    const item: Collectible = {
+      mesh: new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.3, 0.3)),
+      body: new CANNON.Body({ mass: 0, shape: new CANNON.Box(new CANNON.Vec3(0.15, 0.15, 0.15)) }),
+      type: 'die',
+      collected: false,
+      radius: 0.25,
+      size: 0.3,
+      volume: 0.027,
+      points: 1,
+    };
+    item.mesh.position.copy(position);
+    collectibles.push(item);
+    stickItem(item, katamariMesh, world, size);
+    size = growKatamari(0.02, size, katamariMesh, katamariBody, byMesh(collectibles));
+    return item;
+  }
+
+  function worldScale(item: Collectible): number {
+    return item.mesh.getWorldScale(new THREE.Vector3()).x;
+  }
+
+  // distance from the item's center to the surface (negative = below it)
+  function surfaceDistance(item: Collectible): number {
+    return item.mesh.getWorldPosition(new THREE.Vector3()).length() - size;
+  }
+
+  it('should keep items their real size and in the surface after many growth steps', () => {
+    const first = absorb(new THREE.Vector3(1, 0.5, 0));
+
+    for (let i = 0; i < 200; i++) {
+      size = growKatamari(0.02, size, katamariMesh, katamariBody, byMesh(collectibles));
+      expect(worldScale(first)).toBeCloseTo(1);
+    }
+    const last = absorb(new THREE.Vector3(0, 1, 0));
+
+    expect(size).toBeCloseTo(5.04);
+    expect(worldScale(first)).toBeCloseTo(1);
+    expect(worldScale(last)).toBeCloseTo(1);
+
+    // still where it was stuck, sunk in by its embed depth plus a little per meter grown
+    const direction = first.mesh.getWorldPosition(new THREE.Vector3()).normalize();
+    expect(direction.angleTo(new THREE.Vector3(1, 0.5, 0))).toBeCloseTo(0);
+    expect(surfaceDistance(first)).toBeCloseTo(-(0.3 * ITEM_EMBED_FRACTION + (size - 1.02) * ITEM_SINK_RATE));
+
+    // the newest item sticks out, the first is buried underneath (layers)
+    expect(surfaceDistance(last)).toBeGreaterThan(-last.size / 2);
+    expect(surfaceDistance(first)).toBeLessThan(-first.size / 2);
+  });
+
+  it('should push items outwards as the ball grows', () => {
+    const item = absorb(new THREE.Vector3(0, 0, 1));
+    const before = item.mesh.getWorldPosition(new THREE.Vector3()).length();
+
+    size = growKatamari(1, size, katamariMesh, katamariBody, byMesh(collectibles));
+
+    const after = item.mesh.getWorldPosition(new THREE.Vector3()).length();
+    expect(after - before).toBeCloseTo(1 - ITEM_SINK_RATE);
+  });
+
+  it('should work out the same anchor from where an item sits (restoring a save)', () => {
+    const item = absorb(new THREE.Vector3(1, 1, 1));
+    size = growKatamari(0.5, size, katamariMesh, katamariBody, byMesh(collectibles));
+    const depth = getStuckItemDepth(item, size);
+    const embedDepth = item.embedDepth;
+
+    item.surfaceDirection = undefined;
+    item.embedDepth = undefined;
+    anchorStuckItem(item, size);
+
+    expect(item.surfaceDirection!.angleTo(new THREE.Vector3(1, 1, 1))).toBeCloseTo(0);
+    expect(item.embedDepth).toBeCloseTo(embedDepth!);
+    expect(getStuckItemDepth(item, size)).toBeCloseTo(depth);
+  });
+});
+
+describe('Lumpy katamari (compound collider)', () => {
+  let katamariMesh: THREE.Mesh;
+  let katamariBody: CANNON.Body;
+  let collectibles: Collectible[];
+
+  /**
+   * an item stuck to the ball at a spot on the unit sphere (mesh coordinates), counter-scaled like stickItem does
+   */
+  function stuckItem(x: number, y: number, z: number, shape: CANNON.Shape = new CANNON.Box(new CANNON.Vec3(0.2, 0.2, 0.2))): Collectible {
+    const mesh = new THREE.Mesh();
+    mesh.position.set(x, y, z);
+    katamariMesh.add(mesh);
+    const item: Collectible = {
+      mesh,
+      body: new CANNON.Body({ mass: 0, shape }),
+      type: 'toy-block',
+      collected: true,
+      radius: 0.4,
+      size: 0.4,
+      volume: 0.064,
+      points: 2,
+      collectedAtSize: 1,
+    };
+    collectibles.push(item);
+    return item;
+  }
+
+  beforeEach(() => {
+    katamariMesh = new THREE.Mesh(new THREE.SphereGeometry(1), new THREE.MeshBasicMaterial());
+    katamariBody = new CANNON.Body({ mass: 1, shape: new CANNON.Sphere(1) });
+    collectibles = [];
+  });
+
+  it('should add items sticking out of the ball as shapes of its body', () => {
+    const item = stuckItem(1.1, 0, 0);
+
+    updateKatamariColliders(katamariBody, katamariMesh, byMesh(collectibles), 1);
+
+    expect(katamariBody.shapes).toHaveLength(2);
+    expect(katamariBody.shapes[1]).toBe(item.colliderShape);
+    expect(katamariBody.shapes[1]).not.toBe(item.body.shapes[0]); // a copy, the item keeps its own
+    expect(katamariBody.shapeOffsets[1]!.x).toBeCloseTo(1.1);
+  });
+
+  it('should leave out items inside the ball', () => {
+    stuckItem(0.5, 0, 0);
+
+    updateKatamariColliders(katamariBody, katamariMesh, byMesh(collectibles), 1);
+
+    expect(katamariBody.shapes).toHaveLength(1);
+  });
+
+  it('should move the shapes with the ball as it grows', () => {
+    stuckItem(0, 1.1, 0);
+
+    growKatamari(0.5, 1, katamariMesh, katamariBody, byMesh(collectibles));
+
+    expect(katamariBody.shapes).toHaveLength(2);
+    expect(katamariBody.shapeOffsets[1]!.y).toBeCloseTo(1.1 * 1.5);
+  });
+
+  it('should prune shapes that end up buried', () => {
+    const item = stuckItem(1.1, 0, 0);
+    growKatamari(0.1, 1, katamariMesh, katamariBody, byMesh(collectibles));
+    expect(katamariBody.shapes).toHaveLength(2);
+
+    item.mesh.position.set(0.6, 0, 0); // sunk into the ball
+    growKatamari(0.1, 1.1, katamariMesh, katamariBody, byMesh(collectibles));
+
+    expect(katamariBody.shapes).toHaveLength(1);
+    expect(item.colliderShape).toBeUndefined();
+  });
+
+  it('should keep only the shapes sticking out furthest', () => {
+    for (let i = 0; i < MAX_KATAMARI_COLLIDER_SHAPES + 5; i++) {
+      const angle = (i / 40) * Math.PI * 2;
+      stuckItem(Math.cos(angle) * (1.1 + i * 0.01), 0, Math.sin(angle) * (1.1 + i * 0.01));
+    }
+    const outermost = collectibles[collectibles.length - 1]!;
+    const innermost = collectibles[0]!;
+
+    updateKatamariColliders(katamariBody, katamariMesh, byMesh(collectibles), 1);
+
+    expect(katamariBody.shapes).toHaveLength(MAX_KATAMARI_COLLIDER_SHAPES + 1);
+    expect(outermost.colliderShape).toBeDefined();
+    expect(innermost.colliderShape).toBeUndefined();
+  });
+
+  it('should not change how the ball spins', () => {
+    const inertia = katamariBody.inertia.clone();
+    katamariBody.quaternion.setFromEuler(0.3, 0.5, 0); // turned: cannon would work out a different inertia
+    const item = stuckItem(1.3, 0, 0);
+
+    updateKatamariColliders(katamariBody, katamariMesh, byMesh(collectibles), 1);
+    expect(katamariBody.inertia).toEqual(inertia);
+
+    removeItemCollider(item);
+    expect(katamariBody.inertia).toEqual(inertia);
+  });
+
+  it('should drop the shape of an item knocked off', () => {
+    const world = new CANNON.World();
+    const scene = new THREE.Scene();
+    scene.add(katamariMesh);
+    const item = stuckItem(1.1, 0, 0);
+    updateKatamariColliders(katamariBody, katamariMesh, byMesh(collectibles), 1);
+
+    detachItem(item, katamariMesh, world, 1);
+
+    expect(katamariBody.shapes).toHaveLength(1);
+    expect(item.colliderShape).toBeUndefined();
+  });
+
+  it('should pick up items touching a lump', () => {
+    stuckItem(1.1, 0, 0, new CANNON.Sphere(0.3));
+    updateKatamariColliders(katamariBody, katamariMesh, byMesh(collectibles), 1);
+    const item: Collectible = {
+      mesh: new THREE.Mesh(),
+      body: new CANNON.Body({ mass: 0, position: new CANNON.Vec3(1.6, 0, 0) }),
+      type: 'die',
+      collected: false,
+      radius: 0.25,
+      size: 0.2,
+      volume: 0.008,
+      points: 1,
+    };
+
+    // out of the ball's reach (1 + 0.25), in the lump's (1.1 + 0.3 + 0.25)
+    expect(isColliding(katamariBody, item, 1)).toBe(true);
+  });
+
+  it('should copy boxes, spheres and cylinders', () => {
+    const box = cloneShape(new CANNON.Box(new CANNON.Vec3(1, 2, 3))) as CANNON.Box;
+    expect(box.halfExtents).toEqual(new CANNON.Vec3(1, 2, 3));
+    expect((cloneShape(new CANNON.Sphere(0.5)) as CANNON.Sphere).radius).toBe(0.5);
+
+    const cylinder = new CANNON.Cylinder(0.5, 0.5, 1, 12);
+    expect(cloneShape(cylinder).boundingSphereRadius).toBeCloseTo(cylinder.boundingSphereRadius);
+  });
+});
+
+describe('Volume-based growth (calculateGrowth)', () => {
+  it('should convert between sphere volume and radius', () => {
+    expect(sphereVolume(1)).toBeCloseTo((4 / 3) * Math.PI);
+    expect(sphereRadius(sphereVolume(2.5))).toBeCloseTo(2.5);
+  });
+
+  it('should add the item volume to the katamari volume', () => {
+    const curve = { volumeScale: 1, sizeFalloff: 0 };
+    const growth = calculateGrowth(1, sphereVolume(1), curve);
+
+    // two unit spheres of volume -> radius cbrt(2)
+    expect(1 + growth).toBeCloseTo(Math.cbrt(2));
+  });
+
+  it('should grow more for bigger items', () => {
+    const small = calculateGrowth(1, 0.1);
+    const big = calculateGrowth(1, 0.5);
+
+    expect(small).toBeGreaterThan(0);
+    expect(big).toBeGreaterThan(small);
+  });
+
+  it('should grow slower as the katamari gets bigger', () => {
+    const atSize1 = calculateGrowth(1, 0.125);
+    const atSize2 = calculateGrowth(2, 0.125);
+    const atSize5 = calculateGrowth(5, 0.125);
+
+    expect(atSize2).toBeLessThan(atSize1);
+    expect(atSize5).toBeLessThan(atSize2);
+  });
+
+  it('should slow growth further with a higher size falloff', () => {
+    const flat = calculateGrowth(3, 0.125, { ...DEFAULT_GROWTH_CURVE, sizeFalloff: 0 });
+    const steep = calculateGrowth(3, 0.125, { ...DEFAULT_GROWTH_CURVE, sizeFalloff: 2 });
+
+    expect(steep).toBeLessThan(flat);
+  });
+
+  it('should scale growth with the volume scale', () => {
+    const slow = calculateGrowth(1, 0.125, { ...DEFAULT_GROWTH_CURVE, volumeScale: 1 });
+    const fast = calculateGrowth(1, 0.125, { ...DEFAULT_GROWTH_CURVE, volumeScale: 8 });
+
+    expect(fast).toBeGreaterThan(slow);
+  });
+
+  it('should not grow when absorbing nothing', () => {
+    expect(calculateGrowth(1, 0)).toBeCloseTo(0);
+  });
+
+  it('should shrink back by exactly the growth given at the same size', () => {
+    const growth = calculateGrowth(2, 0.3);
+
+    expect(calculateShrink(2 + growth, 0.3, 2)).toBeCloseTo(growth, 10);
+  });
+
+  it('should take off the volume added, not the radius, once the ball has grown', () => {
+    // absorbed at size 1, knocked off at size 3: the same volume is a thinner shell on a bigger ball
+    const growth = calculateGrowth(1, 0.3);
+    const shrink = calculateShrink(3, 0.3, 1);
+
+    expect(shrink).toBeLessThan(growth);
+    expect(sphereVolume(3) - sphereVolume(3 - shrink)).toBeCloseTo(sphereVolume(1 + growth) - sphereVolume(1), 10);
+  });
+});
+
+describe('Knocking items off the katamari', () => {
+  let world: CANNON.World;
+  let scene: THREE.Scene;
+  let katamariMesh: THREE.Mesh;
+  let katamariBody: CANNON.Body;
+  let collectibles: Collectible[];
+
+  function makeItem(x: number): Collectible {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(0.5, 0.5, 0.5), new THREE.MeshBasicMaterial());
+    mesh.position.set(x, 1, 0);
+    scene.add(mesh);
+
+    const body = new CANNON.Body({
+      mass: 0,
+      shape: new CANNON.Box(new CANNON.Vec3(0.25, 0.25, 0.25)),
+      position: new CANNON.Vec3(x, 1, 0),
+    });
+    world.addBody(body);
+
+    return { mesh, body, type: 'toy-block', collected: false, radius: 0.4, size: 0.5, volume: 0.125, points: 2 };
+  }
+
+  beforeEach(() => {
+    world = new CANNON.World();
+    scene = new THREE.Scene();
+
+    katamariMesh = new THREE.Mesh(new THREE.SphereGeometry(1), new THREE.MeshBasicMaterial());
+    katamariMesh.position.set(0, 1, 0);
+    scene.add(katamariMesh);
+
+    katamariBody = new CANNON.Body({ mass: 1, shape: new CANNON.Sphere(1) });
+    collectibles = [makeItem(1.2), makeItem(-1.2), makeItem(0.5)];
+  });
+
+  describe('countKnockedOffItems', () => {
+    it('should knock nothing off below the impact threshold', () => {
+      expect(countKnockedOffItems(KNOCK_OFF_IMPACT_SPEED - 0.1)).toBe(0);
+    });
+
+    it('should knock one item off at the threshold', () => {
+      expect(countKnockedOffItems(KNOCK_OFF_IMPACT_SPEED)).toBe(1);
+    });
+
+    it('should knock more items off on harder impacts', () => {
+      expect(countKnockedOffItems(KNOCK_OFF_IMPACT_SPEED + KNOCK_OFF_SPEED_PER_ITEM)).toBe(2);
+    });
+
+    it('should never knock off more than the maximum', () => {
+      expect(countKnockedOffItems(1000)).toBe(MAX_KNOCK_OFF_ITEMS);
+    });
+  });
+
+  describe('isKnockOffImpact', () => {
+    it('should count hard sideways hits', () => {
+      expect(isKnockOffImpact(KNOCK_OFF_IMPACT_SPEED, new CANNON.Vec3(1, 0, 0))).toBe(true);
+    });
+
+    it('should ignore landing on the ground', () => {
+      expect(isKnockOffImpact(20, new CANNON.Vec3(0, -1, 0))).toBe(false);
+    });
+
+    it('should ignore soft hits', () => {
+      expect(isKnockOffImpact(1, new CANNON.Vec3(1, 0, 0))).toBe(false);
+    });
+  });
+
+  describe('findRecentlyCollected', () => {
+    it('should return collected items newest first', () => {
+      collectibles.forEach((item) => stickItem(item, katamariMesh, world, 1));
+
+      const recent = findRecentlyCollected(katamariMesh, byMesh(collectibles), 2);
+
+      expect(recent).toEqual([collectibles[2], collectibles[1]]);
+    });
+
+    it('should return fewer items when not enough are stuck', () => {
+      stickItem(collectibles[0]!, katamariMesh, world, 1);
+
+      expect(findRecentlyCollected(katamariMesh, byMesh(collectibles), 3)).toEqual([collectibles[0]]);
+    });
+  });
+
+  describe('detachItem', () => {
+    let item: Collectible;
+
+    beforeEach(() => {
+      item = collectibles[0]!;
+      stickItem(item, katamariMesh, world, 1);
+    });
+
+    it('should mark the item as uncollected with a pickup cooldown', () => {
+      detachItem(item, katamariMesh, world, 1);
+
+      expect(item.collected).toBe(false);
+      expect(item.collectedAtSize).toBeUndefined();
+      expect(item.pickupCooldown).toBe(PICKUP_COOLDOWN);
+    });
+
+    it('should move the mesh back into the scene at the same world position', () => {
+      const before = new THREE.Vector3();
+      item.mesh.getWorldPosition(before);
+
+      detachItem(item, katamariMesh, world, 1);
+
+      expect(item.mesh.parent).toBe(scene);
+      expect(item.mesh.position.x).toBeCloseTo(before.x);
+      expect(item.mesh.position.y).toBeCloseTo(before.y);
+      expect(item.mesh.position.z).toBeCloseTo(before.z);
+    });
+
+    it('should restore the visual scale of counter-scaled items', () => {
+      katamariMesh.scale.setScalar(2);
+      item.mesh.scale.setScalar(0.5);
+
+      detachItem(item, katamariMesh, world, 1);
+
+      expect(item.mesh.scale.x).toBeCloseTo(1);
+    });
+
+    it('should put a dynamic body back into the world', () => {
+      detachItem(item, katamariMesh, world, 1);
+
+      expect(world.bodies).toContain(item.body);
+      expect(item.body.type).toBe(CANNON.Body.DYNAMIC);
+      expect(item.body.mass).toBeGreaterThan(0);
+      expect(item.body.position.x).toBeCloseTo(item.mesh.position.x);
+    });
+
+    it('should scatter the item away from the katamari', () => {
+      detachItem(item, katamariMesh, world, 1);
+
+      // item sits on the +X side of the ball
+      expect(item.body.velocity.x).toBeGreaterThan(0);
+      expect(item.body.velocity.y).toBeGreaterThan(0);
+    });
+
+    it('should return the growth to undo', () => {
+      const growth = calculateGrowth(1, item.volume);
+
+      expect(detachItem(item, katamariMesh, world, 1 + growth)).toBeCloseTo(growth);
+    });
+
+    it('should shrink the katamari back when combined with growKatamari', () => {
+      const size = growKatamari(calculateGrowth(1, item.volume), 1, katamariMesh, katamariBody, byMesh(collectibles));
+      const shrink = detachItem(item, katamariMesh, world, size);
+      const newSize = growKatamari(-shrink, size, katamariMesh, katamariBody, byMesh(collectibles));
+
+      expect(newSize).toBeCloseTo(1);
+      expect((katamariBody.shapes[0] as CANNON.Sphere).radius).toBeCloseTo(1);
+    });
+
+    it('should only take off the volume of the knocked-off item', () => {
+      // A is absorbed at size 1, B at the size A grew the ball to
+      const b = collectibles[1]!;
+      let size = growKatamari(calculateGrowth(1, item.volume), 1, katamariMesh, katamariBody, byMesh(collectibles));
+      stickItem(b, katamariMesh, world, size);
+      const volumeAddedByB = sphereVolume(size + calculateGrowth(size, b.volume)) - sphereVolume(size);
+      size = growKatamari(calculateGrowth(size, b.volume), size, katamariMesh, katamariBody, byMesh(collectibles));
+
+      // knocking A off leaves the starting volume plus what B added
+      const shrink = detachItem(item, katamariMesh, world, size);
+      size = growKatamari(-shrink, size, katamariMesh, katamariBody, byMesh(collectibles));
+
+      expect(size).toBeCloseTo(sphereRadius(sphereVolume(1) + volumeAddedByB), 10);
+    });
+  });
+
+  describe('syncItemToBody', () => {
+    it('should move the mesh to the physics body', () => {
+      const item = collectibles[0]!;
+      item.body.position.set(3, 0.5, -2);
+      item.body.quaternion.setFromEuler(0, Math.PI / 2, 0);
+
+      syncItemToBody(item);
+
+      expect(item.mesh.position.x).toBe(3);
+      expect(item.mesh.position.y).toBe(0.5);
+      expect(item.mesh.position.z).toBe(-2);
+      expect(item.mesh.quaternion.y).toBeCloseTo(item.body.quaternion.y);
+      expect(item.mesh.quaternion.w).toBeCloseTo(item.body.quaternion.w);
+    });
+  });
+
+  describe('tickPickupCooldowns', () => {
+    it('should count cooldowns down to zero', () => {
+      collectibles[0]!.pickupCooldown = 0.5;
+
+      tickPickupCooldowns(collectibles, 0.2);
+      expect(collectibles[0]!.pickupCooldown).toBeCloseTo(0.3);
+
+      tickPickupCooldowns(collectibles, 1);
+      expect(collectibles[0]!.pickupCooldown).toBe(0);
+    });
+  });
+});
@@ -1,10 +1,42 @@
 import * as CANNON from 'cannon-es';
 import * as THREE from 'three';
+import type { BehaviorDefinition } from './itemCatalog';
 
 // game constants
 export const MOVE_FORCE = 15;
 export const MAX_VELOCITY = 10;
 export const MAX_ANGULAR_VELOCITY = 5;
+// items must be smaller than this fraction of the katamari's size to stick
+export const ABSORB_SIZE_FRACTION = 0.9;
+// knock-off tuning: hard impacts shake recently collected items loose
+export const KNOCK_OFF_IMPACT_SPEED = 5; // impact speed (m/s) needed to lose an item (top rolling speed is ~6)
+export const KNOCK_OFF_SPEED_PER_ITEM = 3; // every extra 3 m/s of impact loses one more item
+export const MAX_KNOCK_OFF_ITEMS = 5;
+export const KNOCK_OFF_SCATTER_SPEED = 4; // how fast loose items fly away from the ball
+export const PICKUP_COOLDOWN = 1; // seconds before a knocked-off item can be picked up again
+export const ITEM_DENSITY = 2; // kg per cubic meter, gives loose items some weight
+// lumpy katamari: stuck items that stick out of the ball collide as part of it
+export const MIN_COLLIDER_PROTRUSION = 0.05; // fraction of the katamari size an item must stick out by to count
+export const MAX_KATAMARI_COLLIDER_SHAPES = 32; // most item shapes the katamari body carries (the flattest go first)
+// stuck items sit in the ball's surface: partly sunk in, sinking further as the ball grows (older items form layers)
+export const ITEM_EMBED_FRACTION = 0.3; // a freshly stuck item's center sits this fraction of its size below the surface
+export const ITEM_SINK_RATE = 0.15; // how far stuck items sink per meter the katamari grows (the surface moves out faster)
+
+/**
+ * Tuning knobs for how absorbed volume turns into katamari growth.
+ * - volumeScale: multiplier on the absorbed item's volume (bigger = faster growth)
+ * - sizeFalloff: exponent on the katamari size that divides the absorbed volume
+ *   (0 = plain volume addition, higher = growth slows down faster as the ball gets bigger)
+ */
+export interface GrowthCurve {
+  volumeScale: number;
+  sizeFalloff: number;
+}
+
+export const DEFAULT_GROWTH_CURVE: GrowthCurve = {
+  volumeScale: 4,
+  sizeFalloff: 0.5,
+};
 
 export interface KeyState {
   w: boolean;
@@ -13,29 +45,84 @@ export interface KeyState {
   d: boolean;
 }
 
+/**
+ * Where the player wants to roll, from any input device (see src/input.ts).
+ * x = right (+) / left (-), y = forward (+) / back (-), length between 0 and 1.
+ * Relative to the camera (see ViewState), not the world.
+ */
+export interface InputVector {
+  x: number;
+  y: number;
+}
+
+/**
+ * Where the player is looking from. Movement input is turned by the heading.
+ */
+export interface ViewState {
+  heading: number; // camera yaw in radians (0 = looking down -z, positive = turned left)
+}
+
+/**
+ * Where an uncollected item is drawn inside its kind's InstancedMesh.
+ */
+export interface InstanceSlot {
+  index: number;
+  update(object: THREE.Object3D): void; // draw the instance at the object's transform (items that move on their own)
+  release(): void; // stop drawing the instance and free the slot for reuse
+}
+
+/**
+ * Where an item that moves on its own is going (see src/simulation/behaviors.ts).
+ * Plain data apart from the definition, so it can be saved with a run.
+ */
+export interface BehaviorState {
+  definition: BehaviorDefinition; // from the item's catalog entry
+  home: { x: number; z: number }; // where it spawned (wander center, patrol path origin)
+  target: { x: number; z: number }; // where it's heading (wander, patrol)
+  waypoint: number; // patrol: index of the path point it's heading to
+  timer: number; // wander: seconds left resting (> 0) or to reach the target before giving up (< 0)
+  seed: number; // wander: where the next random spot comes from (seeded -> replays move the same)
+}
+
 export interface Collectible {
-  mesh: THREE.Mesh;
+  mesh: THREE.Mesh; // standalone mesh, only in the scene once the item is collected (or knocked loose)
   body: CANNON.Body;
+  type: string; // id of the item definition in the catalog
   collected: boolean;
-  radius: number;
+  radius: number; // pickup radius (forgiving touch range, not the visual size)
+  size: number; // largest dimension of the item in meters (decides whether it can be absorbed)
+  volume: number; // volume of the item in cubic meters (decides how much the katamari grows)
+  points: number; // score for absorbing it
   collectedAtSize?: number;
+  surfaceDirection?: THREE.Vector3; // where on the ball the item is stuck (unit vector in the katamari's local frame)
+  embedDepth?: number; // how deep the item's center sat below the surface when it stuck (m, it sinks further as the ball grows)
+  pickupCooldown?: number; // seconds left before the item can be picked up again
+  instanceSlot?: InstanceSlot; // set while the item is drawn instanced (uncollected, never touched)
+  colliderShape?: CANNON.Shape; // copy of the item's shape on the katamari body (set while it sticks out of the ball)
+  behavior?: BehaviorState; // moves about on its own (until it's absorbed)
 }
 
 /**
- * Applies movement force to the katamari body based on keyboard input.
+ * Applies movement force to the katamari body based on the player's input vector.
+ * - Input is relative to the camera: forward pushes the way the camera looks
+ * - Force scales with the stick magnitude (full force at length 1)
  * Returns the force vector that was applied.
+ *
+ * @param heading - camera yaw in radians (0 = looking down -z, positive = turned left)
  */
 export function applyInputForce(
-  keys: KeyState,
+  input: InputVector,
   katamariBody: CANNON.Body,
+  heading: number = 0,
   moveForce: number = MOVE_FORCE
 ): CANNON.Vec3 {
   const force = new CANNON.Vec3(0, 0, 0);
 
-  if (keys.w) force.z -= moveForce;
-  if (keys.s) force.z += moveForce;
-  if (keys.a) force.x -= moveForce;
-  if (keys.d) force.x += moveForce;
+  // camera's right = (cos, 0, -sin), forward = (-sin, 0, -cos)
+  const sin = Math.sin(heading);
+  const cos = Math.cos(heading);
+  force.x += (input.x * cos - input.y * sin) * moveForce;
+  force.z -= (input.x * sin + input.y * cos) * moveForce;
 
   katamariBody.applyForce(force, katamariBody.position);
   return force;
@@ -77,7 +164,8 @@ export function capAngularVelocity(
 
 /**
  * Checks if the katamari is colliding with a collectible.
- * Returns true if they are touching (distance < sum of radii).
+ * Returns true if they are touching (distance < sum of radii), the ball itself
+ * or any item sticking out of it (see updateKatamariColliders).
  */
 export function isColliding(
   katamariBody: CANNON.Body,
@@ -85,19 +173,49 @@ export function isColliding(
   katamariSize: number
 ): boolean {
   const dist = katamariBody.position.distanceTo(collectible.body.position);
-  return dist < katamariSize + collectible.radius;
+  if (dist < katamariSize + collectible.radius) return true;
+
+  // lumps pick things up too (shapes[0] is the ball)
+  for (let i = 1; i < katamariBody.shapes.length; i++) {
+    katamariBody.pointToWorldFrame(katamariBody.shapeOffsets[i]!, lumpCenter);
+    if (lumpCenter.distanceTo(collectible.body.position) < katamariBody.shapes[i]!.boundingSphereRadius + collectible.radius) {
+      return true;
+    }
+  }
+  return false;
 }
 
+const lumpCenter = new CANNON.Vec3(); // scratch vector (isColliding runs for every nearby item every step)
+
 /**
- * Finds all collectibles that the katamari is currently colliding with.
+ * Checks if a collectible is small enough for the katamari to absorb.
+ * Returns true if the item's size is below the given fraction of the katamari size.
+ * Items that are too big stay in the world as solid obstacles.
+ */
+export function canAbsorb(
+  collectible: Collectible,
+  katamariSize: number,
+  absorbFraction: number = ABSORB_SIZE_FRACTION
+): boolean {
+  return collectible.size < katamariSize * absorbFraction;
+}
+
+/**
+ * Finds all collectibles that the katamari is currently colliding with
+ * and is big enough to absorb.
  */
 export function findCollidingCollectibles(
   katamariBody: CANNON.Body,
   collectibles: Collectible[],
-  katamariSize: number
+  katamariSize: number,
+  absorbFraction: number = ABSORB_SIZE_FRACTION
 ): Collectible[] {
   return collectibles.filter(
-    (item) => !item.collected && isColliding(katamariBody, item, katamariSize)
+    (item) =>
+      !item.collected &&
+      !item.pickupCooldown &&
+      canAbsorb(item, katamariSize, absorbFraction) &&
+      isColliding(katamariBody, item, katamariSize)
   );
 }
 
@@ -105,8 +223,10 @@ export function findCollidingCollectibles(
  * Sticks an item to the katamari mesh.
  * - Marks the item as collected
  * - Removes the physics body from the world
- * - Reparents the mesh to the katamari mesh
+ * - Promotes it from its instance slot to a standalone mesh on the katamari
  * - Records the size at which it was collected
+ * - Anchors it in the surface, on the side it touched the ball, partly sunk in
+ * - Switches off its behavior for good (knocked off again, it just tumbles like any other item)
  */
 export function stickItem(
   item: Collectible,
@@ -119,6 +239,13 @@ export function stickItem(
   // remove physics from world so it doesn't bump again
   world.removeBody(item.body);
 
+  // no more running about
+  stopBehavior(item);
+
+  // stop drawing it instanced, the standalone mesh takes over
+  item.instanceSlot?.release();
+  item.instanceSlot = undefined;
+
   // "stick" it (reparent mesh to katamari mesh)
   // keep position same during the transition
   const worldPos = new THREE.Vector3();
@@ -128,40 +255,136 @@ export function stickItem(
   katamariMesh.add(item.mesh);
 
   // convert world position to local position (relative to ball)
-  item.mesh.position.copy(katamariMesh.worldToLocal(worldPos));
+  const localPos = katamariMesh.worldToLocal(worldPos);
 
-  // store the CURRENT size when item was collected (baseline for counter-scaling)
+  // store the CURRENT size when item was collected (baseline for sinking)
   item.collectedAtSize = katamariSize;
+
+  // anchor it where it touched the ball (touching happens in pickup range, a little off the surface)
+  item.surfaceDirection = localPos.lengthSq() > 0 ? localPos.normalize() : new THREE.Vector3(0, 1, 0);
+  item.embedDepth = item.size * ITEM_EMBED_FRACTION;
+  placeStuckItem(item, katamariSize);
+}
+
+/**
+ * Returns how deep a stuck item's center is below the katamari's surface right now (m).
+ * It starts at its embed depth and sinks a little for every meter the ball grew since.
+ */
+export function getStuckItemDepth(
+  item: Collectible,
+  katamariSize: number,
+  sinkRate: number = ITEM_SINK_RATE
+): number {
+  const grownSince = Math.max(0, katamariSize - (item.collectedAtSize ?? katamariSize));
+  return (item.embedDepth ?? 0) + grownSince * sinkRate;
+}
+
+/**
+ * Puts a stuck item at its anchor for the katamari's size: along its surface direction, its depth below the surface,
+ * counter-scaled so it stays its real size however big the ball (the item's parent) gets.
+ */
+export function placeStuckItem(item: Collectible, katamariSize: number): void {
+  if (!item.surfaceDirection) return;
+
+  const distance = Math.max(0, katamariSize - getStuckItemDepth(item, katamariSize)); // from the ball's center (m)
+  item.mesh.position.copy(item.surfaceDirection).multiplyScalar(distance / katamariSize); // mesh units (scaled by size)
+  item.mesh.scale.setScalar(1 / katamariSize);
+}
+
+/**
+ * Works out a stuck item's anchor from where its mesh sits on the katamari (e.g. restored from a save).
+ * The embed depth is what it would have been when the item stuck, so it keeps sinking at the same pace.
+ */
+export function anchorStuckItem(item: Collectible, katamariSize: number): void {
+  const localPos = item.mesh.position;
+  item.surfaceDirection = localPos.lengthSq() > 0 ? localPos.clone().normalize() : new THREE.Vector3(0, 1, 0);
+
+  const depth = katamariSize - localPos.length() * katamariSize;
+  const grownSince = Math.max(0, katamariSize - (item.collectedAtSize ?? katamariSize));
+  item.embedDepth = depth - grownSince * ITEM_SINK_RATE;
+}
+
+/**
+ * Returns the volume of a sphere with the given radius.
+ */
+export function sphereVolume(radius: number): number {
+  return (4 / 3) * Math.PI * radius ** 3;
+}
+
+/**
+ * Returns the radius of a sphere with the given volume.
+ */
+export function sphereRadius(volume: number): number {
+  return Math.cbrt((3 * volume) / (4 * Math.PI));
+}
+
+/**
+ * Calculates how much the katamari radius grows when absorbing an item.
+ * The item's volume (scaled by the growth curve) is added to the katamari's
+ * volume and the new radius is computed from the total.
+ *
+ * Returns the growth amount (new radius - current radius), ready for growKatamari.
+ */
+export function calculateGrowth(
+  currentSize: number,
+  itemVolume: number,
+  curve: GrowthCurve = DEFAULT_GROWTH_CURVE
+): number {
+  const addedVolume = (itemVolume * curve.volumeScale) / currentSize ** curve.sizeFalloff;
+  const newSize = sphereRadius(sphereVolume(currentSize) + addedVolume);
+  return newSize - currentSize;
+}
+
+/**
+ * Calculates how much the katamari radius shrinks when an item comes off (inverse of calculateGrowth).
+ * The volume the item added when it was absorbed (at collectedAtSize) is taken off the katamari's
+ * current volume, so knocking items off in any order leaves exactly the volume of the ones still on.
+ *
+ * Returns the shrink amount (current radius - new radius), ready for growKatamari (negated).
+ */
+export function calculateShrink(
+  currentSize: number,
+  itemVolume: number,
+  collectedAtSize: number,
+  curve: GrowthCurve = DEFAULT_GROWTH_CURVE
+): number {
+  const addedVolume = (itemVolume * curve.volumeScale) / collectedAtSize ** curve.sizeFalloff;
+  const newSize = sphereRadius(Math.max(0, sphereVolume(currentSize) - addedVolume));
+  return currentSize - newSize;
 }
 
 /**
  * Grows the katamari by the specified amount.
  * Updates:
  * - Visual scale of the katamari mesh
- * - Counter-scales all collected items so they stay the same visual size
+ * - Moves collected items out with the surface (sinking a little), counter-scaled so they stay the same visual size
  * - Updates the physics shape radius
  *
  * Returns the new size.
+ *
+ * @param itemsByMesh - every item by its mesh (finds the items behind the katamari's children)
  */
 export function growKatamari(
   amount: number,
   currentSize: number,
   katamariMesh: THREE.Mesh,
   katamariBody: CANNON.Body,
-  collectibles: Collectible[]
+  itemsByMesh: ReadonlyMap<THREE.Object3D, Collectible>
 ): number {
   const newSize = currentSize + amount;
 
   // update visual size
   katamariMesh.scale.set(newSize, newSize, newSize);
 
-  // counter-scale all collected items so they stay the same visual size
+  // keep all collected items on the surface, at the same visual size
   katamariMesh.children.forEach((child) => {
     // find corresponding collectible data
-    const collectibleData = collectibles.find((col) => col.mesh === child);
+    const collectibleData = itemsByMesh.get(child);
 
-    if (collectibleData && collectibleData.collectedAtSize) {
-      // calculate scale relative to size at collection
+    if (collectibleData?.surfaceDirection) {
+      placeStuckItem(collectibleData, newSize);
+    } else if (collectibleData && collectibleData.collectedAtSize) {
+      // not anchored: only counter-scale it
       // e.g. if collected at 1.0 and katamari is now 1.5, scale should be 1/1.5 == 0.667
       const targetScale = 1 / newSize;
       child.scale.setScalar(targetScale);
@@ -172,5 +395,267 @@ export function growKatamari(
   (katamariBody.shapes[0] as CANNON.Sphere).radius = newSize;
   katamariBody.updateBoundingRadius();
 
+  // stuck items moved with the ball: some stick out further, some are buried now
+  updateKatamariColliders(katamariBody, katamariMesh, itemsByMesh, newSize);
+
   return newSize;
 }
+
+/**
+ * Makes the katamari body lumpy: items stuck to it that stick out past the sphere collide as part of it.
+ * - Each such item gets a copy of its shape on the katamari body, where the item is on the ball
+ * - Items that end up (nearly) inside the sphere lose theirs again, so the body doesn't keep growing
+ * - At most `maxShapes` item shapes, the ones sticking out furthest
+ * shapes[0] stays the katamari's sphere. Only the katamari's children are looked at
+ * (items that come off lose their shape in detachItem).
+ *
+ * @param itemsByMesh - every item by its mesh (finds the items behind the katamari's children)
+ */
+export function updateKatamariColliders(
+  katamariBody: CANNON.Body,
+  katamariMesh: THREE.Object3D,
+  itemsByMesh: ReadonlyMap<THREE.Object3D, Collectible>,
+  katamariSize: number,
+  minProtrusion: number = MIN_COLLIDER_PROTRUSION,
+  maxShapes: number = MAX_KATAMARI_COLLIDER_SHAPES
+): void {
+  const inertia = katamariBody.inertia.clone();
+  const lumps: { item: Collectible; protrusion: number; offset: CANNON.Vec3; orientation: CANNON.Quaternion }[] = [];
+
+  katamariMesh.children.forEach((child) => {
+    const item = itemsByMesh.get(child);
+    if (!item) return;
+    const shape = item.body.shapes[0];
+    if (!item.collected || !shape) {
+      removeItemCollider(item);
+      return;
+    }
+
+    // where the item sits on the ball, in the katamari body's frame
+    // (mesh position is in the scaled mesh's units, the item itself is counter-scaled to its real size)
+    const { position, quaternion } = item.mesh;
+    const orientation = new CANNON.Quaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    const offset = orientation.vmult(item.body.shapeOffsets[0] ?? new CANNON.Vec3());
+    offset.vadd(new CANNON.Vec3(position.x * katamariSize, position.y * katamariSize, position.z * katamariSize), offset);
+
+    const protrusion = offset.length() + shape.boundingSphereRadius - katamariSize;
+    if (protrusion < katamariSize * minProtrusion) {
+      removeItemCollider(item);
+      return;
+    }
+    lumps.push({ item, protrusion, offset, orientation });
+  });
+
+  lumps.sort((a, b) => b.protrusion - a.protrusion);
+  lumps.forEach(({ item, offset, orientation }, i) => {
+    if (i >= maxShapes) {
+      removeItemCollider(item);
+      return;
+    }
+
+    if (!item.colliderShape) {
+      item.colliderShape = cloneShape(item.body.shapes[0]!);
+      katamariBody.addShape(item.colliderShape, offset, orientation);
+      return;
+    }
+    const index = katamariBody.shapes.indexOf(item.colliderShape);
+    katamariBody.shapeOffsets[index]!.copy(offset);
+    katamariBody.shapeOrientations[index]!.copy(orientation);
+  });
+
+  katamariBody.updateBoundingRadius();
+  katamariBody.aabbNeedsUpdate = true;
+  setInertia(katamariBody, inertia);
+}
+
+/**
+ * Switches an item's behavior off for good: it's a plain item from now on
+ * (tumbles instead of staying upright, grips the ground instead of gliding over it).
+ */
+export function stopBehavior(item: Collectible): void {
+  if (!item.behavior) return;
+  item.behavior = undefined;
+  item.body.fixedRotation = false;
+  item.body.material = null;
+  item.body.updateMassProperties();
+}
+
+/**
+ * Takes an item's shape off the katamari body (knocked off, buried, cleared).
+ */
+export function removeItemCollider(item: Collectible): void {
+  const shape = item.colliderShape;
+  if (!shape) return;
+  item.colliderShape = undefined;
+
+  const body = shape.body;
+  if (!body) return;
+  const inertia = body.inertia.clone();
+  body.removeShape(shape);
+  setInertia(body, inertia);
+}
+
+/**
+ * Puts a body's inertia back after adding or removing shapes.
+ * Lumps change how the katamari collides, not how it spins: cannon would work the inertia out
+ * from the world-aligned bounding box, which depends on how the ball happens to be turned
+ * (a resumed save or a replay would spin differently from the original run).
+ */
+function setInertia(body: CANNON.Body, inertia: CANNON.Vec3): void {
+  body.inertia.copy(inertia);
+  body.invInertia.set(
+    inertia.x > 0 ? 1 / inertia.x : 0,
+    inertia.y > 0 ? 1 / inertia.y : 0,
+    inertia.z > 0 ? 1 / inertia.z : 0
+  );
+  body.updateInertiaWorld(true);
+}
+
+/**
+ * Copies a collider shape (a shape belongs to one body, the item keeps its own for when it's knocked off).
+ * Cylinders are convex polyhedra in cannon-es, so they're copied as those.
+ */
+export function cloneShape(shape: CANNON.Shape): CANNON.Shape {
+  if (shape instanceof CANNON.Sphere) return new CANNON.Sphere(shape.radius);
+  if (shape instanceof CANNON.Box) return new CANNON.Box(shape.halfExtents.clone());
+  if (shape instanceof CANNON.ConvexPolyhedron) {
+    return new CANNON.ConvexPolyhedron({
+      vertices: shape.vertices.map((v) => v.clone()),
+      faces: shape.faces.map((face) => [...face]),
+    });
+  }
+  throw new Error(`Can't copy a ${shape.constructor.name} collider`);
+}
+
+/**
+ * Counts how many items a hit knocks off the katamari.
+ * Impacts below the threshold knock nothing off, harder impacts knock off more.
+ */
+export function countKnockedOffItems(
+  impactSpeed: number,
+  threshold: number = KNOCK_OFF_IMPACT_SPEED,
+  speedPerItem: number = KNOCK_OFF_SPEED_PER_ITEM,
+  maxItems: number = MAX_KNOCK_OFF_ITEMS
+): number {
+  if (impactSpeed < threshold) return 0;
+  const count = 1 + Math.floor((impactSpeed - threshold) / speedPerItem);
+  return Math.min(count, maxItems);
+}
+
+/**
+ * Checks if a contact counts as a hard hit against an obstacle.
+ * Mostly-vertical contacts (landing on the ground) never count.
+ */
+export function isKnockOffImpact(
+  impactSpeed: number,
+  contactNormal: CANNON.Vec3,
+  threshold: number = KNOCK_OFF_IMPACT_SPEED
+): boolean {
+  return impactSpeed >= threshold && Math.abs(contactNormal.y) < 0.7;
+}
+
+/**
+ * Finds the most recently collected items still stuck to the katamari.
+ * Items are attached in collection order, so the newest ones are the last children.
+ * Returns up to `count` items, newest first.
+ */
+export function findRecentlyCollected(
+  katamariMesh: THREE.Mesh,
+  itemsByMesh: ReadonlyMap<THREE.Object3D, Collectible>,
+  count: number
+): Collectible[] {
+  const recent: Collectible[] = [];
+
+  for (let i = katamariMesh.children.length - 1; i >= 0 && recent.length < count; i--) {
+    const item = itemsByMesh.get(katamariMesh.children[i]!);
+    if (item?.collected) recent.push(item);
+  }
+
+  return recent;
+}
+
+/**
+ * Knocks an item off the katamari (reverse of stickItem).
+ * - Reparents the mesh back to the katamari's parent, keeping its world transform
+ * - Puts a dynamic physics body back in the world at the same transform
+ * - Scatters it away from the ball
+ * - Marks it uncollected with a short pickup cooldown
+ *
+ * Returns how much the katamari should shrink (the volume it added when absorbed, see calculateShrink).
+ *
+ * @param katamariSize - current katamari radius
+ */
+export function detachItem(
+  item: Collectible,
+  katamariMesh: THREE.Mesh,
+  world: CANNON.World,
+  katamariSize: number,
+  scatterSpeed: number = KNOCK_OFF_SCATTER_SPEED
+): number {
+  // back to the world (attach keeps the world transform, and undoes the counter-scaling)
+  katamariMesh.parent?.attach(item.mesh);
+  item.mesh.scale.setScalar(1); // loose items are their real size (attach leaves rounding errors)
+  removeItemCollider(item); // no longer part of the ball's shape
+
+  // physics body follows the mesh, now as a dynamic body so it can tumble around
+  const body = item.body;
+  body.type = CANNON.Body.DYNAMIC;
+  body.mass = getItemMass(item);
+  body.updateMassProperties();
+  body.position.set(item.mesh.position.x, item.mesh.position.y, item.mesh.position.z);
+  body.quaternion.set(
+    item.mesh.quaternion.x,
+    item.mesh.quaternion.y,
+    item.mesh.quaternion.z,
+    item.mesh.quaternion.w
+  );
+
+  // scatter outwards from the ball's center (with a little hop)
+  const direction = item.mesh.position.clone().sub(katamariMesh.position);
+  direction.y = Math.max(direction.y, 0);
+  if (direction.lengthSq() === 0) direction.set(0, 1, 0);
+  direction.normalize();
+  body.velocity.set(direction.x * scatterSpeed, direction.y * scatterSpeed + scatterSpeed * 0.5, direction.z * scatterSpeed);
+  body.angularVelocity.set(0, 0, 0);
+  world.addBody(body);
+
+  const shrinkAmount = calculateShrink(katamariSize, item.volume, item.collectedAtSize ?? katamariSize);
+
+  item.collected = false;
+  item.collectedAtSize = undefined;
+  item.surfaceDirection = undefined;
+  item.embedDepth = undefined;
+  item.pickupCooldown = PICKUP_COOLDOWN;
+
+  return shrinkAmount;
+}
+
+/**
+ * Returns how heavy an item is once it's loose in the world (at least 0.1 kg, so tiny items still tumble).
+ */
+export function getItemMass(item: Collectible): number {
+  return Math.max(0.1, item.volume * ITEM_DENSITY);
+}
+
+/**
+ * Moves an item's mesh to where its physics body is (loose items tumbling around the world,
+ * items moving on their own), and its instance too if it's drawn instanced.
+ */
+export function syncItemToBody(item: Collectible): void {
+  item.mesh.position.copy(item.body.position);
+  item.mesh.quaternion.copy(item.body.quaternion);
+  item.instanceSlot?.update(item.mesh);
+}
+
+/**
+ * Counts down pickup cooldowns on knocked-off items.
+ *
+ * @param items - items that may be cooling down (knocked-off items are dynamic, so the index's moving items will do)
+ */
+export function tickPickupCooldowns(items: Iterable<Collectible>, dt: number): void {
+  for (const item of items) {
+    if (item.pickupCooldown) {
+      item.pickupCooldown = Math.max(0, item.pickupCooldown - dt);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createGameState,
+  restoreGameState,
+  nextPhase,
+  dispatchGameEvent,
+  tickGameState,
+  getTimeLeft,
+  formatTime,
+  COUNTDOWN_SECONDS,
+} from './gameState';
+import type { GameState, GamePhase, GameEvent } from './gameState';
+
+const level = { timeLimit: 60, goalSize: 2 };
+
+function inPhase(phase: GamePhase, overrides: Partial<GameState> = {}): GameState {
+  return { ...createGameState(level), phase, ...overrides };
+}
+
+describe('Game state transitions', () => {
+  it('should start on the title screen', () => {
+    const state = createGameState(level);
+
+    expect(state.phase).toBe('title');
+    expect(state.countdown).toBe(COUNTDOWN_SECONDS);
+    expect(state.elapsed).toBe(0);
+    expect(state.timeLimit).toBe(60);
+    expect(state.goalSize).toBe(2);
+  });
+
+  it.each<[GamePhase, GameEvent, GamePhase | null]>([
+    ['title', 'start', 'countdown'],
+    ['title', 'pause', null],
+    ['title', 'quit', null],
+    ['countdown', 'pause', null],
+    ['countdown', 'quit', 'title'],
+    ['playing', 'pause', 'paused'],
+    ['playing', 'resume', null],
+    ['playing', 'restart', null],
+    ['paused', 'resume', 'playing'],
+    ['paused', 'restart', 'countdown'],
+    ['paused', 'quit', 'title'],
+    ['results', 'restart', 'countdown'],
+    ['results', 'pause', null],
+    ['gameOver', 'restart', 'countdown'],
+    ['gameOver', 'quit', 'title'],
+    ['title', 'watch', 'replay'],
+    ['results', 'watch', 'replay'],
+    ['playing', 'watch', null],
+    ['replay', 'pause', null],
+    ['replay', 'quit', 'title'],
+  ])('%s + %s -> %s', (phase, event, expected) => {
+    expect(nextPhase(phase, event)).toBe(expected);
+  });
+
+  it('should ignore events that do not fit the phase', () => {
+    const state = inPhase('title');
+
+    expect(dispatchGameEvent(state, 'resume')).toBe(state);
+  });
+
+  it('should keep the clock when pausing and resuming', () => {
+    let state = inPhase('playing', { elapsed: 12 });
+
+    state = dispatchGameEvent(state, 'pause');
+    expect(state.phase).toBe('paused');
+    expect(state.elapsed).toBe(12);
+
+    state = dispatchGameEvent(state, 'resume');
+    expect(state.phase).toBe('playing');
+    expect(state.elapsed).toBe(12);
+  });
+
+  it('should reset the clock and countdown on restart', () => {
+    const state = dispatchGameEvent(inPhase('gameOver', { elapsed: 60, countdown: 0 }), 'restart');
+
+    expect(state.phase).toBe('countdown');
+    expect(state.elapsed).toBe(0);
+    expect(state.countdown).toBe(COUNTDOWN_SECONDS);
+  });
+
+  it('should carry on a saved run paused, with the clock where it was left', () => {
+    const state = restoreGameState(level, 42);
+
+    expect(state.phase).toBe('paused');
+    expect(state.elapsed).toBe(42);
+    expect(dispatchGameEvent(state, 'resume').phase).toBe('playing');
+    expect(restoreGameState(level, 999).elapsed).toBe(60);
+  });
+});
+
+describe('Game state timers (tickGameState)', () => {
+  let state: GameState;
+
+  beforeEach(() => {
+    state = dispatchGameEvent(createGameState(level), 'start');
+  });
+
+  it('should count down and then start playing', () => {
+    state = tickGameState(state, 1, 1);
+    expect(state.phase).toBe('countdown');
+    expect(state.countdown).toBeCloseTo(COUNTDOWN_SECONDS - 1);
+
+    state = tickGameState(state, COUNTDOWN_SECONDS, 1);
+    expect(state.phase).toBe('playing');
+    expect(state.countdown).toBe(0);
+  });
+
+  it('should not run the clock during the countdown', () => {
+    state = tickGameState(state, 1, 1);
+
+    expect(state.elapsed).toBe(0);
+  });
+
+  it('should run the clock while playing', () => {
+    state = tickGameState(inPhase('playing'), 1.5, 1);
+
+    expect(state.phase).toBe('playing');
+    expect(state.elapsed).toBeCloseTo(1.5);
+    expect(getTimeLeft(state)).toBeCloseTo(58.5);
+  });
+
+  it('should not run the clock while paused', () => {
+    const paused = inPhase('paused', { elapsed: 10 });
+
+    expect(tickGameState(paused, 5, 1)).toBe(paused);
+  });
+
+  it('should show results when reaching the goal size in time', () => {
+    state = tickGameState(inPhase('playing', { elapsed: 30 }), 1 / 60, 2);
+
+    expect(state.phase).toBe('results');
+  });
+
+  it('should end the game when time runs out', () => {
+    state = tickGameState(inPhase('playing', { elapsed: 59.9 }), 0.5, 1.5);
+
+    expect(state.phase).toBe('gameOver');
+    expect(state.elapsed).toBe(60);
+    expect(getTimeLeft(state)).toBe(0);
+  });
+
+  it('should count reaching the goal on the last frame as a win', () => {
+    state = tickGameState(inPhase('playing', { elapsed: 59.9 }), 0.5, 2.1);
+
+    expect(state.phase).toBe('results');
+  });
+});
+
+describe('formatTime', () => {
+  it('should format seconds as m:ss', () => {
+    expect(formatTime(0)).toBe('0:00');
+    expect(formatTime(59.2)).toBe('1:00');
+    expect(formatTime(65)).toBe('1:05');
+    expect(formatTime(300)).toBe('5:00');
+  });
+});
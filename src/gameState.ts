@@ -0,0 +1,124 @@
+// --- game flow state machine ---
+import type { Level } from './levels';
+
+// seconds of "3, 2, 1" before play starts
+export const COUNTDOWN_SECONDS = 3;
+
+/**
+ * Phases of a run:
+ * title -> countdown -> playing <-> paused -> results (goal reached) / gameOver (time up)
+ * title / results / gameOver -> replay (watching a recorded run) -> title
+ */
+export type GamePhase = 'title' | 'countdown' | 'playing' | 'paused' | 'results' | 'gameOver' | 'replay';
+
+export type GameEvent =
+  | 'start' // title -> countdown
+  | 'pause' // playing -> paused
+  | 'resume' // paused -> playing
+  | 'restart' // paused/results/gameOver -> countdown
+  | 'watch' // title/results/gameOver -> replay
+  | 'quit'; // anything -> title
+
+export interface GameState {
+  phase: GamePhase;
+  countdown: number; // seconds left before play starts
+  elapsed: number; // seconds of play so far (pauses don't count)
+  timeLimit: number; // seconds allowed (from the level)
+  goalSize: number; // katamari size needed to win (from the level)
+}
+
+/**
+ * Creates the state for a fresh run of a level, sitting on the title screen.
+ */
+export function createGameState(level: Pick<Level, 'timeLimit' | 'goalSize'>): GameState {
+  return {
+    phase: 'title',
+    countdown: COUNTDOWN_SECONDS,
+    elapsed: 0,
+    timeLimit: level.timeLimit,
+    goalSize: level.goalSize,
+  };
+}
+
+/**
+ * Creates the state for a saved run carried on part-way through: paused, with the clock where it was left.
+ */
+export function restoreGameState(level: Pick<Level, 'timeLimit' | 'goalSize'>, elapsed: number): GameState {
+  return { ...createGameState(level), phase: 'paused', countdown: 0, elapsed: Math.min(elapsed, level.timeLimit) };
+}
+
+/**
+ * Returns the phase an event leads to, or null if the event isn't allowed in this phase.
+ */
+export function nextPhase(phase: GamePhase, event: GameEvent): GamePhase | null {
+  switch (event) {
+    case 'start':
+      return phase === 'title' ? 'countdown' : null;
+    case 'pause':
+      return phase === 'playing' ? 'paused' : null;
+    case 'resume':
+      return phase === 'paused' ? 'playing' : null;
+    case 'restart':
+      return phase === 'paused' || phase === 'results' || phase === 'gameOver' ? 'countdown' : null;
+    case 'watch':
+      return phase === 'title' || phase === 'results' || phase === 'gameOver' ? 'replay' : null;
+    case 'quit':
+      return phase === 'title' ? null : 'title';
+  }
+}
+
+/**
+ * Applies a player event (start, pause, ...) to the state.
+ * Events that don't make sense in the current phase are ignored (same state comes back).
+ * Starting over (or watching a replay) resets the countdown and the clock.
+ */
+export function dispatchGameEvent(state: GameState, event: GameEvent): GameState {
+  const phase = nextPhase(state.phase, event);
+  if (phase === null) return state;
+
+  if (event === 'start' || event === 'restart' || event === 'watch' || event === 'quit') {
+    return { ...state, phase, countdown: COUNTDOWN_SECONDS, elapsed: 0 };
+  }
+  return { ...state, phase };
+}
+
+/**
+ * Advances timers by dt seconds and handles the automatic transitions:
+ * - countdown runs out -> playing
+ * - katamari reaches the goal size -> results
+ * - time runs out -> gameOver
+ * Replays run their own clock (the recording decides when they end).
+ */
+export function tickGameState(state: GameState, dt: number, katamariSize: number): GameState {
+  if (state.phase === 'countdown') {
+    const countdown = state.countdown - dt;
+    return countdown <= 0 ? { ...state, phase: 'playing', countdown: 0 } : { ...state, countdown };
+  }
+
+  if (state.phase === 'playing') {
+    const elapsed = Math.min(state.elapsed + dt, state.timeLimit);
+
+    // reaching the goal on the very last frame still counts as a win
+    if (katamariSize >= state.goalSize) return { ...state, phase: 'results', elapsed };
+    if (elapsed >= state.timeLimit) return { ...state, phase: 'gameOver', elapsed };
+    return { ...state, elapsed };
+  }
+
+  return state;
+}
+
+/**
+ * Returns the seconds left on the clock.
+ */
+export function getTimeLeft(state: GameState): number {
+  return Math.max(0, state.timeLimit - state.elapsed);
+}
+
+/**
+ * Formats seconds as m:ss for the HUD.
+ */
+export function formatTime(seconds: number): string {
+  const whole = Math.ceil(seconds);
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, '0')}`;
+}
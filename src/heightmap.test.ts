@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePgm,
+  sampleImage,
+  createValueNoise,
+  createHeightmap,
+  createTerrainHeightmap,
+  BUNDLED_HEIGHTMAPS,
+  TERRAIN_CELL_SIZE,
+} from './heightmap';
+
+const ground = { width: 40, depth: 30 };
+
+describe('PGM images', () => {
+  it('should read plain PGM images, comments and all', () => {
+    const image = parsePgm('P2\n# a tiny ramp\n3 2\n# max value\n10\n0 5 10\n10 5 0\n');
+
+    expect(image).toEqual({ width: 3, height: 2, pixels: [0, 0.5, 1, 1, 0.5, 0] });
+  });
+
+  it('should reject other formats and broken images', () => {
+    expect(() => parsePgm('P5\n2 2\n255\n')).toThrow(/expected a plain PGM/);
+    expect(() => parsePgm('P2\n1 1\n255\n0')).toThrow(/at least 2/);
+    expect(() => parsePgm('P2\n2 2\n255\n0 1 2')).toThrow(/expected 4 values from 0 to 255/);
+    expect(() => parsePgm('P2\n2 2\n255\n0 1 2 300')).toThrow(/expected 4 values/);
+  });
+
+  it('should sample between pixels', () => {
+    const image = parsePgm('P2 2 2 4 0 4 0 4');
+
+    expect(sampleImage(image, 0, 0)).toBe(0);
+    expect(sampleImage(image, 1, 1)).toBe(1);
+    expect(sampleImage(image, 0.25, 0.5)).toBeCloseTo(0.25);
+    expect(sampleImage(image, 2, -1)).toBe(1); // clamped to the edges
+  });
+
+  it('should bundle the heightmaps levels refer to', () => {
+    expect(BUNDLED_HEIGHTMAPS.hills?.width).toBeGreaterThan(1);
+  });
+});
+
+describe('Value noise', () => {
+  it('should give the same values for the same seed', () => {
+    const a = createValueNoise(42);
+    const b = createValueNoise(42);
+    const c = createValueNoise(43);
+
+    expect(a(3.7, -1.2)).toBe(b(3.7, -1.2));
+    expect(a(3.7, -1.2)).not.toBe(c(3.7, -1.2));
+  });
+
+  it('should stay between 0 and 1 and change smoothly', () => {
+    const noise = createValueNoise(7);
+    for (let i = 0; i < 200; i++) {
+      const x = i * 0.173 - 10;
+      const y = i * 0.091;
+      const value = noise(x, y);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      expect(Math.abs(noise(x + 0.001, y) - value)).toBeLessThan(0.01);
+    }
+  });
+});
+
+describe('Heightmaps', () => {
+  it('should cover the ground with a grid of square cells', () => {
+    const heightmap = createHeightmap(ground.width, ground.depth, (x, z) => x + z);
+
+    expect(heightmap.columns).toBe(ground.width / TERRAIN_CELL_SIZE + 1);
+    expect(heightmap.rows).toBe(ground.depth / TERRAIN_CELL_SIZE + 1);
+    expect(heightmap.minX).toBe(-20);
+    expect(heightmap.minZ).toBe(-15);
+    expect(heightmap.heights[0]![0]).toBe(-35);
+    expect(heightmap.heights[20]![15]).toBe(35);
+  });
+
+  it('should build the same noise terrain from the same seed', () => {
+    const terrain = { source: 'noise', height: 5, seed: 9, scale: 20 } as const;
+    const a = createTerrainHeightmap(terrain, ground);
+    const b = createTerrainHeightmap(terrain, ground);
+    const other = createTerrainHeightmap({ ...terrain, seed: 10 }, ground);
+
+    expect(a.heights).toEqual(b.heights);
+    expect(a.heights).not.toEqual(other.heights);
+    const all = a.heights.flat();
+    expect(Math.min(...all)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...all)).toBeLessThanOrEqual(5);
+  });
+
+  it('should stretch heightmap images over the ground', () => {
+    const heightmap = createTerrainHeightmap({ source: 'image', height: 8, image: 'hills' }, ground);
+    const all = heightmap.heights.flat();
+
+    expect(Math.min(...all)).toBeCloseTo(0);
+    expect(Math.max(...all)).toBeLessThanOrEqual(8);
+    expect(Math.max(...all)).toBeGreaterThan(6);
+    expect(() => createTerrainHeightmap({ source: 'image', height: 8, image: 'missing' }, ground)).toThrow(/missing/);
+  });
+});
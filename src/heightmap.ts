@@ -0,0 +1,164 @@
+// --- heightmaps for terrain (seeded noise or a grayscale image) ---
+import hillsImage from './data/heightmaps/hills.pgm?raw';
+import type { TerrainDefinition } from './levels';
+
+// distance between terrain height samples (m): small enough for smooth hills, big enough to stay cheap
+export const TERRAIN_CELL_SIZE = 2;
+
+// noise terrain: octaves of detail layered on the big hills (each half the size and height of the last)
+export const TERRAIN_NOISE_OCTAVES = 4;
+
+/**
+ * Terrain heights on a square grid over the ground, in meters.
+ * heights[i][j] is the height at x = minX + i * cellSize, z = minZ + j * cellSize.
+ */
+export interface Heightmap {
+  columns: number; // samples along x
+  rows: number; // samples along z
+  cellSize: number;
+  minX: number;
+  minZ: number;
+  heights: number[][];
+}
+
+/**
+ * A grayscale image, values from 0 (black) to 1 (white), row by row from the top.
+ */
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  pixels: number[];
+}
+
+/**
+ * Reads a plain (ascii, "P2") PGM grayscale image.
+ * Heightmaps are bundled in this format instead of PNG: it's text, so it's read the same
+ * everywhere (no browser color management, no async image decoding) and works in node tests too.
+ */
+export function parsePgm(text: string): GrayscaleImage {
+  // whitespace separated tokens, # starts a comment that runs to the end of the line
+  const tokens = text.replace(/#[^\n]*/g, ' ').trim().split(/\s+/);
+  if (tokens[0] !== 'P2') {
+    throw new Error(`Unsupported heightmap image: expected a plain PGM ("P2"), got "${tokens[0] ?? ''}"`);
+  }
+
+  const [width, height, maxValue] = tokens.slice(1, 4).map(Number);
+  if (!width || !height || !maxValue || width < 2 || height < 2) {
+    throw new Error('Invalid heightmap image: expected a width and height of at least 2 and a max value');
+  }
+
+  const values = tokens.slice(4).map(Number);
+  if (values.length !== width * height || values.some((value) => !(value >= 0 && value <= maxValue))) {
+    throw new Error(`Invalid heightmap image: expected ${width * height} values from 0 to ${maxValue}`);
+  }
+
+  return { width, height, pixels: values.map((value) => value / maxValue) };
+}
+
+// heightmap images bundled with the game (src/data/heightmaps), by the name levels use
+export const BUNDLED_HEIGHTMAPS: Record<string, GrayscaleImage> = {
+  hills: parsePgm(hillsImage),
+};
+
+/**
+ * Samples an image between its pixels (bilinear), u and v from 0 to 1 (left to right, top to bottom).
+ */
+export function sampleImage(image: GrayscaleImage, u: number, v: number): number {
+  const x = Math.min(Math.max(u, 0), 1) * (image.width - 1);
+  const y = Math.min(Math.max(v, 0), 1) * (image.height - 1);
+  const x0 = Math.min(Math.floor(x), image.width - 2);
+  const y0 = Math.min(Math.floor(y), image.height - 2);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const pixel = (px: number, py: number) => image.pixels[py * image.width + px]!;
+  const top = pixel(x0, y0) * (1 - fx) + pixel(x0 + 1, y0) * fx;
+  const bottom = pixel(x0, y0 + 1) * (1 - fx) + pixel(x0 + 1, y0 + 1) * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Creates smooth 2d value noise from a seed, from 0 to 1.
+ * Random values sit on a grid of whole numbers and are blended in between,
+ * so features are about 1 unit across (scale the input for bigger hills).
+ * Only integer math and basic arithmetic: the same seed gives the same terrain everywhere.
+ */
+export function createValueNoise(seed: number): (x: number, y: number) => number {
+  const base = seed >>> 0;
+
+  // random value for a grid point (integer hash, no state)
+  function lattice(ix: number, iy: number): number {
+    let h = base ^ Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iy, 0x165667b1);
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+  }
+
+  // smoothstep: no creases where grid cells meet
+  const fade = (t: number) => t * t * (3 - 2 * t);
+
+  return (x, y) => {
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    const fx = fade(x - ix);
+    const fy = fade(y - iy);
+    const top = lattice(ix, iy) * (1 - fx) + lattice(ix + 1, iy) * fx;
+    const bottom = lattice(ix, iy + 1) * (1 - fx) + lattice(ix + 1, iy + 1) * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+}
+
+/**
+ * Builds a heightmap covering a ground area (centered on the origin) from a height function.
+ * The grid spacing is as close to the cell size as fits the width exactly (the depth is rounded to whole cells).
+ *
+ * @param heightAt - terrain height (m) at a point on the ground
+ */
+export function createHeightmap(
+  width: number,
+  depth: number,
+  heightAt: (x: number, z: number) => number,
+  cellSize: number = TERRAIN_CELL_SIZE
+): Heightmap {
+  const columns = Math.max(2, Math.round(width / cellSize) + 1);
+  const cell = width / (columns - 1);
+  const rows = Math.max(2, Math.round(depth / cell) + 1);
+  const minX = -width / 2;
+  const minZ = (-(rows - 1) * cell) / 2;
+
+  const heights = Array.from({ length: columns }, (_, i) =>
+    Array.from({ length: rows }, (_, j) => heightAt(minX + i * cell, minZ + j * cell))
+  );
+  return { columns, rows, cellSize: cell, minX, minZ, heights };
+}
+
+/**
+ * Builds the heightmap a level's terrain asks for.
+ * - noise: layered value noise, hills about `scale` meters across
+ * - image: a bundled grayscale image stretched over the ground (black = 0, white = full height)
+ */
+export function createTerrainHeightmap(terrain: TerrainDefinition, ground: { width: number; depth: number }): Heightmap {
+  const { width, depth } = ground;
+
+  if (terrain.source === 'image') {
+    const image = BUNDLED_HEIGHTMAPS[terrain.image];
+    if (!image) throw new Error(`Unknown heightmap image "${terrain.image}"`);
+    return createHeightmap(width, depth, (x, z) => {
+      return sampleImage(image, x / width + 0.5, z / depth + 0.5) * terrain.height;
+    });
+  }
+
+  const noise = createValueNoise(terrain.seed);
+  return createHeightmap(width, depth, (x, z) => {
+    let value = 0;
+    let amplitude = 1;
+    let total = 0;
+    for (let octave = 0; octave < TERRAIN_NOISE_OCTAVES; octave++) {
+      const frequency = 2 ** octave / terrain.scale;
+      value += noise(x * frequency + octave * 17.3, z * frequency) * amplitude; // offset: octaves don't line up
+      total += amplitude;
+      amplitude /= 2;
+    }
+    return (value / total) * terrain.height;
+  });
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampInputVector,
+  keysToInputVector,
+  stickToInputVector,
+  mergeInputVectors,
+  readGamepadMovement,
+  readGamepadCameraTurn,
+  mergeCameraTurn,
+  joystickToInputVector,
+  clampJoystickKnob,
+  STICK_DEAD_ZONE,
+  GAMEPAD_BUTTON_DPAD_UP,
+  GAMEPAD_BUTTON_DPAD_RIGHT,
+} from './input';
+import type { StickSettings } from './input';
+
+const LINEAR: StickSettings = { deadZone: 0.2, responseExponent: 1 };
+
+// just enough of a Gamepad for reading movement
+function makeGamepad(axes: number[], pressedButtons: number[] = []): Gamepad {
+  const buttons = Array.from({ length: 17 }, (_, i) => ({ pressed: pressedButtons.includes(i), touched: false, value: 0 }));
+  return { axes, buttons } as unknown as Gamepad;
+}
+
+describe('Input vectors', () => {
+  describe('clampInputVector', () => {
+    it('should leave short vectors alone', () => {
+      expect(clampInputVector(0.3, -0.4)).toEqual({ x: 0.3, y: -0.4 });
+    });
+
+    it('should scale long vectors down to length 1', () => {
+      const v = clampInputVector(3, 4);
+
+      expect(v.x).toBeCloseTo(0.6);
+      expect(v.y).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('keysToInputVector', () => {
+    it('should point forward for W and right for D', () => {
+      expect(keysToInputVector({ w: true, a: false, s: false, d: false })).toEqual({ x: 0, y: 1 });
+      expect(keysToInputVector({ w: false, a: false, s: false, d: true })).toEqual({ x: 1, y: 0 });
+    });
+
+    it('should give diagonals length 1', () => {
+      const v = keysToInputVector({ w: false, a: true, s: true, d: false });
+
+      expect(Math.hypot(v.x, v.y)).toBeCloseTo(1);
+      expect(v.x).toBeLessThan(0);
+      expect(v.y).toBeLessThan(0);
+    });
+
+    it('should cancel out opposite keys', () => {
+      expect(keysToInputVector({ w: true, a: true, s: true, d: true })).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should write into the target vector', () => {
+      const target = { x: 5, y: 5 };
+      const result = keysToInputVector({ w: false, a: false, s: false, d: false }, target);
+
+      expect(result).toBe(target);
+      expect(target).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('stickToInputVector', () => {
+    it('should ignore small deflections inside the dead zone', () => {
+      expect(stickToInputVector(0.1, -0.05)).toEqual({ x: 0, y: 0 });
+      expect(stickToInputVector(STICK_DEAD_ZONE, 0)).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should treat the dead zone as a circle (diagonals not cut off)', () => {
+      // each axis is below the dead zone on its own, the deflection isn't
+      const v = stickToInputVector(0.18, 0.18, LINEAR);
+
+      expect(v.x).toBeGreaterThan(0);
+    });
+
+    it('should start from zero right past the dead zone', () => {
+      const v = stickToInputVector(0.21, 0, LINEAR);
+
+      expect(v.x).toBeGreaterThan(0);
+      expect(v.x).toBeLessThan(0.02);
+    });
+
+    it('should reach full magnitude at full deflection', () => {
+      expect(stickToInputVector(1, 0).x).toBeCloseTo(1);
+      expect(stickToInputVector(0, -1).y).toBeCloseTo(1);
+    });
+
+    it('should flip y so pushing up means forward', () => {
+      expect(stickToInputVector(0, -1, LINEAR).y).toBeCloseTo(1);
+      expect(stickToInputVector(0, 1, LINEAR).y).toBeCloseTo(-1);
+    });
+
+    it('should apply the response curve to the magnitude', () => {
+      const linear = stickToInputVector(0.6, 0, LINEAR);
+      const curved = stickToInputVector(0.6, 0, { deadZone: 0.2, responseExponent: 2 });
+
+      expect(linear.x).toBeCloseTo(0.5);
+      expect(curved.x).toBeCloseTo(0.25);
+    });
+
+    it('should keep the stick direction', () => {
+      const v = stickToInputVector(0.5, -0.5);
+
+      expect(v.x).toBeCloseTo(v.y);
+    });
+
+    it('should never exceed length 1 (square-gate sticks report corners past it)', () => {
+      const v = stickToInputVector(1, -1);
+
+      expect(Math.hypot(v.x, v.y)).toBeCloseTo(1);
+    });
+  });
+
+  describe('mergeInputVectors', () => {
+    it('should add devices together', () => {
+      expect(mergeInputVectors([{ x: 0.2, y: 0 }, { x: 0, y: 0.3 }])).toEqual({ x: 0.2, y: 0.3 });
+    });
+
+    it('should not go faster when two devices push the same way', () => {
+      const v = mergeInputVectors([{ x: 1, y: 0 }, { x: 1, y: 0 }]);
+
+      expect(v).toEqual({ x: 1, y: 0 });
+    });
+
+    it('should be centered with no devices', () => {
+      expect(mergeInputVectors([])).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('readGamepadMovement', () => {
+    it('should read the left stick', () => {
+      const v = readGamepadMovement(makeGamepad([1, 0, 0, 0]));
+
+      expect(v.x).toBeCloseTo(1);
+      expect(v.y).toBeCloseTo(0);
+    });
+
+    it('should fall back to the d-pad when the stick is centered', () => {
+      const v = readGamepadMovement(makeGamepad([0, 0], [GAMEPAD_BUTTON_DPAD_UP, GAMEPAD_BUTTON_DPAD_RIGHT]));
+
+      expect(v.x).toBeCloseTo(Math.SQRT1_2);
+      expect(v.y).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('should handle pads reporting no axes', () => {
+      expect(readGamepadMovement(makeGamepad([]))).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('camera turning', () => {
+    it('should read the right stick sideways', () => {
+      expect(readGamepadCameraTurn(makeGamepad([0, 0, 1, 0]))).toBeCloseTo(1);
+      expect(readGamepadCameraTurn(makeGamepad([0, 0, -1, 0]))).toBeCloseTo(-1);
+    });
+
+    it('should ignore a resting right stick and pads without one', () => {
+      expect(readGamepadCameraTurn(makeGamepad([0, 0, 0.05, 0.9]))).toBe(0);
+      expect(readGamepadCameraTurn(makeGamepad([0, 0]))).toBe(0);
+    });
+
+    it('should merge devices without going past full speed', () => {
+      expect(mergeCameraTurn([1, 0.5])).toBe(1);
+      expect(mergeCameraTurn([-1, 0.25])).toBe(-0.75);
+      expect(mergeCameraTurn([])).toBe(0);
+    });
+  });
+
+  describe('virtual joystick', () => {
+    it('should give full deflection at the edge of the base', () => {
+      const v = joystickToInputVector(60, 0, 60);
+
+      expect(v.x).toBeCloseTo(1);
+      expect(v.y).toBeCloseTo(0);
+    });
+
+    it('should treat dragging up the screen as forward', () => {
+      expect(joystickToInputVector(0, -60, 60).y).toBeCloseTo(1);
+    });
+
+    it('should not go past full deflection when dragged beyond the base', () => {
+      const v = joystickToInputVector(200, 200, 60);
+
+      expect(Math.hypot(v.x, v.y)).toBeCloseTo(1);
+    });
+
+    it('should ignore tiny drags', () => {
+      expect(joystickToInputVector(3, -2, 60)).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should keep the knob inside the base', () => {
+      expect(clampJoystickKnob(30, 0, 60)).toEqual({ x: 30, y: 0 });
+
+      const knob = clampJoystickKnob(0, 120, 60);
+      expect(knob.x).toBeCloseTo(0);
+      expect(knob.y).toBeCloseTo(60);
+    });
+  });
+});
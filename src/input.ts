@@ -0,0 +1,180 @@
+import type { KeyState, InputVector } from './gameLogic';
+
+// --- analog stick tuning ---
+export const STICK_DEAD_ZONE = 0.15; // stick deflection ignored around the center (worn sticks drift)
+export const STICK_RESPONSE_EXPONENT = 2; // > 1 = finer control near the center, full speed at the edge
+
+/**
+ * How raw stick readings turn into movement.
+ * - deadZone: deflection (0-1) below which the stick counts as centered
+ * - responseExponent: curve applied to the deflection past the dead zone (1 = linear)
+ */
+export interface StickSettings {
+  deadZone: number;
+  responseExponent: number;
+}
+
+export const DEFAULT_STICK_SETTINGS: StickSettings = {
+  deadZone: STICK_DEAD_ZONE,
+  responseExponent: STICK_RESPONSE_EXPONENT,
+};
+
+// standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+export const GAMEPAD_AXIS_LEFT_X = 0;
+export const GAMEPAD_AXIS_LEFT_Y = 1;
+export const GAMEPAD_AXIS_RIGHT_X = 2;
+export const GAMEPAD_BUTTON_RESPAWN = 3; // Y / triangle
+export const GAMEPAD_BUTTON_PAUSE = 9; // start / options
+export const GAMEPAD_BUTTON_DPAD_UP = 12;
+export const GAMEPAD_BUTTON_DPAD_DOWN = 13;
+export const GAMEPAD_BUTTON_DPAD_LEFT = 14;
+export const GAMEPAD_BUTTON_DPAD_RIGHT = 15;
+
+/**
+ * Returns a centered input vector (no movement).
+ */
+export function createInputVector(): InputVector {
+  return { x: 0, y: 0 };
+}
+
+/**
+ * Scales a vector down to length 1 if it's longer (shorter vectors are left alone).
+ */
+export function clampInputVector(x: number, y: number, target: InputVector = createInputVector()): InputVector {
+  const length = Math.hypot(x, y);
+  const scale = length > 1 ? 1 / length : 1;
+  target.x = x * scale;
+  target.y = y * scale;
+  return target;
+}
+
+/**
+ * Converts pressed movement keys into an input vector.
+ * Diagonals have length 1 too, so they're no faster than straight lines.
+ */
+export function keysToInputVector(keys: KeyState, target: InputVector = createInputVector()): InputVector {
+  const x = (keys.d ? 1 : 0) - (keys.a ? 1 : 0);
+  const y = (keys.w ? 1 : 0) - (keys.s ? 1 : 0);
+  return clampInputVector(x, y, target);
+}
+
+/**
+ * Converts a raw analog stick reading into an input vector.
+ * 1. radial dead zone (the stick's distance from center, not each axis, so diagonals stay smooth)
+ * 2. deflection past the dead zone rescaled to 0-1 (no jump when leaving the dead zone)
+ * 3. response curve on the magnitude (direction unchanged)
+ *
+ * @param rawX - stick x axis (-1 left, 1 right)
+ * @param rawY - stick y axis (-1 up, 1 down, as the Gamepad API reports it)
+ */
+export function stickToInputVector(
+  rawX: number,
+  rawY: number,
+  settings: StickSettings = DEFAULT_STICK_SETTINGS,
+  target: InputVector = createInputVector()
+): InputVector {
+  const deflection = Math.min(1, Math.hypot(rawX, rawY));
+  if (deflection <= settings.deadZone) {
+    target.x = 0;
+    target.y = 0;
+    return target;
+  }
+
+  const magnitude = ((deflection - settings.deadZone) / (1 - settings.deadZone)) ** settings.responseExponent;
+  const length = Math.hypot(rawX, rawY);
+
+  // flip y: pushing the stick up (negative) means forward
+  target.x = (rawX / length) * magnitude;
+  target.y = (-rawY / length) * magnitude;
+  return target;
+}
+
+/**
+ * Combines the input of several devices into one vector (clamped to length 1).
+ * Lets keyboard and gamepad be used at the same time without doubling the speed.
+ */
+export function mergeInputVectors(vectors: InputVector[], target: InputVector = createInputVector()): InputVector {
+  let x = 0;
+  let y = 0;
+  vectors.forEach((vector) => {
+    x += vector.x;
+    y += vector.y;
+  });
+  return clampInputVector(x, y, target);
+}
+
+/**
+ * Reads movement from a gamepad: left stick, or the d-pad when the stick is centered.
+ */
+export function readGamepadMovement(
+  gamepad: Gamepad,
+  settings: StickSettings = DEFAULT_STICK_SETTINGS,
+  target: InputVector = createInputVector()
+): InputVector {
+  stickToInputVector(
+    gamepad.axes[GAMEPAD_AXIS_LEFT_X] ?? 0,
+    gamepad.axes[GAMEPAD_AXIS_LEFT_Y] ?? 0,
+    settings,
+    target
+  );
+  if (target.x !== 0 || target.y !== 0) return target;
+
+  const pressed = (index: number) => gamepad.buttons[index]?.pressed ?? false;
+  return keysToInputVector(
+    {
+      w: pressed(GAMEPAD_BUTTON_DPAD_UP),
+      a: pressed(GAMEPAD_BUTTON_DPAD_LEFT),
+      s: pressed(GAMEPAD_BUTTON_DPAD_DOWN),
+      d: pressed(GAMEPAD_BUTTON_DPAD_RIGHT),
+    },
+    target
+  );
+}
+
+/**
+ * Reads camera turning from a gamepad: right stick sideways (-1 left, 1 right).
+ */
+export function readGamepadCameraTurn(gamepad: Gamepad, settings: StickSettings = DEFAULT_STICK_SETTINGS): number {
+  return stickToInputVector(gamepad.axes[GAMEPAD_AXIS_RIGHT_X] ?? 0, 0, settings).x;
+}
+
+/**
+ * Combines camera turn inputs of several devices (clamped to -1..1).
+ */
+export function mergeCameraTurn(turns: number[]): number {
+  return Math.max(-1, Math.min(1, turns.reduce((sum, turn) => sum + turn, 0)));
+}
+
+// touch joysticks have no physical spring or drift, so a smaller dead zone and gentler curve feel better
+export const TOUCH_STICK_SETTINGS: StickSettings = {
+  deadZone: 0.1,
+  responseExponent: 1.5,
+};
+
+/**
+ * Converts a virtual joystick drag into an input vector.
+ * Dragging the full radius (or further) is full deflection.
+ *
+ * @param dx - finger offset from the joystick center (px, right = positive)
+ * @param dy - finger offset from the joystick center (px, down = positive, like the screen)
+ * @param radius - how far the knob can travel (px)
+ */
+export function joystickToInputVector(
+  dx: number,
+  dy: number,
+  radius: number,
+  settings: StickSettings = TOUCH_STICK_SETTINGS,
+  target: InputVector = createInputVector()
+): InputVector {
+  // screen y grows downwards just like a gamepad's y axis
+  return stickToInputVector(dx / radius, dy / radius, settings, target);
+}
+
+/**
+ * Returns where to draw the joystick knob: under the finger, but not outside the base.
+ */
+export function clampJoystickKnob(dx: number, dy: number, radius: number): { x: number; y: number } {
+  const length = Math.hypot(dx, dy);
+  const scale = length > radius ? radius / length : 1;
+  return { x: dx * scale, y: dy * scale };
+}
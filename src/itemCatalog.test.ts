@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import * as CANNON from 'cannon-es';
+import * as THREE from 'three';
+import {
+  parseItemCatalog,
+  pickItemDefinition,
+  findItemDefinition,
+  getItemSize,
+  getItemVolume,
+  getPickupRadius,
+  createItemGeometry,
+  createItemShape,
+  DEFAULT_ITEM_CATALOG,
+} from './itemCatalog';
+import type { BehaviorDefinition, ItemCatalog, ItemDefinition } from './itemCatalog';
+import { ValidationError } from './validation';
+
+function makeItem(overrides: Partial<ItemDefinition> = {}): ItemDefinition {
+  return {
+    id: 'toy-block',
+    name: 'Toy Block',
+    geometry: { kind: 'box', width: 0.5, height: 0.5, depth: 0.5 },
+    material: { color: '#4169e1' },
+    collider: 'box',
+    sizeClass: 'small',
+    points: 2,
+    spawnWeight: 1,
+    ...overrides,
+  };
+}
+
+describe('Item catalog parsing', () => {
+  it('should parse a valid catalog', () => {
+    const catalog = parseItemCatalog({ items: [makeItem()] });
+
+    expect(catalog.items).toHaveLength(1);
+    expect(catalog.items[0]).toEqual(makeItem());
+  });
+
+  it('should parse the bundled catalog', () => {
+    expect(DEFAULT_ITEM_CATALOG.items.length).toBeGreaterThan(0);
+  });
+
+  it('should reject a catalog without items', () => {
+    expect(() => parseItemCatalog({})).toThrow(ValidationError);
+    expect(() => parseItemCatalog({ items: [] })).toThrow(/at least one item/);
+  });
+
+  it('should report the path of bad values', () => {
+    const bad = { items: [makeItem(), { ...makeItem({ id: 'cone' }), points: 'lots' }] };
+
+    expect(() => parseItemCatalog(bad)).toThrow(/items\[1\]\.points: expected a number/);
+  });
+
+  it('should reject unknown geometry kinds and colliders', () => {
+    const bad = {
+      items: [{ ...makeItem(), geometry: { kind: 'torus', radius: 1 }, collider: 'mesh' }],
+    };
+
+    try {
+      parseItemCatalog(bad);
+      expect.unreachable();
+    } catch (error) {
+      const issues = (error as ValidationError).issues;
+      expect(issues).toHaveLength(2);
+      expect(issues[0]).toMatch(/items\[0\]\.geometry\.kind/);
+      expect(issues[1]).toMatch(/items\[0\]\.collider/);
+    }
+  });
+
+  it('should reject non-positive dimensions', () => {
+    const bad = { items: [makeItem({ geometry: { kind: 'sphere', radius: 0 } })] };
+
+    expect(() => parseItemCatalog(bad)).toThrow(/geometry\.radius: expected a positive number/);
+  });
+
+  it('should parse item behaviors', () => {
+    const patrol: BehaviorDefinition = { kind: 'patrol', speed: 2, path: [{ x: 0, z: 0 }, { x: 4, z: 0 }] };
+    const catalog = parseItemCatalog({ items: [makeItem({ behavior: patrol })] });
+
+    expect(catalog.items[0]!.behavior).toEqual(patrol);
+    expect(parseItemCatalog({ items: [makeItem()] }).items[0]!.behavior).toBeUndefined();
+    expect(DEFAULT_ITEM_CATALOG.items.some((item) => item.behavior)).toBe(true);
+  });
+
+  it('should reject broken behaviors', () => {
+    const bad = (behavior: unknown) => ({ items: [{ ...makeItem(), behavior }] });
+
+    expect(() => parseItemCatalog(bad({ kind: 'teleport', speed: 1 }))).toThrow(/behavior\.kind/);
+    expect(() => parseItemCatalog(bad({ kind: 'wander', speed: 0, radius: 3 }))).toThrow(
+      /behavior\.speed: expected a positive number/
+    );
+    expect(() => parseItemCatalog(bad({ kind: 'flee-or-chase', speed: 1 }))).toThrow(/behavior\.range/);
+    expect(() => parseItemCatalog(bad({ kind: 'patrol', speed: 1, path: [{ x: 0, z: 0 }] }))).toThrow(
+      /behavior\.path: expected at least two points/
+    );
+  });
+
+  it('should reject duplicate ids', () => {
+    expect(() => parseItemCatalog({ items: [makeItem(), makeItem()] })).toThrow(/duplicate id "toy-block"/);
+  });
+});
+
+describe('Item catalog lookups', () => {
+  const catalog: ItemCatalog = {
+    items: [
+      makeItem({ id: 'common', spawnWeight: 3 }),
+      makeItem({ id: 'never', spawnWeight: 0 }),
+      makeItem({ id: 'rare', spawnWeight: 1 }),
+    ],
+  };
+
+  it('should find items by id', () => {
+    expect(findItemDefinition(catalog, 'rare')?.id).toBe('rare');
+    expect(findItemDefinition(catalog, 'missing')).toBeUndefined();
+  });
+
+  it('should pick items by spawn weight', () => {
+    // total weight 4: [0, 3) -> common, [3, 4) -> rare
+    expect(pickItemDefinition(catalog, () => 0).id).toBe('common');
+    expect(pickItemDefinition(catalog, () => 0.7).id).toBe('common');
+    expect(pickItemDefinition(catalog, () => 0.8).id).toBe('rare');
+    expect(pickItemDefinition(catalog, () => 0.999).id).toBe('rare');
+  });
+});
+
+describe('Item dimensions', () => {
+  it('should use the largest dimension as size', () => {
+    expect(getItemSize(makeItem())).toBeCloseTo(0.5);
+    expect(getItemSize(makeItem({ geometry: { kind: 'cone', radius: 0.4, height: 0.8 } }))).toBeCloseTo(0.8);
+    expect(
+      getItemSize(makeItem({ geometry: { kind: 'cylinder', radiusTop: 0.5, radiusBottom: 0.4, height: 0.8 } }))
+    ).toBeCloseTo(1);
+  });
+
+  it('should compute volumes per geometry kind', () => {
+    expect(getItemVolume(makeItem())).toBeCloseTo(0.125);
+    expect(getItemVolume(makeItem({ geometry: { kind: 'sphere', radius: 1 } }))).toBeCloseTo((4 / 3) * Math.PI);
+    expect(getItemVolume(makeItem({ geometry: { kind: 'cone', radius: 1, height: 3 } }))).toBeCloseTo(Math.PI);
+    expect(
+      getItemVolume(makeItem({ geometry: { kind: 'cylinder', radiusTop: 1, radiusBottom: 1, height: 2 } }))
+    ).toBeCloseTo(2 * Math.PI);
+  });
+
+  it('should keep the pickup radius inside the bounding sphere', () => {
+    // 0.5m cube -> bounding sphere radius ~0.433
+    expect(getPickupRadius(makeItem())).toBeLessThan(0.433);
+    expect(getPickupRadius(makeItem())).toBeGreaterThan(0.35);
+  });
+});
+
+describe('Item builders', () => {
+  it('should build matching three.js geometry', () => {
+    expect(createItemGeometry(makeItem())).toBeInstanceOf(THREE.BoxGeometry);
+    expect(createItemGeometry(makeItem({ geometry: { kind: 'cone', radius: 0.4, height: 0.8 } }))).toBeInstanceOf(
+      THREE.ConeGeometry
+    );
+  });
+
+  it('should build the requested collider shape', () => {
+    const box = createItemShape(makeItem()) as CANNON.Box;
+    expect(box).toBeInstanceOf(CANNON.Box);
+    expect(box.halfExtents.x).toBeCloseTo(0.25);
+
+    const sphere = createItemShape(makeItem({ collider: 'sphere' })) as CANNON.Sphere;
+    expect(sphere).toBeInstanceOf(CANNON.Sphere);
+    expect(sphere.radius).toBeCloseTo(0.25);
+
+    const cylinder = createItemShape(
+      makeItem({ geometry: { kind: 'cone', radius: 0.4, height: 0.8 }, collider: 'cylinder' })
+    );
+    expect(cylinder).toBeInstanceOf(CANNON.Cylinder);
+  });
+});
@@ -0,0 +1,309 @@
+// --- collectible item catalog ---
+import * as CANNON from 'cannon-es';
+import * as THREE from 'three';
+import { Validator } from './validation';
+import catalogData from './data/items.json';
+
+export const GEOMETRY_KINDS = ['box', 'sphere', 'cone', 'cylinder'] as const;
+export const COLLIDER_SHAPES = ['box', 'sphere', 'cylinder'] as const;
+export const SIZE_CLASSES = ['tiny', 'small', 'medium', 'large', 'huge'] as const;
+export const BEHAVIOR_KINDS = ['wander', 'patrol', 'flee-or-chase'] as const;
+
+export type ColliderShape = (typeof COLLIDER_SHAPES)[number];
+export type SizeClass = (typeof SIZE_CLASSES)[number];
+
+/**
+ * Geometry of an item, all dimensions in meters.
+ */
+export type GeometryDefinition =
+  | { kind: 'box'; width: number; height: number; depth: number }
+  | { kind: 'sphere'; radius: number }
+  | { kind: 'cone'; radius: number; height: number }
+  | { kind: 'cylinder'; radiusTop: number; radiusBottom: number; height: number };
+
+/**
+ * How an item moves about on its own (items without one lie still until the katamari hits them).
+ * Speeds in m/s, distances in meters.
+ * - wander: strolls to random spots within `radius` of where it spawned, resting a little at each
+ * - patrol: walks a loop through `path` (points relative to where it spawned), over and over
+ * - flee-or-chase: once the katamari is within `range`, runs from it if it could be absorbed, charges at it if not
+ */
+export type BehaviorDefinition =
+  | { kind: 'wander'; speed: number; radius: number }
+  | { kind: 'patrol'; speed: number; path: { x: number; z: number }[] }
+  | { kind: 'flee-or-chase'; speed: number; range: number };
+
+export interface MaterialDefinition {
+  color: string; // any css color three.js understands (e.g. "#ff8c00")
+  roughness?: number;
+  metalness?: number;
+}
+
+/**
+ * One kind of collectible item, as written by designers in the catalog json.
+ */
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  geometry: GeometryDefinition;
+  material: MaterialDefinition;
+  collider: ColliderShape;
+  sizeClass: SizeClass;
+  points: number; // score for absorbing one
+  spawnWeight: number; // relative chance of being picked when spawning randomly
+  behavior?: BehaviorDefinition; // moves about on its own (lies still if left out)
+}
+
+export interface ItemCatalog {
+  items: ItemDefinition[];
+}
+
+/**
+ * Validates raw json data (e.g. the contents of items.json) and returns a typed catalog.
+ * Throws a ValidationError listing every problem found.
+ */
+export function parseItemCatalog(data: unknown): ItemCatalog {
+  const v = new Validator();
+  const root = v.object(data, 'catalog');
+  const items = v.array(root.items, 'catalog.items').map((raw, i) => parseItemDefinition(v, raw, `items[${i}]`));
+
+  if (Array.isArray(root.items) && items.length === 0) {
+    v.fail('catalog.items', 'expected at least one item');
+  }
+
+  // ids must be unique (levels and saves refer to items by id)
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (item.id && seen.has(item.id)) v.fail(`items[${i}].id`, `duplicate id "${item.id}"`);
+    seen.add(item.id);
+  });
+
+  v.assertValid('item catalog');
+  return { items };
+}
+
+function parseItemDefinition(v: Validator, raw: unknown, path: string): ItemDefinition {
+  const obj = v.object(raw, path);
+  const material = v.object(obj.material, `${path}.material`);
+
+  return {
+    id: v.string(obj.id, `${path}.id`),
+    name: v.string(obj.name, `${path}.name`),
+    geometry: parseGeometry(v, obj.geometry, `${path}.geometry`),
+    material: {
+      color: v.string(material.color, `${path}.material.color`),
+      ...(material.roughness !== undefined && {
+        roughness: v.number(material.roughness, `${path}.material.roughness`, { min: 0, max: 1 }),
+      }),
+      ...(material.metalness !== undefined && {
+        metalness: v.number(material.metalness, `${path}.material.metalness`, { min: 0, max: 1 }),
+      }),
+    },
+    collider: v.oneOf(obj.collider, `${path}.collider`, COLLIDER_SHAPES),
+    sizeClass: v.oneOf(obj.sizeClass, `${path}.sizeClass`, SIZE_CLASSES),
+    points: v.number(obj.points, `${path}.points`, { min: 0 }),
+    spawnWeight: v.number(obj.spawnWeight, `${path}.spawnWeight`, { min: 0 }),
+    ...(obj.behavior !== undefined && { behavior: parseBehavior(v, obj.behavior, `${path}.behavior`) }),
+  };
+}
+
+function parseBehavior(v: Validator, raw: unknown, path: string): BehaviorDefinition {
+  const obj = v.object(raw, path);
+  const kind = v.oneOf(obj.kind, `${path}.kind`, BEHAVIOR_KINDS);
+  const speed = v.positive(obj.speed, `${path}.speed`);
+
+  switch (kind) {
+    case 'wander':
+      return { kind, speed, radius: v.positive(obj.radius, `${path}.radius`) };
+    case 'patrol': {
+      const points = v.array(obj.path, `${path}.path`).map((raw, i) => {
+        const point = v.object(raw, `${path}.path[${i}]`);
+        return { x: v.number(point.x, `${path}.path[${i}].x`), z: v.number(point.z, `${path}.path[${i}].z`) };
+      });
+      if (Array.isArray(obj.path) && points.length < 2) v.fail(`${path}.path`, 'expected at least two points');
+      return { kind, speed, path: points };
+    }
+    case 'flee-or-chase':
+      return { kind, speed, range: v.positive(obj.range, `${path}.range`) };
+  }
+}
+
+function parseGeometry(v: Validator, raw: unknown, path: string): GeometryDefinition {
+  const obj = v.object(raw, path);
+  const issueCount = v.issues.length;
+  const kind = v.oneOf(obj.kind, `${path}.kind`, GEOMETRY_KINDS);
+
+  // unknown kind -> the dimensions can't be checked, the kind error is enough
+  if (v.issues.length > issueCount) {
+    return { kind: 'box', width: 1, height: 1, depth: 1 };
+  }
+
+  switch (kind) {
+    case 'box':
+      return {
+        kind,
+        width: v.positive(obj.width, `${path}.width`),
+        height: v.positive(obj.height, `${path}.height`),
+        depth: v.positive(obj.depth, `${path}.depth`),
+      };
+    case 'sphere':
+      return { kind, radius: v.positive(obj.radius, `${path}.radius`) };
+    case 'cone':
+      return {
+        kind,
+        radius: v.positive(obj.radius, `${path}.radius`),
+        height: v.positive(obj.height, `${path}.height`),
+      };
+    case 'cylinder':
+      return {
+        kind,
+        radiusTop: v.positive(obj.radiusTop, `${path}.radiusTop`),
+        radiusBottom: v.positive(obj.radiusBottom, `${path}.radiusBottom`),
+        height: v.positive(obj.height, `${path}.height`),
+      };
+  }
+}
+
+/**
+ * Fetches and validates a catalog json file (e.g. for modded or test catalogs).
+ */
+export async function loadItemCatalog(url: string): Promise<ItemCatalog> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load item catalog from ${url}: ${response.status} ${response.statusText}`);
+  }
+  return parseItemCatalog(await response.json());
+}
+
+// the catalog bundled with the game (src/data/items.json)
+export const DEFAULT_ITEM_CATALOG: ItemCatalog = parseItemCatalog(catalogData);
+
+/**
+ * Looks up an item definition by id.
+ */
+export function findItemDefinition(catalog: ItemCatalog, id: string): ItemDefinition | undefined {
+  return catalog.items.find((item) => item.id === id);
+}
+
+/**
+ * Picks a random item definition, weighted by spawnWeight.
+ *
+ * @param random - random number source in [0, 1)
+ */
+export function pickItemDefinition(catalog: ItemCatalog, random: () => number = Math.random): ItemDefinition {
+  const totalWeight = catalog.items.reduce((sum, item) => sum + item.spawnWeight, 0);
+  let roll = random() * totalWeight;
+
+  for (const item of catalog.items) {
+    roll -= item.spawnWeight;
+    if (roll < 0) return item;
+  }
+
+  // rounding leftovers (or all weights 0) -> last item
+  return catalog.items[catalog.items.length - 1]!;
+}
+
+/**
+ * Returns the half extents of the item's bounding box (x, y, z).
+ */
+export function getItemHalfExtents(def: ItemDefinition): CANNON.Vec3 {
+  const geo = def.geometry;
+  switch (geo.kind) {
+    case 'box':
+      return new CANNON.Vec3(geo.width / 2, geo.height / 2, geo.depth / 2);
+    case 'sphere':
+      return new CANNON.Vec3(geo.radius, geo.radius, geo.radius);
+    case 'cone':
+      return new CANNON.Vec3(geo.radius, geo.height / 2, geo.radius);
+    case 'cylinder': {
+      const radius = Math.max(geo.radiusTop, geo.radiusBottom);
+      return new CANNON.Vec3(radius, geo.height / 2, radius);
+    }
+  }
+}
+
+/**
+ * Returns the item's largest dimension in meters (what canAbsorb compares against).
+ */
+export function getItemSize(def: ItemDefinition): number {
+  const half = getItemHalfExtents(def);
+  return 2 * Math.max(half.x, half.y, half.z);
+}
+
+/**
+ * Returns the item's volume in cubic meters (what growth is based on).
+ */
+export function getItemVolume(def: ItemDefinition): number {
+  const geo = def.geometry;
+  switch (geo.kind) {
+    case 'box':
+      return geo.width * geo.height * geo.depth;
+    case 'sphere':
+      return (4 / 3) * Math.PI * geo.radius ** 3;
+    case 'cone':
+      return (Math.PI * geo.radius ** 2 * geo.height) / 3;
+    case 'cylinder':
+      // frustum volume (equal radii -> plain cylinder)
+      return (
+        (Math.PI * geo.height *
+          (geo.radiusTop ** 2 + geo.radiusTop * geo.radiusBottom + geo.radiusBottom ** 2)) / 3
+      );
+  }
+}
+
+/**
+ * Returns the pickup radius for an item.
+ * Slightly smaller than the bounding sphere for forgiving collision.
+ */
+export function getPickupRadius(def: ItemDefinition): number {
+  return getItemHalfExtents(def).length() * 0.9;
+}
+
+/**
+ * Builds the three.js geometry for an item.
+ */
+export function createItemGeometry(def: ItemDefinition): THREE.BufferGeometry {
+  const geo = def.geometry;
+  switch (geo.kind) {
+    case 'box':
+      return new THREE.BoxGeometry(geo.width, geo.height, geo.depth);
+    case 'sphere':
+      return new THREE.SphereGeometry(geo.radius, 16, 16);
+    case 'cone':
+      return new THREE.ConeGeometry(geo.radius, geo.height, 16);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(geo.radiusTop, geo.radiusBottom, geo.height, 16);
+  }
+}
+
+/**
+ * Builds the three.js material for an item.
+ */
+export function createItemMaterial(def: ItemDefinition): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    color: def.material.color,
+    roughness: def.material.roughness ?? 1,
+    metalness: def.material.metalness ?? 0,
+  });
+}
+
+/**
+ * Builds the cannon collider shape for an item.
+ */
+export function createItemShape(def: ItemDefinition): CANNON.Shape {
+  const half = getItemHalfExtents(def);
+  const geo = def.geometry;
+
+  switch (def.collider) {
+    case 'box':
+      return new CANNON.Box(half);
+    case 'sphere':
+      return new CANNON.Sphere(Math.max(half.x, half.y, half.z));
+    case 'cylinder':
+      if (geo.kind === 'cylinder') {
+        return new CANNON.Cylinder(geo.radiusTop, geo.radiusBottom, geo.height, 12);
+      }
+      // cones get a (nearly) pointy top, everything else a straight cylinder around its bounds
+      return new CANNON.Cylinder(geo.kind === 'cone' ? 0.01 : half.x, half.x, half.y * 2, 12);
+  }
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_KEY_BINDINGS,
+  KEY_BINDINGS_STORAGE_KEY,
+  INPUT_ACTIONS,
+  cloneKeyBindings,
+  findActionForKey,
+  findBindingConflict,
+  bindKey,
+  unbindKey,
+  formatKey,
+  describeBinding,
+  isDefaultKeyBindings,
+  getControlHints,
+  parseKeyBindings,
+  loadKeyBindings,
+  saveKeyBindings,
+  resetKeyBindings,
+} from './keyBindings';
+import type { BindingStorage, KeyBindings } from './keyBindings';
+import { ValidationError } from './validation';
+
+// in-memory stand-in for localStorage
+function makeStorage(initial: Record<string, string> = {}): BindingStorage & { data: Record<string, string> } {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: (key) => data[key] ?? null,
+    setItem: (key, value) => {
+      data[key] = value;
+    },
+    removeItem: (key) => {
+      delete data[key];
+    },
+  };
+}
+
+describe('Key bindings', () => {
+  let bindings: KeyBindings;
+
+  beforeEach(() => {
+    bindings = cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+  });
+
+  describe('defaults', () => {
+    it('should bind every action', () => {
+      INPUT_ACTIONS.forEach((action) => {
+        expect(DEFAULT_KEY_BINDINGS[action].length).toBeGreaterThan(0);
+      });
+    });
+
+    it('should keep WASD and the arrow keys for movement', () => {
+      expect(findActionForKey(bindings, 'w')).toBe('moveUp');
+      expect(findActionForKey(bindings, 'ArrowUp')).toBe('moveUp');
+      expect(findActionForKey(bindings, 'ArrowRight')).toBe('moveRight');
+      expect(findActionForKey(bindings, 'Escape')).toBe('pause');
+    });
+  });
+
+  describe('findActionForKey', () => {
+    it('should ignore case', () => {
+      expect(findActionForKey(bindings, 'W')).toBe('moveUp');
+    });
+
+    it('should return undefined for unbound keys', () => {
+      expect(findActionForKey(bindings, 'z')).toBeUndefined();
+    });
+  });
+
+  describe('findBindingConflict', () => {
+    it('should report the action that already uses a key', () => {
+      expect(findBindingConflict(bindings, 'respawn', 'w')).toBe('moveUp');
+    });
+
+    it('should not report free keys or keys already on the same action', () => {
+      expect(findBindingConflict(bindings, 'respawn', 'z')).toBeNull();
+      expect(findBindingConflict(bindings, 'moveUp', 'arrowup')).toBeNull();
+    });
+  });
+
+  describe('bindKey', () => {
+    it('should replace the key in the given slot', () => {
+      const next = bindKey(bindings, 'moveUp', 'I', 0);
+
+      expect(next.moveUp).toEqual(['i', 'arrowup']);
+    });
+
+    it('should add a key when the slot is past the end', () => {
+      const next = bindKey(bindings, 'respawn', 'Backspace', 1);
+
+      expect(next.respawn).toEqual(['r', 'backspace']);
+    });
+
+    it('should take the key away from the action that had it', () => {
+      const next = bindKey(bindings, 'respawn', 'w', 0);
+
+      expect(next.respawn).toEqual(['w']);
+      expect(next.moveUp).toEqual(['arrowup']);
+      expect(findActionForKey(next, 'w')).toBe('respawn');
+    });
+
+    it('should not bind the same key twice to one action', () => {
+      const next = bindKey(bindings, 'moveUp', 'arrowup', 2);
+
+      expect(next.moveUp).toEqual(['w', 'arrowup']);
+    });
+
+    it('should leave the original bindings alone', () => {
+      bindKey(bindings, 'moveUp', 'i', 0);
+
+      expect(bindings.moveUp).toEqual(['w', 'arrowup']);
+    });
+  });
+
+  describe('unbindKey', () => {
+    it('should remove one key from an action', () => {
+      const next = unbindKey(bindings, 'pause', 0);
+
+      expect(next.pause).toEqual(['p']);
+      expect(bindings.pause).toEqual(['escape', 'p']);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should show keys the way they read on the keyboard', () => {
+      expect(formatKey('w')).toBe('W');
+      expect(formatKey('arrowleft')).toBe('←');
+      expect(formatKey('escape')).toBe('Esc');
+      expect(formatKey(' ')).toBe('Space');
+      expect(formatKey('backspace')).toBe('Backspace');
+    });
+
+    it('should list all keys of an action', () => {
+      expect(describeBinding(bindings, 'pause')).toBe('Esc or P');
+      expect(describeBinding(unbindKey(bindings, 'respawn', 0), 'respawn')).toBe('unbound');
+    });
+
+    it('should build hints from the active bindings', () => {
+      expect(getControlHints(bindings)).toContain('Use W, A, S, D to move');
+      expect(getControlHints(bindings)).toContain('Press R to respawn items');
+
+      const remapped = bindKey(bindKey(bindings, 'moveUp', 'i', 0), 'respawn', 'x', 0);
+      expect(getControlHints(remapped)).toContain('Use I, A, S, D to move');
+      expect(getControlHints(remapped)).toContain('Press X to respawn items');
+    });
+
+    it('should leave out hints for unbound actions', () => {
+      const noRespawn = unbindKey(bindings, 'respawn', 0);
+
+      expect(getControlHints(noRespawn).some((hint) => hint.includes('respawn'))).toBe(false);
+    });
+  });
+
+  describe('parseKeyBindings', () => {
+    it('should accept saved bindings', () => {
+      const next = bindKey(bindings, 'moveUp', 'i', 0);
+
+      expect(parseKeyBindings(JSON.parse(JSON.stringify(next)))).toEqual(next);
+    });
+
+    it('should fill in actions missing from old saves', () => {
+      const parsed = parseKeyBindings({ moveUp: ['i'] });
+
+      expect(parsed.moveUp).toEqual(['i']);
+      expect(parsed.respawn).toEqual(DEFAULT_KEY_BINDINGS.respawn);
+    });
+
+    it('should reject malformed data', () => {
+      expect(() => parseKeyBindings({ moveUp: 'w' })).toThrow(ValidationError);
+      expect(() => parseKeyBindings({ moveUp: [1] })).toThrow(ValidationError);
+      expect(() => parseKeyBindings([])).toThrow(ValidationError);
+    });
+
+    it('should reject a key bound to two actions', () => {
+      expect(() => parseKeyBindings({ moveUp: ['r'] })).toThrow(/already bound/);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should load the defaults when nothing is saved', () => {
+      expect(loadKeyBindings(makeStorage())).toEqual(DEFAULT_KEY_BINDINGS);
+    });
+
+    it('should round-trip saved bindings', () => {
+      const storage = makeStorage();
+      const next = bindKey(bindings, 'pause', 'tab', 2);
+
+      saveKeyBindings(storage, next);
+
+      expect(loadKeyBindings(storage)).toEqual(next);
+    });
+
+    it('should fall back to the defaults for unreadable saves', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(loadKeyBindings(makeStorage({ [KEY_BINDINGS_STORAGE_KEY]: '{not json' }))).toEqual(DEFAULT_KEY_BINDINGS);
+      expect(loadKeyBindings(makeStorage({ [KEY_BINDINGS_STORAGE_KEY]: '{"moveUp": 5}' }))).toEqual(DEFAULT_KEY_BINDINGS);
+      expect(warn).toHaveBeenCalledTimes(2);
+
+      warn.mockRestore();
+    });
+
+    it('should forget saved bindings on reset', () => {
+      const storage = makeStorage();
+      saveKeyBindings(storage, bindKey(bindings, 'moveUp', 'i', 0));
+
+      expect(resetKeyBindings(storage)).toEqual(DEFAULT_KEY_BINDINGS);
+      expect(storage.data[KEY_BINDINGS_STORAGE_KEY]).toBeUndefined();
+    });
+
+    it('should stay forgotten when the reset bindings are saved again', () => {
+      // useKeyBindings saves every change, the reset included
+      const storage = makeStorage();
+      saveKeyBindings(storage, bindKey(bindings, 'moveUp', 'i', 0));
+
+      saveKeyBindings(storage, resetKeyBindings(storage));
+
+      expect(storage.data[KEY_BINDINGS_STORAGE_KEY]).toBeUndefined();
+      expect(isDefaultKeyBindings(DEFAULT_KEY_BINDINGS)).toBe(true);
+      expect(isDefaultKeyBindings(bindKey(bindings, 'pause', 'tab', 2))).toBe(false);
+    });
+  });
+});
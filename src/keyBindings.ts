@@ -0,0 +1,251 @@
+// --- rebindable keyboard controls ---
+import { Validator } from './validation';
+
+/**
+ * Things the player can do with the keyboard. Keys are bound to actions, never
+ * checked directly, so every control can be remapped.
+ */
+export const INPUT_ACTIONS = [
+  'moveUp',
+  'moveDown',
+  'moveLeft',
+  'moveRight',
+  'respawn',
+  'pause',
+  'cameraLeft',
+  'cameraRight',
+  'toggleDebug',
+] as const;
+
+export type InputAction = (typeof INPUT_ACTIONS)[number];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  respawn: 'Respawn items',
+  pause: 'Pause',
+  cameraLeft: 'Turn camera left',
+  cameraRight: 'Turn camera right',
+  toggleDebug: 'Dev overlay',
+};
+
+/**
+ * Keys bound to each action (KeyboardEvent.key, lowercased). An action can have any number of keys,
+ * a key belongs to at most one action.
+ */
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveUp: ['w', 'arrowup'],
+  moveDown: ['s', 'arrowdown'],
+  moveLeft: ['a', 'arrowleft'],
+  moveRight: ['d', 'arrowright'],
+  respawn: ['r'],
+  pause: ['escape', 'p'],
+  cameraLeft: ['q'],
+  cameraRight: ['e'],
+  toggleDebug: ['`', 'f3'],
+};
+
+// localStorage key the player's bindings are saved under
+export const KEY_BINDINGS_STORAGE_KEY = 'katamari.keyBindings';
+
+/**
+ * Returns a copy of the bindings (safe to change without touching the original).
+ */
+export function cloneKeyBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  INPUT_ACTIONS.forEach((action) => {
+    copy[action] = [...bindings[action]];
+  });
+  return copy;
+}
+
+/**
+ * Normalizes a KeyboardEvent.key for binding lookups ('W' and 'w' are the same key).
+ */
+export function normalizeKey(key: string): string {
+  return key.toLowerCase();
+}
+
+/**
+ * Returns the action a key is bound to (undefined if it isn't bound).
+ */
+export function findActionForKey(bindings: KeyBindings, key: string): InputAction | undefined {
+  const normalized = normalizeKey(key);
+  return INPUT_ACTIONS.find((action) => bindings[action].includes(normalized));
+}
+
+/**
+ * Returns the other action that already uses a key (null if the key is free or already bound to this action).
+ */
+export function findBindingConflict(bindings: KeyBindings, action: InputAction, key: string): InputAction | null {
+  const owner = findActionForKey(bindings, key);
+  return owner && owner !== action ? owner : null;
+}
+
+/**
+ * Binds a key to an action and returns the new bindings.
+ * - slot: which of the action's keys to replace (appended when past the end)
+ * - the key is taken away from any other action that had it (callers ask the player first)
+ */
+export function bindKey(bindings: KeyBindings, action: InputAction, key: string, slot: number): KeyBindings {
+  const normalized = normalizeKey(key);
+  const next = cloneKeyBindings(bindings);
+
+  INPUT_ACTIONS.forEach((other) => {
+    if (other !== action) next[other] = next[other].filter((bound) => bound !== normalized);
+  });
+
+  const keys = next[action];
+  if (slot < keys.length) {
+    keys[slot] = normalized;
+  } else {
+    keys.push(normalized);
+  }
+  // the same key twice on one action is pointless
+  next[action] = keys.filter((bound, index) => keys.indexOf(bound) === index);
+  return next;
+}
+
+/**
+ * Removes one of an action's keys and returns the new bindings.
+ */
+export function unbindKey(bindings: KeyBindings, action: InputAction, slot: number): KeyBindings {
+  const next = cloneKeyBindings(bindings);
+  next[action].splice(slot, 1);
+  return next;
+}
+
+// readable names for keys whose KeyboardEvent.key isn't nice to show
+const KEY_NAMES: Record<string, string> = {
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  escape: 'Esc',
+  ' ': 'Space',
+};
+
+/**
+ * Returns how a key is shown to the player ('w' -> 'W', 'arrowup' -> '↑', 'escape' -> 'Esc').
+ */
+export function formatKey(key: string): string {
+  const named = KEY_NAMES[key];
+  if (named) return named;
+  return key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+/**
+ * Returns the keys bound to an action for display ('Esc or P'), or 'unbound'.
+ */
+export function describeBinding(bindings: KeyBindings, action: InputAction): string {
+  const keys = bindings[action];
+  return keys.length > 0 ? keys.map(formatKey).join(' or ') : 'unbound';
+}
+
+/**
+ * Builds the on-screen control hints from the active bindings.
+ * Movement uses the first key of each direction ('Use W, A, S, D to move').
+ */
+export function getControlHints(bindings: KeyBindings): string[] {
+  const moveKeys = (['moveUp', 'moveLeft', 'moveDown', 'moveRight'] as const)
+    .map((action) => bindings[action][0])
+    .filter((key) => key !== undefined)
+    .map(formatKey);
+
+  const hints: string[] = [];
+  if (moveKeys.length > 0) hints.push(`Use ${moveKeys.join(', ')} to move`);
+  if (bindings.cameraLeft.length > 0 || bindings.cameraRight.length > 0) {
+    hints.push(
+      `Press ${describeBinding(bindings, 'cameraLeft')} / ${describeBinding(bindings, 'cameraRight')} to turn the camera`
+    );
+  }
+  if (bindings.respawn.length > 0) hints.push(`Press ${describeBinding(bindings, 'respawn')} to respawn items`);
+  if (bindings.pause.length > 0) hints.push(`Press ${describeBinding(bindings, 'pause')} to pause`);
+  return hints;
+}
+
+/**
+ * Validates raw json data (e.g. saved bindings) and returns typed bindings.
+ * Actions missing from the data (saved before they existed) get their default keys.
+ * Throws a ValidationError listing every problem found.
+ */
+export function parseKeyBindings(data: unknown): KeyBindings {
+  const v = new Validator();
+  const root = v.object(data, 'bindings');
+  const bindings = cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+
+  INPUT_ACTIONS.forEach((action) => {
+    if (root[action] === undefined) return;
+    bindings[action] = v
+      .array(root[action], action)
+      .map((key, i) => normalizeKey(v.string(key, `${action}[${i}]`)));
+  });
+
+  // a key on two actions would trigger both
+  const seen = new Map<string, InputAction>();
+  INPUT_ACTIONS.forEach((action) => {
+    bindings[action].forEach((key) => {
+      const owner = seen.get(key);
+      if (owner && owner !== action) v.fail(action, `key "${key}" is already bound to ${owner}`);
+      seen.set(key, action);
+    });
+  });
+
+  v.assertValid('key bindings');
+  return bindings;
+}
+
+// the part of localStorage bindings need (easy to fake in tests)
+export type BindingStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Loads the player's bindings. Falls back to the defaults when nothing is saved
+ * or the saved data is unreadable (a broken save shouldn't lock anyone out of the game).
+ */
+export function loadKeyBindings(storage: BindingStorage): KeyBindings {
+  const saved = storage.getItem(KEY_BINDINGS_STORAGE_KEY);
+  if (saved === null) return cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+
+  try {
+    return parseKeyBindings(JSON.parse(saved));
+  } catch (error) {
+    console.warn('Ignoring saved key bindings:', error);
+    return cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+  }
+}
+
+/**
+ * Returns whether the bindings are exactly the default ones (same keys, same order).
+ */
+export function isDefaultKeyBindings(bindings: KeyBindings): boolean {
+  return INPUT_ACTIONS.every((action) => {
+    const keys = bindings[action];
+    const defaults = DEFAULT_KEY_BINDINGS[action];
+    return keys.length === defaults.length && keys.every((key, i) => key === defaults[i]);
+  });
+}
+
+/**
+ * Saves the player's bindings.
+ * The defaults aren't saved (the saved entry is removed instead), so players who never
+ * changed a key, or reset them, pick up changes to the default keys.
+ */
+export function saveKeyBindings(storage: BindingStorage, bindings: KeyBindings): void {
+  if (isDefaultKeyBindings(bindings)) {
+    storage.removeItem(KEY_BINDINGS_STORAGE_KEY);
+    return;
+  }
+  storage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+}
+
+/**
+ * Forgets the player's bindings and returns the defaults.
+ */
+export function resetKeyBindings(storage: BindingStorage): KeyBindings {
+  storage.removeItem(KEY_BINDINGS_STORAGE_KEY);
+  return cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+}
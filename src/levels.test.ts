@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseLevel,
+  isInArea,
+  getZoneItemCount,
+  getZoneCatalog,
+  findLevel,
+  BUNDLED_LEVELS,
+  LEVEL_FORMAT_VERSION,
+  DEFAULT_KILL_HEIGHT,
+  WALL_THICKNESS,
+  DEFAULT_TERRAIN_SCALE,
+} from './levels';
+import type { SpawnZone } from './levels';
+import { DEFAULT_ITEM_CATALOG } from './itemCatalog';
+import { ValidationError } from './validation';
+
+function makeLevelData(): Record<string, unknown> {
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    id: 'test',
+    name: 'Test Level',
+    bounds: { minX: -50, maxX: 50, minZ: -50, maxZ: 50 },
+    ground: { width: 100, depth: 100 },
+    spawn: { x: 0, y: 5, z: 0 },
+    items: [{ type: 'crate', x: 10, z: -10, rotationY: 0.5 }],
+    spawnZones: [{ minX: -20, maxX: 20, minZ: -20, maxZ: 20, density: 1, types: ['die'] }],
+    goalSize: 2,
+    timeLimit: 120,
+  };
+}
+
+function issuesOf(data: unknown): string[] {
+  try {
+    parseLevel(data);
+  } catch (error) {
+    if (error instanceof ValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('Level parsing', () => {
+  it('should parse a valid level', () => {
+    const level = parseLevel(makeLevelData());
+
+    expect(level.id).toBe('test');
+    expect(level.spawn).toEqual({ x: 0, y: 5, z: 0 });
+    expect(level.items).toEqual([{ type: 'crate', x: 10, z: -10, rotationY: 0.5 }]);
+    expect(level.spawnZones[0]?.types).toEqual(['die']);
+    expect(level.goalSize).toBe(2);
+    expect(level.timeLimit).toBe(120);
+  });
+
+  it('should default optional fields', () => {
+    const data = makeLevelData();
+    data.items = [{ type: 'crate', x: 0, z: 0 }];
+    delete data.spawnZones;
+
+    const level = parseLevel(data);
+
+    expect(level.items[0]?.rotationY).toBe(0);
+    expect(level.spawnZones).toEqual([]);
+    expect(level.obstacles).toEqual([]);
+    expect(level.fence).toBeUndefined();
+    expect(level.killHeight).toBe(DEFAULT_KILL_HEIGHT);
+    expect(level.terrain).toBeUndefined();
+  });
+
+  it('should parse terrain', () => {
+    const noise = parseLevel({ ...makeLevelData(), terrain: { source: 'noise', height: 4, seed: 12 } });
+    const image = parseLevel({ ...makeLevelData(), terrain: { source: 'image', height: 6, image: 'hills' } });
+
+    expect(noise.terrain).toEqual({ source: 'noise', height: 4, seed: 12, scale: DEFAULT_TERRAIN_SCALE });
+    expect(image.terrain).toEqual({ source: 'image', height: 6, image: 'hills' });
+  });
+
+  it('should reject bad terrain', () => {
+    expect(issuesOf({ ...makeLevelData(), terrain: { source: 'image', height: 0, image: 'mountains' } })).toEqual([
+      'terrain.height: expected a positive number, got 0',
+      'terrain.image: unknown heightmap image "mountains"',
+    ]);
+    expect(issuesOf({ ...makeLevelData(), terrain: { source: 'noise', height: 2 } })).toEqual([
+      'terrain.seed: expected a number',
+    ]);
+  });
+
+  it('should parse obstacles and the fence', () => {
+    const data = makeLevelData();
+    data.obstacles = [
+      { kind: 'wall', x: 0, z: 20, width: 10, height: 2 },
+      { kind: 'steps', x: -10, z: 0, width: 6, depth: 4, height: 2, steps: 3, rotationY: 1, color: '#ff0000' },
+    ];
+    data.fence = { height: 3 };
+    data.killHeight = -5;
+
+    const level = parseLevel(data);
+
+    expect(level.obstacles).toEqual([
+      { kind: 'wall', x: 0, z: 20, width: 10, depth: WALL_THICKNESS, height: 2, rotationY: 0, steps: 1 },
+      { kind: 'steps', x: -10, z: 0, width: 6, depth: 4, height: 2, rotationY: 1, steps: 3, color: '#ff0000' },
+    ]);
+    expect(level.fence).toEqual({ height: 3 });
+    expect(level.killHeight).toBe(-5);
+  });
+
+  it('should reject bad obstacles', () => {
+    const data = makeLevelData();
+    data.obstacles = [
+      { kind: 'tunnel', x: 0, z: 0, width: 1, depth: 1, height: 1 },
+      { kind: 'box', x: 0, z: 0, width: 1, height: 1, steps: 2 },
+      { kind: 'steps', x: 0, z: 80, width: 1, depth: 1, height: 1, steps: 2.5 },
+    ];
+
+    expect(issuesOf(data)).toEqual([
+      'obstacles[0].kind: expected one of "box", "wall", "ramp", "steps", got "tunnel"',
+      'obstacles[1].depth: expected a number',
+      'obstacles[1].steps: only steps have a number of steps',
+      'obstacles[2].steps: expected a whole number, got 2.5',
+      'obstacles[2]: obstacle is outside the level bounds',
+    ]);
+  });
+
+  it('should reject kill heights above the ground', () => {
+    const data = { ...makeLevelData(), killHeight: 0 };
+
+    expect(issuesOf(data)).toEqual(['killHeight: expected a height below the ground (0), got 0']);
+  });
+
+  it('should parse every bundled level', () => {
+    expect(BUNDLED_LEVELS.length).toBeGreaterThan(0);
+    expect(findLevel('park')?.name).toBe('The Park');
+    expect(findLevel('missing')).toBeUndefined();
+  });
+
+  it('should reject unsupported format versions', () => {
+    const data = { ...makeLevelData(), version: 99 };
+
+    expect(() => parseLevel(data)).toThrow(/unsupported level format version 99/);
+  });
+
+  it('should reject data that is not an object', () => {
+    expect(issuesOf('park')).toContain('level: expected an object');
+  });
+
+  it('should report missing fields with their path', () => {
+    const data = makeLevelData();
+    delete data.goalSize;
+    delete data.ground;
+
+    const issues = issuesOf(data);
+
+    expect(issues).toContain('ground: expected an object');
+    expect(issues).toContain('goalSize: expected a number');
+  });
+
+  it('should reject unknown item types', () => {
+    const data = makeLevelData();
+    data.items = [{ type: 'spaceship', x: 0, z: 0 }];
+    data.spawnZones = [{ minX: -1, maxX: 1, minZ: -1, maxZ: 1, density: 1, types: ['ufo'] }];
+
+    expect(issuesOf(data)).toEqual([
+      'items[0].type: unknown item type "spaceship"',
+      'spawnZones[0].types[0]: unknown item type "ufo"',
+    ]);
+  });
+
+  it('should reject inverted bounds', () => {
+    const data = { ...makeLevelData(), bounds: { minX: 10, maxX: -10, minZ: -10, maxZ: 10 } };
+
+    expect(issuesOf(data)).toContain('bounds: minX must be smaller than maxX');
+  });
+
+  it('should reject things placed outside the bounds', () => {
+    const data = makeLevelData();
+    data.spawn = { x: 100, y: 5, z: 0 };
+    data.items = [{ type: 'crate', x: 0, z: -80 }];
+    data.spawnZones = [{ minX: -60, maxX: 0, minZ: 0, maxZ: 10, density: 1 }];
+
+    expect(issuesOf(data)).toEqual([
+      'spawn: katamari spawn point is outside the level bounds',
+      'items[0]: item is outside the level bounds',
+      'spawnZones[0]: spawn zone reaches outside the level bounds',
+    ]);
+  });
+
+  it('should reject goals the katamari already meets', () => {
+    const data = { ...makeLevelData(), goalSize: 1 };
+
+    expect(issuesOf(data)[0]).toMatch(/^goalSize: expected a size bigger than the starting size/);
+  });
+
+  it('should reject negative densities and non-positive time limits', () => {
+    const data = makeLevelData();
+    data.spawnZones = [{ minX: -1, maxX: 1, minZ: -1, maxZ: 1, density: -1 }];
+    data.timeLimit = 0;
+
+    expect(issuesOf(data)).toEqual([
+      'spawnZones[0].density: expected a number >= 0, got -1',
+      'timeLimit: expected a positive number, got 0',
+    ]);
+  });
+
+  it('should list all problems in the error message', () => {
+    const data = { ...makeLevelData(), name: '', timeLimit: 'soon' };
+
+    expect(() => parseLevel(data)).toThrow(/Invalid level "test":\n {2}- name: .*\n {2}- timeLimit: /);
+  });
+});
+
+describe('Level helpers', () => {
+  const zone: SpawnZone = { minX: -50, maxX: 50, minZ: -25, maxZ: 25, density: 0.5 };
+
+  it('should check if points are inside an area', () => {
+    expect(isInArea(zone, 0, 0)).toBe(true);
+    expect(isInArea(zone, 50, 25)).toBe(true);
+    expect(isInArea(zone, 0, 30)).toBe(false);
+  });
+
+  it('should work out zone item counts from density', () => {
+    // 100m x 50m = 5000 m², 0.5 per 100 m² = 25 items
+    expect(getZoneItemCount(zone)).toBe(25);
+    expect(getZoneItemCount({ ...zone, density: 0 })).toBe(0);
+  });
+
+  it('should narrow the catalog to the zone item types', () => {
+    expect(getZoneCatalog(zone, DEFAULT_ITEM_CATALOG)).toBe(DEFAULT_ITEM_CATALOG);
+
+    const narrowed = getZoneCatalog({ ...zone, types: ['die', 'candy'] }, DEFAULT_ITEM_CATALOG);
+    expect(narrowed.items.map((item) => item.id)).toEqual(['die', 'candy']);
+  });
+});
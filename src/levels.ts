@@ -0,0 +1,330 @@
+// --- level format and loading ---
+import { Validator, ValidationError } from './validation';
+import { DEFAULT_ITEM_CATALOG, findItemDefinition } from './itemCatalog';
+import { BUNDLED_HEIGHTMAPS } from './heightmap';
+import type { ItemCatalog } from './itemCatalog';
+import parkData from './data/levels/park.json';
+import playroomData from './data/levels/playroom.json';
+import hillsData from './data/levels/hills.json';
+
+// bump when the level format changes in a way old files can't be read as-is
+export const LEVEL_FORMAT_VERSION = 1;
+
+// the katamari always starts at 1m, so goals have to be bigger than that
+export const STARTING_KATAMARI_SIZE = 1;
+
+// how far below the ground the katamari can fall before it's put back at the spawn point (m)
+export const DEFAULT_KILL_HEIGHT = -20;
+
+// walls are this thick (m) unless the level says otherwise
+export const WALL_THICKNESS = 0.5;
+
+export const OBSTACLE_KINDS = ['box', 'wall', 'ramp', 'steps'] as const;
+
+export type ObstacleKind = (typeof OBSTACLE_KINDS)[number];
+
+export const TERRAIN_SOURCES = ['noise', 'image'] as const;
+
+// noise terrain hills are about this wide (m) unless the level says otherwise
+export const DEFAULT_TERRAIN_SCALE = 40;
+
+export interface Vec3Definition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Axis-aligned rectangle on the ground (x/z plane), in meters.
+ */
+export interface AreaDefinition {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/**
+ * An item placed at a fixed spot by the level designer.
+ */
+export interface ItemPlacement {
+  type: string; // catalog item id
+  x: number;
+  z: number;
+  rotationY: number; // radians
+}
+
+/**
+ * An area filled with random items when the level starts.
+ */
+export interface SpawnZone extends AreaDefinition {
+  density: number; // items per 100 m²
+  types?: string[]; // catalog item ids allowed in this zone (all items if left out)
+}
+
+/**
+ * A piece of static level geometry standing on the ground, in meters.
+ * Ramps and steps rise along the width (from -x to +x before the rotation).
+ */
+export interface ObstacleDefinition {
+  kind: ObstacleKind;
+  x: number; // center on the ground
+  z: number;
+  width: number; // along x (before rotation)
+  depth: number; // along z (before rotation)
+  height: number; // top of the box / wall / ramp / last step
+  rotationY: number; // radians
+  steps: number; // number of steps (steps only, 1 for everything else)
+  color?: string; // any css color three.js understands (a default per kind if left out)
+}
+
+/**
+ * Walls all the way round the playable area.
+ */
+export interface FenceDefinition {
+  height: number;
+}
+
+/**
+ * Hills instead of flat ground, from 0 up to `height` meters.
+ * - noise: generated from a seed (the same seed always gives the same hills)
+ * - image: a grayscale heightmap bundled with the game (src/data/heightmaps), stretched over the ground
+ */
+export type TerrainDefinition =
+  | { source: 'noise'; height: number; seed: number; scale: number }
+  | { source: 'image'; height: number; image: string };
+
+export interface Level {
+  version: number;
+  id: string;
+  name: string;
+  bounds: AreaDefinition; // playable area
+  ground: { width: number; depth: number }; // size of the visible ground, centered on the origin
+  spawn: Vec3Definition; // where the katamari starts
+  items: ItemPlacement[];
+  spawnZones: SpawnZone[];
+  obstacles: ObstacleDefinition[]; // static level geometry (walls, boxes, ramps, steps)
+  fence?: FenceDefinition; // walls round the bounds (none if left out)
+  terrain?: TerrainDefinition; // hills (flat ground if left out)
+  killHeight: number; // the katamari respawns if it falls below this height
+  goalSize: number; // katamari size (m) needed to win
+  timeLimit: number; // seconds
+}
+
+/**
+ * Validates raw json data (e.g. the contents of a level file) and returns a typed level.
+ * Item types are checked against the catalog, so a level can't refer to items that don't exist.
+ * Throws a ValidationError listing every problem found.
+ */
+export function parseLevel(data: unknown, catalog: ItemCatalog = DEFAULT_ITEM_CATALOG): Level {
+  const v = new Validator();
+  const root = v.object(data, 'level');
+
+  const version = v.number(root.version, 'version');
+  if (typeof root.version === 'number' && version !== LEVEL_FORMAT_VERSION) {
+    // no point checking the rest, the layout may be completely different
+    throw new ValidationError('level', [
+      `version: unsupported level format version ${version} (expected ${LEVEL_FORMAT_VERSION})`,
+    ]);
+  }
+
+  const bounds = parseArea(v, root.bounds, 'bounds');
+  const groundRaw = v.object(root.ground, 'ground');
+  const spawnRaw = v.object(root.spawn, 'spawn');
+
+  const level: Level = {
+    version,
+    id: v.string(root.id, 'id'),
+    name: v.string(root.name, 'name'),
+    bounds,
+    ground: {
+      width: v.positive(groundRaw.width, 'ground.width'),
+      depth: v.positive(groundRaw.depth, 'ground.depth'),
+    },
+    spawn: {
+      x: v.number(spawnRaw.x, 'spawn.x'),
+      y: v.number(spawnRaw.y, 'spawn.y', { min: 0 }),
+      z: v.number(spawnRaw.z, 'spawn.z'),
+    },
+    items: v.array(root.items ?? [], 'items').map((raw, i) => parsePlacement(v, raw, `items[${i}]`, catalog)),
+    spawnZones: v
+      .array(root.spawnZones ?? [], 'spawnZones')
+      .map((raw, i) => parseSpawnZone(v, raw, `spawnZones[${i}]`, catalog)),
+    obstacles: v.array(root.obstacles ?? [], 'obstacles').map((raw, i) => parseObstacle(v, raw, `obstacles[${i}]`)),
+    killHeight: root.killHeight === undefined ? DEFAULT_KILL_HEIGHT : v.number(root.killHeight, 'killHeight'),
+    goalSize: v.number(root.goalSize, 'goalSize'),
+    timeLimit: v.positive(root.timeLimit, 'timeLimit'),
+  };
+
+  if (root.fence !== undefined) {
+    const fence = v.object(root.fence, 'fence');
+    level.fence = { height: v.positive(fence.height, 'fence.height') };
+  }
+
+  if (root.terrain !== undefined) level.terrain = parseTerrain(v, root.terrain, 'terrain');
+
+  if (level.killHeight >= 0) {
+    v.fail('killHeight', `expected a height below the ground (0), got ${level.killHeight}`);
+  }
+
+  if (typeof root.goalSize === 'number' && level.goalSize <= STARTING_KATAMARI_SIZE) {
+    v.fail('goalSize', `expected a size bigger than the starting size (${STARTING_KATAMARI_SIZE}m), got ${level.goalSize}`);
+  }
+
+  // everything has to start inside the playable area
+  if (!isInArea(bounds, level.spawn.x, level.spawn.z)) {
+    v.fail('spawn', 'katamari spawn point is outside the level bounds');
+  }
+  level.items.forEach((item, i) => {
+    if (!isInArea(bounds, item.x, item.z)) v.fail(`items[${i}]`, 'item is outside the level bounds');
+  });
+  level.obstacles.forEach((obstacle, i) => {
+    if (!isInArea(bounds, obstacle.x, obstacle.z)) v.fail(`obstacles[${i}]`, 'obstacle is outside the level bounds');
+  });
+  level.spawnZones.forEach((zone, i) => {
+    if (zone.minX < bounds.minX || zone.maxX > bounds.maxX || zone.minZ < bounds.minZ || zone.maxZ > bounds.maxZ) {
+      v.fail(`spawnZones[${i}]`, 'spawn zone reaches outside the level bounds');
+    }
+  });
+
+  v.assertValid(`level${level.id ? ` "${level.id}"` : ''}`);
+  return level;
+}
+
+function parseArea(v: Validator, raw: unknown, path: string): AreaDefinition {
+  const obj = v.object(raw, path);
+  const area = {
+    minX: v.number(obj.minX, `${path}.minX`),
+    maxX: v.number(obj.maxX, `${path}.maxX`),
+    minZ: v.number(obj.minZ, `${path}.minZ`),
+    maxZ: v.number(obj.maxZ, `${path}.maxZ`),
+  };
+
+  if (area.minX >= area.maxX) v.fail(path, 'minX must be smaller than maxX');
+  if (area.minZ >= area.maxZ) v.fail(path, 'minZ must be smaller than maxZ');
+  return area;
+}
+
+function parseItemType(v: Validator, raw: unknown, path: string, catalog: ItemCatalog): string {
+  const type = v.string(raw, path);
+  if (type && !findItemDefinition(catalog, type)) {
+    v.fail(path, `unknown item type "${type}"`);
+  }
+  return type;
+}
+
+function parsePlacement(v: Validator, raw: unknown, path: string, catalog: ItemCatalog): ItemPlacement {
+  const obj = v.object(raw, path);
+  return {
+    type: parseItemType(v, obj.type, `${path}.type`, catalog),
+    x: v.number(obj.x, `${path}.x`),
+    z: v.number(obj.z, `${path}.z`),
+    rotationY: obj.rotationY === undefined ? 0 : v.number(obj.rotationY, `${path}.rotationY`),
+  };
+}
+
+function parseSpawnZone(v: Validator, raw: unknown, path: string, catalog: ItemCatalog): SpawnZone {
+  const obj = v.object(raw, path);
+  const zone: SpawnZone = {
+    ...parseArea(v, obj, path),
+    density: v.number(obj.density, `${path}.density`, { min: 0 }),
+  };
+
+  if (obj.types !== undefined) {
+    zone.types = v.array(obj.types, `${path}.types`).map((type, i) => parseItemType(v, type, `${path}.types[${i}]`, catalog));
+    if (zone.types.length === 0) v.fail(`${path}.types`, 'expected at least one item type (leave it out to allow all)');
+  }
+  return zone;
+}
+
+function parseTerrain(v: Validator, raw: unknown, path: string): TerrainDefinition {
+  const obj = v.object(raw, path);
+  const source = v.oneOf(obj.source, `${path}.source`, TERRAIN_SOURCES);
+  const height = v.positive(obj.height, `${path}.height`);
+
+  if (source === 'image') {
+    const image = v.string(obj.image, `${path}.image`);
+    if (image && !BUNDLED_HEIGHTMAPS[image]) v.fail(`${path}.image`, `unknown heightmap image "${image}"`);
+    return { source, height, image };
+  }
+
+  return {
+    source,
+    height,
+    seed: v.number(obj.seed, `${path}.seed`),
+    scale: obj.scale === undefined ? DEFAULT_TERRAIN_SCALE : v.positive(obj.scale, `${path}.scale`),
+  };
+}
+
+function parseObstacle(v: Validator, raw: unknown, path: string): ObstacleDefinition {
+  const obj = v.object(raw, path);
+  const kind = v.oneOf(obj.kind, `${path}.kind`, OBSTACLE_KINDS);
+  const obstacle: ObstacleDefinition = {
+    kind,
+    x: v.number(obj.x, `${path}.x`),
+    z: v.number(obj.z, `${path}.z`),
+    width: v.positive(obj.width, `${path}.width`),
+    // walls only need a length and a height
+    depth: kind === 'wall' && obj.depth === undefined ? WALL_THICKNESS : v.positive(obj.depth, `${path}.depth`),
+    height: v.positive(obj.height, `${path}.height`),
+    rotationY: obj.rotationY === undefined ? 0 : v.number(obj.rotationY, `${path}.rotationY`),
+    steps: 1,
+  };
+
+  if (kind === 'steps') {
+    obstacle.steps = v.number(obj.steps, `${path}.steps`, { min: 1 });
+    if (!Number.isInteger(obstacle.steps)) {
+      v.fail(`${path}.steps`, `expected a whole number, got ${obstacle.steps}`);
+      obstacle.steps = 1;
+    }
+  } else if (obj.steps !== undefined) {
+    v.fail(`${path}.steps`, 'only steps have a number of steps');
+  }
+
+  if (obj.color !== undefined) obstacle.color = v.string(obj.color, `${path}.color`);
+  return obstacle;
+}
+
+/**
+ * Checks if a point on the ground is inside an area.
+ */
+export function isInArea(area: AreaDefinition, x: number, z: number): boolean {
+  return x >= area.minX && x <= area.maxX && z >= area.minZ && z <= area.maxZ;
+}
+
+/**
+ * Works out how many random items a spawn zone gets (density is per 100 m²).
+ */
+export function getZoneItemCount(zone: SpawnZone): number {
+  const area = (zone.maxX - zone.minX) * (zone.maxZ - zone.minZ);
+  return Math.round((area * zone.density) / 100);
+}
+
+/**
+ * Narrows a catalog down to the item types a spawn zone allows.
+ */
+export function getZoneCatalog(zone: SpawnZone, catalog: ItemCatalog): ItemCatalog {
+  if (!zone.types) return catalog;
+  return { items: catalog.items.filter((item) => zone.types!.includes(item.id)) };
+}
+
+/**
+ * Fetches and validates a level json file (e.g. for custom levels).
+ */
+export async function loadLevel(url: string, catalog: ItemCatalog = DEFAULT_ITEM_CATALOG): Promise<Level> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load level from ${url}: ${response.status} ${response.statusText}`);
+  }
+  return parseLevel(await response.json(), catalog);
+}
+
+// levels bundled with the game (src/data/levels), in play order
+export const BUNDLED_LEVELS: Level[] = [parseLevel(parkData), parseLevel(playroomData), parseLevel(hillsData)];
+
+/**
+ * Looks up a bundled level by id.
+ */
+export function findLevel(id: string): Level | undefined {
+  return BUNDLED_LEVELS.find((level) => level.id === id);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, createRandomSeed } from './random';
+
+describe('Seeded random numbers', () => {
+  it('should give the same sequence for the same seed', () => {
+    const a = createSeededRandom(1234);
+    const b = createSeededRandom(1234);
+
+    const sequence = Array.from({ length: 100 }, () => a());
+    expect(Array.from({ length: 100 }, () => b())).toEqual(sequence);
+  });
+
+  it('should give different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+
+    expect(a()).not.toBe(b());
+  });
+
+  it('should stay in [0, 1) and spread evenly', () => {
+    const random = createSeededRandom(42);
+    const buckets = new Array<number>(10).fill(0);
+
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      buckets[Math.floor(value * 10)]!++;
+    }
+
+    // roughly 1000 per bucket
+    buckets.forEach((count) => expect(count).toBeGreaterThan(900));
+    buckets.forEach((count) => expect(count).toBeLessThan(1100));
+  });
+
+  it('should hand out whole 32-bit seeds', () => {
+    const seed = createRandomSeed();
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
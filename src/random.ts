@@ -0,0 +1,32 @@
+// --- random numbers (seedable, for reproducible runs) ---
+
+/**
+ * Returns a number in [0, 1), like Math.random.
+ * Anything that picks random values takes one of these instead of calling Math.random,
+ * so tests and replays can pass in a seeded one.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a seeded random number generator (mulberry32: tiny, fast, good enough for gameplay).
+ * The same seed always gives the same sequence, on every browser.
+ *
+ * @param seed - any 32-bit integer (other numbers are truncated to one)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a fresh seed for a new run (the one thing that's allowed to be truly random).
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { createAbsorbTween, ABSORB_DURATION, ABSORB_POP_SCALE } from './absorbTween';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import { createAnimationSystem } from '../animation';
+import type { Collectible } from '../gameLogic';
+import { FIXED_TIMESTEP } from '../fixedTimestep';
+import { makeTestLevel } from './testLevel';
+
+const level = makeTestLevel({
+  items: [
+    { type: 'die', x: 3, z: 0 },
+    { type: 'toy-block', x: 10, z: 0.5 },
+  ],
+  goalSize: 5,
+});
+
+/**
+ * rolls right until the first item is absorbed, returns the item and where it was just before
+ */
+function absorbFirstItem() {
+  const absorbed: Collectible[] = [];
+  const sim = createHeadlessSimulation(level, { seed: 1, events: { onCollect: (item) => absorbed.push(item) } });
+  const item = sim.collectibles[0]!;
+  const start = new THREE.Vector3(item.body.position.x, item.body.position.y, item.body.position.z);
+  sim.input.x = 1;
+  runSimulation(sim, 3, () => {
+    if (absorbed.length === 0) start.set(item.body.position.x, item.body.position.y, item.body.position.z);
+  });
+  expect(absorbed).toContain(item);
+  return { sim, item, start };
+}
+
+function worldPosition(object: THREE.Object3D): THREE.Vector3 {
+  object.updateWorldMatrix(true, false);
+  return object.getWorldPosition(new THREE.Vector3());
+}
+
+describe('Absorb tween', () => {
+  it('should start where the item was in the world', () => {
+    const { sim, item } = absorbFirstItem();
+    const start = { position: new THREE.Vector3(3, 0.5, 0), quaternion: new THREE.Quaternion() };
+    const tween = createAbsorbTween(item, sim.katamariMesh, start);
+
+    expect(tween.update(0)).toBe(true);
+
+    expect(worldPosition(item.mesh).distanceTo(start.position)).toBeLessThan(1e-6);
+  });
+
+  it('should pop half way and end on the anchored transform', () => {
+    const { sim, item, start } = absorbFirstItem();
+    const anchored = item.mesh.position.clone();
+    const settledScale = item.mesh.scale.x;
+    const tween = createAbsorbTween(item, sim.katamariMesh, { position: start, quaternion: new THREE.Quaternion() });
+
+    tween.update(ABSORB_DURATION / 2);
+    expect(item.mesh.scale.x).toBeCloseTo(settledScale * ABSORB_POP_SCALE);
+
+    expect(tween.update(ABSORB_DURATION)).toBe(false);
+    expect(item.mesh.position.distanceTo(anchored)).toBeLessThan(1e-9);
+    expect(item.mesh.scale.x).toBe(settledScale);
+  });
+
+  it('should put back the simulation transform on settle', () => {
+    const { sim, item, start } = absorbFirstItem();
+    const anchored = item.mesh.position.clone();
+    const tween = createAbsorbTween(item, sim.katamariMesh, { position: start, quaternion: new THREE.Quaternion() });
+
+    tween.update(ABSORB_DURATION / 4);
+    expect(item.mesh.position.equals(anchored)).toBe(false);
+    tween.settle();
+
+    expect(item.mesh.position.equals(anchored)).toBe(true);
+  });
+
+  it('should stop once the item is knocked off', () => {
+    const { sim, item, start } = absorbFirstItem();
+    const tween = createAbsorbTween(item, sim.katamariMesh, { position: start, quaternion: new THREE.Quaternion() });
+    tween.update(ABSORB_DURATION / 4);
+
+    sim.scene.attach(item.mesh);
+    item.collected = false;
+    const loose = item.mesh.position.clone();
+
+    expect(tween.update(ABSORB_DURATION / 4)).toBe(false);
+    expect(item.mesh.position.equals(loose)).toBe(true);
+  });
+
+  it('should not change the simulation', () => {
+    const plain = createHeadlessSimulation(level, { seed: 1 });
+    const animations = createAnimationSystem();
+    const animated = createHeadlessSimulation(level, {
+      seed: 1,
+      events: { onCollect: (item) => animations.add(createAbsorbTween(item, animated.katamariMesh)) },
+    });
+    plain.input.x = 1;
+    animated.input.x = 1;
+
+    runSimulation(plain, 3);
+    runSimulation(animated, 3, () => {
+      animations.settle(); // what the game loop does before stepping
+      animations.update(FIXED_TIMESTEP / 2);
+    });
+
+    expect(animated.collectibles.filter((item) => item.collected)).toHaveLength(2);
+    expect(animated.katamariBody.position).toEqual(plain.katamariBody.position);
+    expect(animated.size).toBe(plain.size);
+  });
+});
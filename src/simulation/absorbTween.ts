@@ -0,0 +1,79 @@
+// --- absorption tween: items fly onto the ball instead of snapping to it ---
+import * as THREE from 'three';
+import { easeOutCubic } from '../animation';
+import type { Animation } from '../animation';
+import type { Collectible } from '../gameLogic';
+
+export const ABSORB_DURATION = 0.25; // seconds from where the item was to its spot on the ball
+export const ABSORB_POP_SCALE = 1.3; // item scale half way through (pops, then settles at its real size)
+
+/**
+ * Animates an item that was just absorbed, from where it was in the world to its anchor on the ball.
+ * - the item is already collected and stuck (stickItem): this only changes how it looks
+ * - the target is wherever the simulation has the item right now, so it follows the spinning, growing ball
+ * - stops (leaving the item where the simulation has it) if the item is knocked off or cleared mid-way
+ *
+ * @param start - the item's world transform before it was absorbed (defaults to its physics body's)
+ */
+export function createAbsorbTween(
+  item: Collectible,
+  katamariMesh: THREE.Object3D,
+  start: { position: THREE.Vector3Like; quaternion: THREE.QuaternionLike } = item.body,
+  duration: number = ABSORB_DURATION
+): Animation {
+  const mesh = item.mesh;
+  const startPosition = new THREE.Vector3().copy(start.position);
+  const startQuaternion = new THREE.Quaternion().copy(start.quaternion);
+
+  // where the simulation has the item (captured every update, put back by settle)
+  const settledPosition = new THREE.Vector3();
+  const settledQuaternion = new THREE.Quaternion();
+  const settledScale = new THREE.Vector3();
+  let overridden = false;
+
+  const ballQuaternion = new THREE.Quaternion();
+  const localPosition = new THREE.Vector3();
+  const localQuaternion = new THREE.Quaternion();
+  let elapsed = 0;
+
+  function isStuck(): boolean {
+    return item.collected && mesh.parent === katamariMesh;
+  }
+
+  function settle() {
+    if (!overridden) return;
+    overridden = false;
+    if (!isStuck()) return; // it moved on (knocked off, cleared), its transform isn't ours any more
+    mesh.position.copy(settledPosition);
+    mesh.quaternion.copy(settledQuaternion);
+    mesh.scale.copy(settledScale);
+  }
+
+  function update(dt: number): boolean {
+    settle(); // start from the simulation's transform (normally put back already, before the physics steps)
+    if (!isStuck()) return false;
+
+    elapsed += dt;
+    const t = Math.min(1, elapsed / duration);
+    if (t >= 1) return false; // the settled transform is the end point
+
+    settledPosition.copy(mesh.position);
+    settledQuaternion.copy(mesh.quaternion);
+    settledScale.copy(mesh.scale);
+    overridden = true;
+
+    // the start point in the ball's frame (the ball keeps rolling, the start stays put in the world)
+    katamariMesh.updateMatrixWorld();
+    katamariMesh.getWorldQuaternion(ballQuaternion);
+    katamariMesh.worldToLocal(localPosition.copy(startPosition));
+    localQuaternion.copy(ballQuaternion).invert().multiply(startQuaternion);
+
+    const eased = easeOutCubic(t);
+    mesh.position.lerpVectors(localPosition, settledPosition, eased);
+    mesh.quaternion.slerpQuaternions(localQuaternion, settledQuaternion, eased);
+    mesh.scale.copy(settledScale).multiplyScalar(1 + (ABSORB_POP_SCALE - 1) * Math.sin(Math.PI * t));
+    return true;
+  }
+
+  return { update, settle };
+}
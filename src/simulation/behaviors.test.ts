@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { createBehaviorState, steerBehavior, ARRIVE_DISTANCE, WANDER_PAUSE_MAX } from './behaviors';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import { makeTestLevel } from './testLevel';
+import { FIXED_TIMESTEP } from '../fixedTimestep';
+import type { BehaviorState, Collectible } from '../gameLogic';
+import type { BehaviorDefinition } from '../itemCatalog';
+
+const dt = FIXED_TIMESTEP;
+
+/**
+ * moves a point the way its behavior steers it (no physics), returns every position along the way
+ */
+function walk(
+  state: BehaviorState,
+  seconds: number,
+  start = { x: 0, z: 0 },
+  katamari = { x: 100, z: 100 },
+  absorbable = true
+): { x: number; z: number }[] {
+  const position = { ...start };
+  const trail = [];
+  for (let i = 0; i < Math.round(seconds / dt); i++) {
+    const velocity = steerBehavior(state, position, katamari, absorbable, dt);
+    position.x += velocity.x * dt;
+    position.z += velocity.z * dt;
+    trail.push({ ...position });
+  }
+  return trail;
+}
+
+function distanceToBall(item: Collectible, ball: { x: number; z: number }): number {
+  return Math.hypot(item.body.position.x - ball.x, item.body.position.z - ball.z);
+}
+
+describe('Item behaviors', () => {
+  it('should wander around home without straying past the radius', () => {
+    const wander: BehaviorDefinition = { kind: 'wander', speed: 2, radius: 3 };
+    const home = { x: 5, z: -2 };
+    const trail = walk(createBehaviorState(wander, home, 42), 30, home);
+
+    const distances = trail.map((p) => Math.hypot(p.x - home.x, p.z - home.z));
+    expect(Math.max(...distances)).toBeLessThanOrEqual(3 + 1e-9);
+    expect(Math.max(...distances)).toBeGreaterThan(1); // it does go somewhere
+  });
+
+  it('should rest between strolls', () => {
+    const state = createBehaviorState({ kind: 'wander', speed: 2, radius: 3 }, { x: 0, z: 0 }, 7);
+    const trail = walk(state, 10);
+
+    // some steps it stands still, never longer than the longest rest
+    let still = 0;
+    let longest = 0;
+    for (let i = 1; i < trail.length; i++) {
+      still = trail[i]!.x === trail[i - 1]!.x && trail[i]!.z === trail[i - 1]!.z ? still + 1 : 0;
+      longest = Math.max(longest, still);
+    }
+    expect(longest).toBeGreaterThan(0);
+    expect(longest * dt).toBeLessThanOrEqual(WANDER_PAUSE_MAX + dt);
+  });
+
+  it('should wander the same way from the same seed', () => {
+    const wander: BehaviorDefinition = { kind: 'wander', speed: 1, radius: 4 };
+
+    expect(walk(createBehaviorState(wander, { x: 0, z: 0 }, 3), 10)).toEqual(
+      walk(createBehaviorState(wander, { x: 0, z: 0 }, 3), 10)
+    );
+    expect(walk(createBehaviorState(wander, { x: 0, z: 0 }, 4), 10)).not.toEqual(
+      walk(createBehaviorState(wander, { x: 0, z: 0 }, 3), 10)
+    );
+  });
+
+  it('should patrol its path in order, round and round', () => {
+    const path = [
+      { x: 0, z: 0 },
+      { x: 4, z: 0 },
+      { x: 4, z: 4 },
+    ];
+    const home = { x: 10, z: 10 };
+    const state = createBehaviorState({ kind: 'patrol', speed: 2, path }, home, 0);
+
+    const visited: number[] = [];
+    const position = { ...home };
+    let waypoint = state.waypoint;
+    for (let i = 0; i < Math.round(20 / dt); i++) {
+      const velocity = steerBehavior(state, position, { x: 100, z: 100 }, true, dt);
+      position.x += velocity.x * dt;
+      position.z += velocity.z * dt;
+      if (state.waypoint !== waypoint) {
+        // it only moves on once it's reached the point it was heading for
+        const reached = path[waypoint]!;
+        expect(Math.hypot(position.x - home.x - reached.x, position.z - home.z - reached.z)).toBeLessThan(
+          ARRIVE_DISTANCE + 2 * dt
+        );
+        waypoint = state.waypoint;
+        visited.push(waypoint);
+      }
+    }
+
+    // 4 + 4 + 5.7 m a lap at 2 m/s -> about 3 laps in 20 s
+    expect(visited.slice(0, 6)).toEqual([1, 2, 0, 1, 2, 0]);
+  });
+
+  it('should flee a katamari that could absorb it and chase one that could not', () => {
+    const state = createBehaviorState({ kind: 'flee-or-chase', speed: 3, range: 5 }, { x: 0, z: 0 }, 0);
+    const katamari = { x: 0, z: 0 };
+
+    const flee = steerBehavior(state, { x: 2, z: 0 }, katamari, true, dt);
+    const chase = steerBehavior(state, { x: 2, z: 0 }, katamari, false, dt);
+
+    expect(flee.x).toBeCloseTo(3);
+    expect(flee.z).toBeCloseTo(0);
+    expect(chase.x).toBeCloseTo(-3);
+    expect(steerBehavior(state, { x: 6, z: 0 }, katamari, true, dt)).toEqual({ x: 0, z: 0 }); // out of range
+  });
+});
+
+describe('Item behaviors in the simulation', () => {
+  it('should run away from a katamari that could absorb it', () => {
+    const sim = createHeadlessSimulation(makeTestLevel({ items: [{ type: 'mouse', x: 3, z: 0 }] }));
+    const mouse = sim.collectibles[0]!;
+    const before = distanceToBall(mouse, sim.katamariBody.position);
+
+    runSimulation(sim, 1);
+
+    expect(distanceToBall(mouse, sim.katamariBody.position)).toBeGreaterThan(before + 1);
+    expect(mouse.instanceSlot).toBeDefined(); // still drawn instanced, just moving
+    expect(mouse.mesh.position.x).toBe(mouse.body.position.x);
+  });
+
+  it('should charge at a katamari too small to absorb it, staying upright', () => {
+    const sim = createHeadlessSimulation(makeTestLevel({ items: [{ type: 'dog', x: 6, z: 3 }] }));
+    const dog = sim.collectibles[0]!;
+    const before = distanceToBall(dog, sim.katamariBody.position);
+
+    runSimulation(sim, 1);
+
+    expect(distanceToBall(dog, sim.katamariBody.position)).toBeLessThan(before - 1);
+    expect(dog.collected).toBe(false);
+    // only turned about the vertical axis (to face the ball)
+    expect(dog.body.quaternion.x).toBeCloseTo(0, 6);
+    expect(dog.body.quaternion.z).toBeCloseTo(0, 6);
+  });
+
+  it('should move the same way every run', () => {
+    const items = [
+      { type: 'chick', x: 8, z: 8 },
+      { type: 'toy-car', x: -10, z: 5 },
+    ];
+    const a = createHeadlessSimulation(makeTestLevel({ items }), { seed: 9 });
+    const b = createHeadlessSimulation(makeTestLevel({ items }), { seed: 9 });
+
+    runSimulation(a, 3);
+    runSimulation(b, 3);
+
+    a.collectibles.forEach((item, i) => {
+      expect(item.body.position).toEqual(b.collectibles[i]!.body.position);
+    });
+  });
+
+  it('should stop moving on its own once absorbed', () => {
+    const sim = createHeadlessSimulation(makeTestLevel({ items: [{ type: 'chick', x: 1.2, z: 0 }] }));
+    const chick = sim.collectibles[0]!;
+    expect(chick.behavior).toBeDefined();
+
+    sim.input.x = 1;
+    runSimulation(sim, 1);
+
+    expect(chick.collected).toBe(true);
+    expect(chick.behavior).toBeUndefined();
+    expect(chick.body.fixedRotation).toBe(false);
+    expect(chick.body.material).toBeNull(); // grips the ground again if it's knocked off
+    expect(sim.collectibleIndex.moving.has(chick)).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+// --- item behaviors: items that move about on their own (framework-free) ---
+import * as CANNON from 'cannon-es';
+import { canAbsorb } from '../gameLogic';
+import { createSeededRandom } from '../random';
+import type { BehaviorState, Collectible } from '../gameLogic';
+import type { BehaviorDefinition } from '../itemCatalog';
+
+export const BEHAVIOR_ACCELERATION = 6; // how quickly items get up to speed (share of the speed gap closed per second)
+export const ARRIVE_DISTANCE = 0.3; // close enough to a wander spot or patrol point (m)
+export const WANDER_PAUSE_MIN = 0.5; // rest between strolls (s)
+export const WANDER_PAUSE_MAX = 2;
+export const WANDER_PATIENCE = 2; // a stroll may take this many times as long as it should (blocked -> pick another spot)
+export const MIN_FACING_SPEED = 0.2; // items turn to face where they're going above this speed (m/s)
+
+// items with a behavior glide over the ground (see createPhysicsWorld): cannon's friction
+// would stop a sliding body dead every step, so they'd never get going
+export const BEHAVIOR_MATERIAL = new CANNON.Material('behavior');
+
+/**
+ * A horizontal velocity (m/s).
+ */
+export interface GroundVelocity {
+  x: number;
+  z: number;
+}
+
+/**
+ * Creates the starting state for an item's behavior.
+ *
+ * @param home - where the item spawned
+ * @param seed - where its random wander spots come from (any 32-bit integer)
+ */
+export function createBehaviorState(
+  definition: BehaviorDefinition,
+  home: { x: number; z: number },
+  seed: number
+): BehaviorState {
+  const state: BehaviorState = {
+    definition,
+    home: { x: home.x, z: home.z },
+    target: { x: home.x, z: home.z },
+    waypoint: 0,
+    timer: 0,
+    seed: seed >>> 0,
+  };
+  if (definition.kind === 'patrol') setPatrolTarget(state, definition.path);
+  return state;
+}
+
+function setPatrolTarget(state: BehaviorState, path: { x: number; z: number }[]) {
+  const point = path[state.waypoint]!;
+  state.target = { x: state.home.x + point.x, z: state.home.z + point.z };
+}
+
+/**
+ * velocity straight at a point, slowing down at the end instead of overshooting
+ */
+function toward(from: { x: number; z: number }, to: { x: number; z: number }, speed: number, dt: number): GroundVelocity {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const distance = Math.hypot(dx, dz);
+  if (distance === 0) return { x: 0, z: 0 };
+  const scale = Math.min(speed, distance / dt) / distance;
+  return { x: dx * scale, z: dz * scale };
+}
+
+/**
+ * Works out how fast (and which way) an item wants to move this step, and moves its behavior on
+ * (arrivals, new wander spots, timers). Pure apart from the state: no physics, easy to test.
+ *
+ * @param position - where the item is
+ * @param katamari - where the katamari is
+ * @param absorbable - whether the katamari could absorb the item right now (flee or chase)
+ */
+export function steerBehavior(
+  state: BehaviorState,
+  position: { x: number; z: number },
+  katamari: { x: number; z: number },
+  absorbable: boolean,
+  dt: number
+): GroundVelocity {
+  const def = state.definition;
+
+  switch (def.kind) {
+    case 'wander': {
+      // resting
+      if (state.timer > 0) {
+        state.timer = Math.max(0, state.timer - dt);
+        return { x: 0, z: 0 };
+      }
+
+      // rested (or just spawned): off to a random spot near home
+      if (state.timer === 0) {
+        const random = createSeededRandom(state.seed);
+        const angle = random() * Math.PI * 2;
+        const distance = def.radius * Math.sqrt(random()); // sqrt: spread evenly over the circle, not bunched in the middle
+        state.seed = Math.floor(random() * 4294967296);
+        state.target = { x: state.home.x + Math.cos(angle) * distance, z: state.home.z + Math.sin(angle) * distance };
+        const travelTime = Math.hypot(state.target.x - position.x, state.target.z - position.z) / def.speed;
+        state.timer = -(travelTime * WANDER_PATIENCE + dt); // counts up to 0
+      }
+
+      // strolling: there (or taking too long) -> rest for a bit
+      state.timer += dt;
+      const arrived = Math.hypot(state.target.x - position.x, state.target.z - position.z) < ARRIVE_DISTANCE;
+      if (arrived || state.timer >= 0) {
+        const random = createSeededRandom(state.seed);
+        state.timer = WANDER_PAUSE_MIN + random() * (WANDER_PAUSE_MAX - WANDER_PAUSE_MIN);
+        state.seed = Math.floor(random() * 4294967296);
+        return { x: 0, z: 0 };
+      }
+      return toward(position, state.target, def.speed, dt);
+    }
+
+    case 'patrol': {
+      if (Math.hypot(state.target.x - position.x, state.target.z - position.z) < ARRIVE_DISTANCE) {
+        state.waypoint = (state.waypoint + 1) % def.path.length;
+        setPatrolTarget(state, def.path);
+      }
+      return toward(position, state.target, def.speed, dt);
+    }
+
+    case 'flee-or-chase': {
+      const dx = position.x - katamari.x;
+      const dz = position.z - katamari.z;
+      const distance = Math.hypot(dx, dz);
+      if (distance > def.range || distance === 0) return { x: 0, z: 0 };
+
+      // away from a katamari that could absorb it, straight at one that can't
+      const sign = absorbable ? 1 : -1;
+      return { x: (sign * dx * def.speed) / distance, z: (sign * dz * def.speed) / distance };
+    }
+  }
+}
+
+/**
+ * Moves every item that has a behavior, for one physics step (call before stepping the world).
+ * - eases each item's velocity towards where its behavior wants to go (so bumps still push it about)
+ * - turns it to face the way it's moving
+ * Collected items are skipped (stickItem switches their behavior off anyway).
+ *
+ * @param items - items that may have a behavior (e.g. the index's moving items)
+ */
+export function updateItemBehaviors(
+  items: Iterable<Collectible>,
+  katamariBody: CANNON.Body,
+  katamariSize: number,
+  dt: number
+): void {
+  const blend = Math.min(1, BEHAVIOR_ACCELERATION * dt);
+
+  for (const item of items) {
+    if (!item.behavior || item.collected) continue;
+    const { body } = item;
+
+    const desired = steerBehavior(item.behavior, body.position, katamariBody.position, canAbsorb(item, katamariSize), dt);
+    body.velocity.x += (desired.x - body.velocity.x) * blend;
+    body.velocity.z += (desired.z - body.velocity.z) * blend;
+
+    if (Math.hypot(body.velocity.x, body.velocity.z) > MIN_FACING_SPEED) {
+      body.quaternion.setFromEuler(0, Math.atan2(body.velocity.x, body.velocity.z), 0);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { isBetterRun, parseBestRun, loadBestRun, saveBestRun, BEST_RUN_STORAGE_PREFIX } from './bestRun';
+import { createInputRecorder } from './recording';
+import type { BestRun } from './bestRun';
+
+function fakeStorage() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+  };
+}
+
+function makeBestRun(): BestRun {
+  const recorder = createInputRecorder('park', 9);
+  recorder.record({ x: 0, y: 1 }, { heading: 0 });
+  return { completed: true, time: 42, size: 2.1, recording: recorder.finish() };
+}
+
+describe('isBetterRun', () => {
+  it('should take any run when there is no best yet', () => {
+    expect(isBetterRun({ completed: false, time: 300, size: 1.2 }, null)).toBe(true);
+  });
+
+  it('should rank reaching the goal above everything else', () => {
+    const completed = { completed: true, time: 200, size: 2 };
+    const bigger = { completed: false, time: 300, size: 4 };
+
+    expect(isBetterRun(completed, bigger)).toBe(true);
+    expect(isBetterRun(bigger, completed)).toBe(false);
+  });
+
+  it('should prefer faster finishes, and bigger katamaris when neither finished', () => {
+    expect(isBetterRun({ completed: true, time: 50, size: 2 }, { completed: true, time: 60, size: 3 })).toBe(true);
+    expect(isBetterRun({ completed: true, time: 60, size: 3 }, { completed: true, time: 50, size: 2 })).toBe(false);
+    expect(isBetterRun({ completed: false, time: 300, size: 1.8 }, { completed: false, time: 300, size: 1.5 })).toBe(true);
+  });
+});
+
+describe('Best run storage', () => {
+  it('should save and load the best run per level', () => {
+    const storage = fakeStorage();
+    const run = makeBestRun();
+
+    saveBestRun(storage, run);
+
+    expect(storage.data.has(BEST_RUN_STORAGE_PREFIX + 'park')).toBe(true);
+    expect(loadBestRun(storage, 'park')).toEqual(run);
+    expect(loadBestRun(storage, 'playroom')).toBeNull();
+  });
+
+  it('should ignore a broken best run', () => {
+    const storage = fakeStorage();
+    storage.setItem(BEST_RUN_STORAGE_PREFIX + 'park', JSON.stringify({ ...makeBestRun(), size: 'big' }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadBestRun(storage, 'park')).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should validate the recording too', () => {
+    expect(() => parseBestRun({ ...makeBestRun(), recording: { version: 1 } })).toThrow(/recording/);
+  });
+});
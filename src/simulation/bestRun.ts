@@ -0,0 +1,75 @@
+// --- best run per level (what the ghost replays) ---
+import { Validator } from '../validation';
+import { parseRecording } from './recording';
+import type { Recording } from './recording';
+
+export const BEST_RUN_STORAGE_PREFIX = 'katamari.bestRun.'; // + level id
+
+/**
+ * How a finished run went.
+ */
+export interface RunResult {
+  completed: boolean; // reached the goal size before time ran out
+  time: number; // seconds played
+  size: number; // katamari size at the end (m)
+}
+
+/**
+ * The best run on a level so far, with its recording (for the ghost).
+ */
+export interface BestRun extends RunResult {
+  recording: Recording;
+}
+
+/**
+ * Returns whether a run beats the best one so far.
+ * - reaching the goal beats not reaching it
+ * - between two that reached it, the faster one wins
+ * - between two that didn't, the bigger katamari wins
+ */
+export function isBetterRun(run: RunResult, best: RunResult | null): boolean {
+  if (!best) return true;
+  if (run.completed !== best.completed) return run.completed;
+  return run.completed ? run.time < best.time : run.size > best.size;
+}
+
+/**
+ * Validates raw json data (a stored best run) and returns a typed one.
+ * Throws a ValidationError listing every problem.
+ */
+export function parseBestRun(data: unknown): BestRun {
+  const v = new Validator();
+  const root = v.object(data, 'best run');
+
+  if (typeof root.completed !== 'boolean') v.fail('completed', 'expected true or false');
+  const time = v.number(root.time, 'time', { min: 0 });
+  const size = v.positive(root.size, 'size');
+  v.assertValid('best run');
+
+  return { completed: root.completed === true, time, size, recording: parseRecording(root.recording) };
+}
+
+// the part of localStorage best runs need (easy to fake in tests)
+export type BestRunStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Loads the level's best run, or null if there is none (or it can't be read any more).
+ */
+export function loadBestRun(storage: BestRunStorage, levelId: string): BestRun | null {
+  const saved = storage.getItem(BEST_RUN_STORAGE_PREFIX + levelId);
+  if (saved === null) return null;
+
+  try {
+    return parseBestRun(JSON.parse(saved));
+  } catch (error) {
+    console.warn('Ignoring saved best run:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves a run as the level's best.
+ */
+export function saveBestRun(storage: BestRunStorage, run: BestRun): void {
+  storage.setItem(BEST_RUN_STORAGE_PREFIX + run.recording.levelId, JSON.stringify(run));
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { createCollectibleIndex } from './collectibleIndex';
+import type { CollectibleIndex } from './collectibleIndex';
+import { findCollidingCollectibles } from '../gameLogic';
+import { createSeededRandom } from '../random';
+import type { Collectible } from '../gameLogic';
+
+function makeItem(x: number, z: number, mass: number = 0): Collectible {
+  return {
+    mesh: new THREE.Mesh(),
+    body: new CANNON.Body({ mass, position: new CANNON.Vec3(x, 0.25, z) }),
+    type: 'toy-block',
+    collected: false,
+    radius: 0.5,
+    size: 0.5,
+    volume: 0.125,
+    points: 2,
+  };
+}
+
+describe('Collectible Index', () => {
+  let index: CollectibleIndex;
+
+  beforeEach(() => {
+    index = createCollectibleIndex();
+  });
+
+  it('should find items whose pickup radius reaches the query area', () => {
+    const near = makeItem(2, 0);
+    const edge = makeItem(0, 3.4); // 3.4 away, but its 0.5 pickup radius reaches a radius-3 query
+    const far = makeItem(30, 30);
+    [near, edge, far].forEach(index.add);
+
+    const found = index.query(0, 0, 3);
+
+    expect(found).toContain(near);
+    expect(found).toContain(edge);
+    expect(found).not.toContain(far);
+  });
+
+  it('should stop returning removed items', () => {
+    const item = makeItem(0, 0);
+    index.add(item);
+    index.remove(item);
+
+    expect(index.query(0, 0, 2)).toEqual([]);
+    expect(index.has(item)).toBe(false);
+  });
+
+  it('should follow moving (dynamic) items on update', () => {
+    const item = makeItem(0, 0, 1);
+    index.add(item);
+
+    item.body.position.set(20, 0.25, 0);
+    expect(index.query(20, 0, 1)).toEqual([]);
+
+    index.updateMoving();
+    expect(index.query(20, 0, 1)).toEqual([item]);
+    expect(index.query(0, 0, 1)).toEqual([]);
+  });
+
+  it('should not move static items on update', () => {
+    const item = makeItem(0, 0);
+    index.add(item);
+
+    item.body.position.set(20, 0.25, 0);
+    index.updateMoving();
+
+    expect(index.query(0, 0, 1)).toEqual([item]);
+  });
+
+  it('should find the same colliding items as a full scan', () => {
+    const random = createSeededRandom(1);
+    const items = Array.from({ length: 500 }, () => makeItem(random() * 40 - 20, random() * 40 - 20));
+    items.forEach(index.add);
+    const katamari = new CANNON.Body({ position: new CANNON.Vec3(1, 1, -2) });
+    const size = 2.5;
+
+    const fromIndex = findCollidingCollectibles(katamari, index.query(1, -2, size), size);
+    const fromScan = findCollidingCollectibles(katamari, items, size);
+
+    expect(fromScan.length).toBeGreaterThan(0);
+    expect(new Set(fromIndex)).toEqual(new Set(fromScan));
+  });
+
+  describe('benchmark', () => {
+    // items spread at a fixed density (like a level's spawn zones), so bigger levels = more items
+    const ITEMS_PER_SQUARE_METER = 0.04;
+    const QUERIES = 2000;
+
+    function measure(count: number) {
+      const random = createSeededRandom(count);
+      const half = Math.sqrt(count / ITEMS_PER_SQUARE_METER) / 2;
+      const benchIndex = createCollectibleIndex();
+      for (let i = 0; i < count; i++) {
+        benchIndex.add(makeItem(random() * 2 * half - half, random() * 2 * half - half));
+      }
+
+      // one query per "frame", katamari wandering around the level
+      let candidates = 0;
+      const start = performance.now();
+      for (let i = 0; i < QUERIES; i++) {
+        candidates += benchIndex.query(random() * 2 * half - half, random() * 2 * half - half, 2).length;
+      }
+      const msPerQuery = (performance.now() - start) / QUERIES;
+
+      return { msPerQuery, candidatesPerQuery: candidates / QUERIES };
+    }
+
+    it('should keep the per-frame cost flat from 1k to 20k items', () => {
+      measure(1000); // warm up the JIT
+
+      const small = measure(1000);
+      const large = measure(20000);
+
+      // work per query depends on the neighbourhood, not the item count
+      expect(large.candidatesPerQuery).toBeLessThan(small.candidatesPerQuery * 1.5 + 1);
+      // generous bound, timings on shared CI machines are noisy
+      expect(large.msPerQuery).toBeLessThan(small.msPerQuery * 4 + 0.01);
+    });
+  });
+});
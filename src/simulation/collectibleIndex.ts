@@ -0,0 +1,78 @@
+// --- spatial index of uncollected items (framework-free) ---
+import * as CANNON from 'cannon-es';
+import { createSpatialHash } from '../spatialHash';
+import type { Collectible } from '../gameLogic';
+
+// grid cell size in meters (a few small items per cell at typical densities)
+export const COLLECTIBLE_CELL_SIZE = 4;
+
+/**
+ * Index of the items the katamari can still pick up.
+ * - items are added when spawned (or knocked off) and removed when collected or cleared
+ * - static items never move, so they're indexed once
+ * - dynamic items (knocked off and tumbling around, or moving on their own) are re-indexed every step
+ */
+export interface CollectibleIndex {
+  add(item: Collectible): void;
+  remove(item: Collectible): void;
+  has(item: Collectible): boolean;
+  updateMoving(): void;
+  readonly moving: ReadonlySet<Collectible>; // dynamic items currently indexed
+  query(x: number, z: number, radius: number): Collectible[];
+  clear(): void;
+  readonly size: number;
+}
+
+/**
+ * Creates an empty collectible index.
+ */
+export function createCollectibleIndex(cellSize: number = COLLECTIBLE_CELL_SIZE): CollectibleIndex {
+  const hash = createSpatialHash<Collectible>(cellSize);
+  const moving = new Set<Collectible>();
+
+  // each item covers its pickup radius around its body
+  function insert(item: Collectible) {
+    const { x, z } = item.body.position;
+    hash.insert(item, x - item.radius, z - item.radius, x + item.radius, z + item.radius);
+  }
+
+  function add(item: Collectible) {
+    insert(item);
+    if (item.body.type === CANNON.Body.DYNAMIC) moving.add(item);
+  }
+
+  function remove(item: Collectible) {
+    hash.remove(item);
+    moving.delete(item);
+  }
+
+  function updateMoving() {
+    moving.forEach(insert);
+  }
+
+  /**
+   * returns every item whose pickup area overlaps the square around (x, z)
+   * (callers still do the exact distance check)
+   */
+  function query(x: number, z: number, radius: number): Collectible[] {
+    return hash.query(x - radius, z - radius, x + radius, z + radius);
+  }
+
+  function clear() {
+    hash.clear();
+    moving.clear();
+  }
+
+  return {
+    add,
+    remove,
+    has: hash.has,
+    updateMoving,
+    moving,
+    query,
+    clear,
+    get size() {
+      return hash.size;
+    },
+  };
+}
@@ -0,0 +1,221 @@
+// --- collectible spawning (framework-free) ---
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import {
+  pickItemDefinition,
+  findItemDefinition,
+  getItemHalfExtents,
+  getItemSize,
+  getItemVolume,
+  getPickupRadius,
+  createItemGeometry,
+  createItemMaterial,
+  createItemShape,
+} from '../itemCatalog';
+import { getZoneItemCount, getZoneCatalog } from '../levels';
+import { removeItemCollider, getItemMass } from '../gameLogic';
+import { getGroundHeight } from './terrain';
+import { createBehaviorState, BEHAVIOR_MATERIAL } from './behaviors';
+import type { Collectible } from '../gameLogic';
+import type { ItemCatalog, ItemDefinition } from '../itemCatalog';
+import type { Level, AreaDefinition } from '../levels';
+import type { CollectibleIndex } from './collectibleIndex';
+import type { ItemInstances } from './itemInstances';
+import type { RandomSource } from '../random';
+import type { Heightmap } from '../heightmap';
+
+/**
+ * Everything spawning needs: where items go and what they're picked from.
+ * The collectibles array, the mesh and body maps, the index and the instances are filled (and emptied) in place.
+ */
+export interface SpawnContext {
+  world: CANNON.World;
+  terrain: Heightmap | null; // the level's hills, items stand on them (null for flat ground)
+  catalog: ItemCatalog;
+  collectibles: Collectible[];
+  itemsByMesh: Map<THREE.Object3D, Collectible>; // every item in the array by its mesh (finds the items stuck to the katamari)
+  itemsByBody: Map<CANNON.Body, Collectible>; // and by its physics body (finds what the katamari bumped into)
+  index: CollectibleIndex; // spatial index of uncollected items (for pickup queries)
+  instances: ItemInstances; // draws uncollected items, one InstancedMesh per kind
+  random: RandomSource; // where random layouts come from (seeded -> the same layout every time)
+}
+
+// standalone meshes (collected items) share geometry and material per kind
+const itemVisuals = new WeakMap<ItemDefinition, { geometry: THREE.BufferGeometry; material: THREE.Material }>();
+
+function getItemVisuals(def: ItemDefinition) {
+  let visuals = itemVisuals.get(def);
+  if (!visuals) {
+    visuals = { geometry: createItemGeometry(def), material: createItemMaterial(def) };
+    itemVisuals.set(def, visuals);
+  }
+  return visuals;
+}
+
+/**
+ * Spawns one item of the given kind, resting on the ground (on top of the hills, if there are any).
+ * The item is drawn through its kind's InstancedMesh; its own mesh only holds the
+ * transform until it's collected. Returns the new collectible.
+ */
+export function spawnItem(
+  ctx: SpawnContext,
+  def: ItemDefinition,
+  x: number,
+  z: number,
+  rotationY: number = 0
+): Collectible {
+  // y -> resting on the ground
+  const position = new CANNON.Vec3(x, getGroundHeight(ctx.terrain, x, z) + getItemHalfExtents(def).y, z);
+  const quaternion = new CANNON.Quaternion().setFromEuler(0, rotationY, 0);
+  return placeItem(ctx, def, position, quaternion);
+}
+
+/**
+ * Spawns one item of the given kind with an exact transform (e.g. restored from a save).
+ * Items with a behavior get a dynamic body that stays upright, so they can move about;
+ * they're still drawn instanced until they're collected.
+ * Returns the new collectible.
+ */
+export function placeItem(
+  ctx: SpawnContext,
+  def: ItemDefinition,
+  position: CANNON.Vec3,
+  quaternion: CANNON.Quaternion
+): Collectible {
+  const { geometry, material } = getItemVisuals(def);
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.set(position.x, position.y, position.z);
+  mesh.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+
+  // --- physics body for collectible ---
+  // collider shape comes from the catalog entry
+  const body = new CANNON.Body({
+    mass: 0, // static until collected (no physics computes)
+    position: position.clone(),
+    quaternion: quaternion.clone(),
+    shape: createItemShape(def),
+  });
+
+  // draw it instanced, add to physics world
+  const instanceSlot = ctx.instances.allocate(def, mesh);
+  ctx.world.addBody(body);
+
+  const item: Collectible = {
+    mesh,
+    body,
+    type: def.id,
+    collected: false,
+    radius: getPickupRadius(def),
+    size: getItemSize(def),
+    volume: getItemVolume(def),
+    points: def.points,
+    instanceSlot,
+  };
+
+  // moves on its own: dynamic (the index tracks it as moving), upright, gliding, heading off from where it spawned
+  if (def.behavior) {
+    body.type = CANNON.Body.DYNAMIC;
+    body.mass = getItemMass(item);
+    body.fixedRotation = true;
+    body.material = BEHAVIOR_MATERIAL;
+    body.updateMassProperties();
+    item.behavior = createBehaviorState(def.behavior, position, Math.floor(ctx.random() * 4294967296));
+  }
+
+  ctx.collectibles.push(item);
+  ctx.itemsByMesh.set(mesh, item);
+  ctx.itemsByBody.set(body, item);
+  ctx.index.add(item);
+  return item;
+}
+
+/**
+ * Spawns random items across an area of the ground.
+ * - item kinds picked from the catalog (weighted by spawnWeight)
+ * - random positions and facing
+ * All randomness comes from the context's random source.
+ *
+ * @param itemCatalog - which items can spawn (the context's catalog by default)
+ */
+export function spawnRandomItems(
+  ctx: SpawnContext,
+  count: number,
+  area: AreaDefinition,
+  itemCatalog: ItemCatalog = ctx.catalog
+): void {
+  for (let i = 0; i < count; i++) {
+    // pick a random item kind from the catalog
+    const def = pickItemDefinition(itemCatalog, ctx.random);
+
+    // random position inside the area
+    spawnItem(
+      ctx,
+      def,
+      area.minX + ctx.random() * (area.maxX - area.minX), // x
+      area.minZ + ctx.random() * (area.maxZ - area.minZ), // z
+      ctx.random() * Math.PI * 2
+    );
+  }
+}
+
+/**
+ * Spawns everything a level asks for.
+ * 1. fixed placements (exactly where the designer put them)
+ * 2. random items in each spawn zone (count from the zone's density)
+ */
+export function spawnLevelItems(ctx: SpawnContext, level: Level): void {
+  level.items.forEach((placement) => {
+    const def = findItemDefinition(ctx.catalog, placement.type);
+    if (def) spawnItem(ctx, def, placement.x, placement.z, placement.rotationY);
+  });
+
+  level.spawnZones.forEach((zone) => {
+    spawnRandomItems(ctx, getZoneItemCount(zone), zone, getZoneCatalog(zone, ctx.catalog));
+  });
+}
+
+/**
+ * takes an item out of the scene (instanced or standalone) and the physics world
+ */
+function removeFromWorld(world: CANNON.World, item: Collectible): void {
+  // stop drawing it (instance slot, or standalone mesh on the katamari / in the scene)
+  item.instanceSlot?.release();
+  item.instanceSlot = undefined;
+  item.mesh.removeFromParent();
+  removeItemCollider(item); // stuck items stop being part of the katamari's shape too
+
+  // remove from physics world
+  if (world.bodies.includes(item.body)) {
+    world.removeBody(item.body);
+  }
+}
+
+/**
+ * Removes one item for good (e.g. it fell off the level): out of the scene, the physics world,
+ * the index, the mesh and body maps and the array (in place).
+ */
+export function removeItem(
+  ctx: Pick<SpawnContext, 'world' | 'collectibles' | 'itemsByMesh' | 'itemsByBody' | 'index'>,
+  item: Collectible
+): void {
+  removeFromWorld(ctx.world, item);
+  ctx.index.remove(item);
+  ctx.itemsByMesh.delete(item.mesh);
+  ctx.itemsByBody.delete(item.body);
+  const i = ctx.collectibles.indexOf(item);
+  if (i !== -1) ctx.collectibles.splice(i, 1);
+}
+
+/**
+ * Removes every item from the scene and the physics world and empties the array, the maps and the index.
+ */
+export function clearItems(ctx: SpawnContext): void {
+  ctx.collectibles.forEach((item) => removeFromWorld(ctx.world, item));
+
+  // clear the array as well (in place, so everyone holding it sees the change)
+  ctx.collectibles.length = 0;
+  ctx.itemsByMesh.clear();
+  ctx.itemsByBody.clear();
+  ctx.index.clear();
+  ctx.instances.clear();
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import * as CANNON from 'cannon-es';
+import * as THREE from 'three';
+import {
+  createDebugDraw,
+  createConvexGeometry,
+  createHeightfieldGeometry,
+  VELOCITY_ARROW_SCALE,
+  COLLIDER_COLOR,
+  STATIC_COLLIDER_COLOR,
+} from './debugDraw';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import { makeTestLevel } from './testLevel';
+
+const level = makeTestLevel({
+  items: [
+    { type: 'toy-block', x: 3, z: 0 },
+    { type: 'soda-can', x: -4, z: 2 },
+  ],
+  goalSize: 5,
+});
+
+const noOverlays = { colliders: false, pickupRadii: false, velocity: false };
+
+function colliderMeshes(draw: ReturnType<typeof createDebugDraw>): THREE.Mesh[] {
+  return draw.object.children[0]!.children as THREE.Mesh[];
+}
+
+function pickupRings(draw: ReturnType<typeof createDebugDraw>): THREE.LineLoop[] {
+  return draw.object.children[1]!.children as THREE.LineLoop[];
+}
+
+describe('Debug draw', () => {
+  it('should draw one wireframe per shape in the world', () => {
+    const sim = createHeadlessSimulation(level);
+    const draw = createDebugDraw();
+
+    draw.update(sim.world, sim.collectibles, sim.katamariBody);
+
+    const shapes = sim.world.bodies.reduce((count, body) => count + body.shapes.length, 0);
+    expect(colliderMeshes(draw)).toHaveLength(shapes);
+    colliderMeshes(draw).forEach((mesh) => {
+      expect((mesh.material as THREE.MeshBasicMaterial).wireframe).toBe(true);
+    });
+  });
+
+  it('should follow the bodies and the katamari size', () => {
+    const sim = createHeadlessSimulation(level);
+    const draw = createDebugDraw();
+    sim.input.x = 1;
+    runSimulation(sim, 3); // rolls over the toy block, grows
+
+    draw.update(sim.world, sim.collectibles, sim.katamariBody);
+
+    const ball = colliderMeshes(draw).find((mesh) => mesh.position.equals(
+      new THREE.Vector3(sim.katamariBody.position.x, sim.katamariBody.position.y, sim.katamariBody.position.z)
+    ));
+    expect(ball).toBeDefined();
+    expect(ball!.scale.x).toBeCloseTo(sim.size);
+  });
+
+  it('should drop the wireframes of bodies that left the world', () => {
+    const sim = createHeadlessSimulation(level);
+    const draw = createDebugDraw();
+    draw.update(sim.world, sim.collectibles, sim.katamariBody);
+    const before = colliderMeshes(draw).length;
+
+    sim.world.removeBody(sim.collectibles[0]!.body);
+    draw.update(sim.world, sim.collectibles, sim.katamariBody);
+
+    expect(colliderMeshes(draw)).toHaveLength(before - 1);
+  });
+
+  it('should free the geometry built for a shape once it leaves the world', () => {
+    const world = new CANNON.World();
+    const body = new CANNON.Body({ mass: 1, shape: new CANNON.Cylinder(0.5, 0.5, 1, 8) });
+    world.addBody(body);
+    const draw = createDebugDraw();
+    draw.update(world, [], body);
+    let disposed = false;
+    colliderMeshes(draw)[0]!.geometry.addEventListener('dispose', () => (disposed = true));
+
+    world.removeBody(body);
+    draw.update(world, [], body);
+
+    expect(disposed).toBe(true);
+    expect(colliderMeshes(draw)).toHaveLength(0);
+  });
+
+  it('should redraw a body that turns dynamic in the moving color', () => {
+    const world = new CANNON.World();
+    const body = new CANNON.Body({ mass: 0, shape: new CANNON.Box(new CANNON.Vec3(0.5, 0.5, 0.5)) });
+    world.addBody(body);
+    const draw = createDebugDraw();
+    const color = () => (colliderMeshes(draw)[0]!.material as THREE.MeshBasicMaterial).color.getHex();
+
+    draw.update(world, [], body);
+    expect(color()).toBe(STATIC_COLLIDER_COLOR);
+
+    // knocked off: same shape, now a dynamic body
+    body.type = CANNON.Body.DYNAMIC;
+    body.mass = 1;
+    body.updateMassProperties();
+    draw.update(world, [], body);
+    expect(color()).toBe(COLLIDER_COLOR);
+  });
+
+  it('should ring each uncollected item at its pickup radius', () => {
+    const sim = createHeadlessSimulation(level);
+    const draw = createDebugDraw();
+    const item = sim.collectibles[0]!;
+    draw.update(sim.world, sim.collectibles, sim.katamariBody);
+
+    expect(pickupRings(draw)).toHaveLength(2);
+    expect(pickupRings(draw)[0]!.scale.x).toBeCloseTo(item.radius);
+
+    item.collected = true;
+    draw.update(sim.world, sim.collectibles, sim.katamariBody);
+    expect(pickupRings(draw)).toHaveLength(1);
+  });
+
+  it('should point the velocity arrows along the katamari motion', () => {
+    const world = new CANNON.World();
+    const body = new CANNON.Body({ mass: 1, shape: new CANNON.Sphere(1) });
+    world.addBody(body);
+    const draw = createDebugDraw();
+    const [, , velocityArrow, angularArrow] = draw.object.children as THREE.ArrowHelper[];
+
+    draw.update(world, [], body);
+    expect(velocityArrow!.visible).toBe(false); // at rest
+
+    body.velocity.set(4, 0, 0);
+    body.angularVelocity.set(0, 0, -2);
+    draw.update(world, [], body);
+
+    expect(velocityArrow!.visible).toBe(true);
+    expect(velocityArrow!.line.scale.y + velocityArrow!.cone.scale.y).toBeCloseTo(4 * VELOCITY_ARROW_SCALE);
+    expect(angularArrow!.visible).toBe(true);
+  });
+
+  it('should hide what is switched off', () => {
+    const sim = createHeadlessSimulation(level);
+    const draw = createDebugDraw();
+    sim.katamariBody.velocity.set(1, 0, 0);
+
+    draw.update(sim.world, sim.collectibles, sim.katamariBody, noOverlays);
+
+    expect(draw.object.children.every((child) => !child.visible)).toBe(true);
+    expect(colliderMeshes(draw)).toHaveLength(0); // nothing built while hidden
+  });
+
+  it('should triangulate convex shapes', () => {
+    const cylinder = new CANNON.Cylinder(1, 1, 2, 8);
+    const geometry = createConvexGeometry(cylinder);
+
+    expect(geometry.getAttribute('position').count).toBe(cylinder.vertices.length);
+    // 8 side quads (2 triangles each) + 2 octagon caps (6 triangles each)
+    expect(geometry.getIndex()!.count / 3).toBe(8 * 2 + 2 * 6);
+  });
+
+  it('should triangulate heightfields the way cannon does', () => {
+    const heightfield = new CANNON.Heightfield([[0, 1, 2], [3, 4, 5]], { elementSize: 2 });
+    const geometry = createHeightfieldGeometry(heightfield);
+    const position = geometry.getAttribute('position');
+
+    expect(position.count).toBe(6);
+    expect([position.getX(4), position.getY(4), position.getZ(4)]).toEqual([2, 2, 4]); // data[1][1]
+    // 2 cells, 2 triangles each, split along the same diagonal as cannon's
+    expect(Array.from(geometry.getIndex()!.array)).toEqual([0, 3, 1, 4, 1, 3, 1, 4, 2, 5, 2, 4]);
+  });
+});
@@ -0,0 +1,291 @@
+// --- debug drawing: what the physics sees, drawn over what the player sees ---
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import type { Collectible } from '../gameLogic';
+
+export const COLLIDER_COLOR = 0xff8c00; // dark orange: moving bodies
+export const STATIC_COLLIDER_COLOR = 0x888888; // gray: ground and other things that never move
+export const PICKUP_RADIUS_COLOR = 0xffd700; // gold
+export const VELOCITY_COLOR = 0xff0000;
+export const ANGULAR_VELOCITY_COLOR = 0x0000ff;
+
+// arrow length per m/s (and per rad/s): 0.5 -> where the ball will be in half a second
+export const VELOCITY_ARROW_SCALE = 0.5;
+
+// infinite planes are drawn as a square this big (m), centered on the plane's body
+export const PLANE_DRAW_SIZE = 200;
+
+/**
+ * What gets drawn (each can be switched on and off while running).
+ */
+export interface DebugDrawOptions {
+  colliders: boolean; // wireframes of every cannon shape in the world
+  pickupRadii: boolean; // each uncollected item's pickup radius
+  velocity: boolean; // katamari velocity and angular velocity arrows
+}
+
+export const DEFAULT_DEBUG_DRAW_OPTIONS: DebugDrawOptions = {
+  colliders: true,
+  pickupRadii: true,
+  velocity: true,
+};
+
+/**
+ * Wireframes, rings and arrows showing the physics state, in a group of their own.
+ * Add `object` to the scene and call update once per rendered frame.
+ */
+export interface DebugDraw {
+  readonly object: THREE.Object3D;
+  update(
+    world: CANNON.World,
+    collectibles: readonly Collectible[],
+    katamariBody: CANNON.Body,
+    options?: DebugDrawOptions
+  ): void;
+  dispose(): void;
+}
+
+/**
+ * Creates an empty debug drawing (nothing is drawn until the first update).
+ */
+export function createDebugDraw(): DebugDraw {
+  const object = new THREE.Group();
+  object.name = 'debug-draw';
+
+  const colliderGroup = new THREE.Group();
+  const ringGroup = new THREE.Group();
+  object.add(colliderGroup, ringGroup);
+
+  // --- shared geometry and materials ---
+  const unitSphere = new THREE.SphereGeometry(1, 16, 12); // scaled to each sphere's radius
+  const unitBox = new THREE.BoxGeometry(1, 1, 1); // scaled to each box's size
+  const plane = new THREE.PlaneGeometry(PLANE_DRAW_SIZE, PLANE_DRAW_SIZE, 20, 20);
+  const shapeGeometries = new Map<CANNON.Shape, THREE.BufferGeometry>(); // convex and heightfield shapes, built once per shape in the world
+
+  const dynamicMaterial = new THREE.MeshBasicMaterial({ color: COLLIDER_COLOR, wireframe: true });
+  const staticMaterial = new THREE.MeshBasicMaterial({ color: STATIC_COLLIDER_COLOR, wireframe: true });
+
+  // unit circle lying flat (pickup rings)
+  const circle = new THREE.BufferGeometry().setFromPoints(
+    Array.from({ length: 32 }, (_, i) => {
+      const angle = (i / 32) * Math.PI * 2;
+      return new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle));
+    })
+  );
+  const ringMaterial = new THREE.LineBasicMaterial({ color: PICKUP_RADIUS_COLOR });
+
+  const velocityArrow = new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(), 1, VELOCITY_COLOR);
+  const angularArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(),
+    1,
+    ANGULAR_VELOCITY_COLOR
+  );
+  object.add(velocityArrow, angularArrow);
+
+  // one wireframe per shape, one ring per item (kept between frames, dropped when their thing is gone)
+  const shapeMeshes = new Map<CANNON.Shape, THREE.Mesh>();
+  const rings = new Map<Collectible, THREE.LineLoop>();
+
+  const offset = new CANNON.Vec3();
+  const orientation = new CANNON.Quaternion();
+  const direction = new THREE.Vector3();
+
+  /**
+   * wireframe mesh for a shape (null for shapes there's no drawing for)
+   */
+  function createShapeMesh(shape: CANNON.Shape): THREE.Mesh | null {
+    if (shape instanceof CANNON.Sphere) return new THREE.Mesh(unitSphere, dynamicMaterial);
+    if (shape instanceof CANNON.Box) return new THREE.Mesh(unitBox, dynamicMaterial);
+    if (shape instanceof CANNON.Plane) return new THREE.Mesh(plane, dynamicMaterial); // plane normal is +z in both
+    if (shape instanceof CANNON.ConvexPolyhedron || shape instanceof CANNON.Heightfield) {
+      let geometry = shapeGeometries.get(shape);
+      if (!geometry) {
+        geometry = shape instanceof CANNON.Heightfield ? createHeightfieldGeometry(shape) : createConvexGeometry(shape);
+        shapeGeometries.set(shape, geometry);
+      }
+      return new THREE.Mesh(geometry, dynamicMaterial);
+    }
+    return null;
+  }
+
+  /**
+   * moves (and sizes) a shape's wireframe to where the shape is in the world
+   */
+  function placeShapeMesh(mesh: THREE.Mesh, shape: CANNON.Shape, body: CANNON.Body, index: number) {
+    // picked every frame: items knocked off the katamari go from static to dynamic
+    mesh.material = body.type === CANNON.Body.STATIC ? staticMaterial : dynamicMaterial;
+
+    body.quaternion.vmult(body.shapeOffsets[index]!, offset);
+    body.position.vadd(offset, offset);
+    body.quaternion.mult(body.shapeOrientations[index]!, orientation);
+    mesh.position.set(offset.x, offset.y, offset.z);
+    mesh.quaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+
+    // spheres grow (the katamari), so their size is read every frame
+    if (shape instanceof CANNON.Sphere) mesh.scale.setScalar(shape.radius);
+    else if (shape instanceof CANNON.Box) {
+      mesh.scale.set(shape.halfExtents.x * 2, shape.halfExtents.y * 2, shape.halfExtents.z * 2);
+    }
+  }
+
+  function updateColliders(world: CANNON.World) {
+    const seen = new Set<CANNON.Shape>();
+
+    world.bodies.forEach((body) => {
+      body.shapes.forEach((shape, index) => {
+        let mesh = shapeMeshes.get(shape);
+        if (mesh === undefined) {
+          const created = createShapeMesh(shape);
+          if (!created) return;
+          mesh = created;
+          shapeMeshes.set(shape, mesh);
+          colliderGroup.add(mesh);
+        }
+        placeShapeMesh(mesh, shape, body, index);
+        seen.add(shape);
+      });
+    });
+
+    // bodies that left the world (collected items, cleared levels)
+    // respawned items come with new shapes, so built geometries go with their shape
+    shapeMeshes.forEach((mesh, shape) => {
+      if (seen.has(shape)) return;
+      mesh.removeFromParent();
+      shapeMeshes.delete(shape);
+      shapeGeometries.get(shape)?.dispose();
+      shapeGeometries.delete(shape);
+    });
+  }
+
+  /**
+   * pickup range is a sphere around the item, drawn as its horizontal slice
+   */
+  function updateRings(collectibles: readonly Collectible[]) {
+    const seen = new Set<Collectible>();
+
+    collectibles.forEach((item) => {
+      if (item.collected) return;
+      let ring = rings.get(item);
+      if (!ring) {
+        ring = new THREE.LineLoop(circle, ringMaterial);
+        rings.set(item, ring);
+        ringGroup.add(ring);
+      }
+      const { x, y, z } = item.body.position;
+      ring.position.set(x, y, z);
+      ring.scale.setScalar(item.radius);
+      seen.add(item);
+    });
+
+    rings.forEach((ring, item) => {
+      if (seen.has(item)) return;
+      ring.removeFromParent();
+      rings.delete(item);
+    });
+  }
+
+  /**
+   * points an arrow along a vector from the katamari's center (hidden when the vector is ~zero)
+   */
+  function updateArrow(arrow: THREE.ArrowHelper, body: CANNON.Body, vector: CANNON.Vec3) {
+    const length = vector.length() * VELOCITY_ARROW_SCALE;
+    arrow.visible = length > 0.01;
+    if (!arrow.visible) return;
+
+    arrow.position.set(body.position.x, body.position.y, body.position.z);
+    arrow.setDirection(direction.set(vector.x, vector.y, vector.z).normalize());
+    arrow.setLength(length, Math.min(0.5, length * 0.3), Math.min(0.3, length * 0.2));
+  }
+
+  function update(
+    world: CANNON.World,
+    collectibles: readonly Collectible[],
+    katamariBody: CANNON.Body,
+    options: DebugDrawOptions = DEFAULT_DEBUG_DRAW_OPTIONS
+  ) {
+    colliderGroup.visible = options.colliders;
+    if (options.colliders) updateColliders(world);
+
+    ringGroup.visible = options.pickupRadii;
+    if (options.pickupRadii) updateRings(collectibles);
+
+    if (options.velocity) {
+      updateArrow(velocityArrow, katamariBody, katamariBody.velocity);
+      updateArrow(angularArrow, katamariBody, katamariBody.angularVelocity);
+    } else {
+      velocityArrow.visible = false;
+      angularArrow.visible = false;
+    }
+  }
+
+  function dispose() {
+    object.removeFromParent();
+    shapeMeshes.clear();
+    rings.clear();
+    unitSphere.dispose();
+    unitBox.dispose();
+    plane.dispose();
+    shapeGeometries.forEach((geometry) => geometry.dispose());
+    shapeGeometries.clear();
+    dynamicMaterial.dispose();
+    staticMaterial.dispose();
+    circle.dispose();
+    ringMaterial.dispose();
+    velocityArrow.dispose();
+    angularArrow.dispose();
+  }
+
+  return { object, update, dispose };
+}
+
+/**
+ * Triangulates a convex polyhedron's faces (fans, the faces are convex) into a three.js geometry.
+ * Cylinders are convex polyhedra in cannon-es, so this draws them too.
+ */
+export function createConvexGeometry(shape: CANNON.ConvexPolyhedron): THREE.BufferGeometry {
+  const positions: number[] = [];
+  shape.vertices.forEach((v) => positions.push(v.x, v.y, v.z));
+
+  const indices: number[] = [];
+  shape.faces.forEach((face) => {
+    for (let i = 1; i < face.length - 1; i++) {
+      indices.push(face[0]!, face[i]!, face[i + 1]!);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  return geometry;
+}
+
+/**
+ * Builds a geometry from a cannon heightfield, in the shape's own frame (heights along +z),
+ * split into triangles exactly the way cannon splits each cell.
+ */
+export function createHeightfieldGeometry(shape: CANNON.Heightfield): THREE.BufferGeometry {
+  const { data, elementSize } = shape;
+  const columns = data.length;
+  const rows = data[0]!.length;
+
+  const positions: number[] = [];
+  data.forEach((column, xi) => {
+    column.forEach((height, yi) => positions.push(xi * elementSize, yi * elementSize, height));
+  });
+
+  // each cell: a lower and an upper triangle, split along the (xi + 1, yi) - (xi, yi + 1) diagonal
+  const indices: number[] = [];
+  const index = (xi: number, yi: number) => xi * rows + yi;
+  for (let xi = 0; xi < columns - 1; xi++) {
+    for (let yi = 0; yi < rows - 1; yi++) {
+      indices.push(index(xi, yi), index(xi + 1, yi), index(xi, yi + 1));
+      indices.push(index(xi + 1, yi + 1), index(xi, yi + 1), index(xi + 1, yi));
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  return geometry;
+}
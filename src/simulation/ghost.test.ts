@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import { createInputRecorder } from './recording';
+import { createGhost, formatGhostDelta, GHOST_OPACITY } from './ghost';
+import type { Recording } from './recording';
+import { makeTestLevel } from './testLevel';
+
+const level = makeTestLevel({
+  items: [
+    { type: 'die', x: 3, z: 0 },
+    { type: 'toy-block', x: 10, z: 0.5 }, // past where the die lump bounces the ball
+  ],
+  goalSize: 5,
+});
+
+/**
+ * rolls right over both items for 3 seconds, returns the recording and the final size
+ */
+function recordRun(): { recording: Recording; size: number; collected: number } {
+  const sim = createHeadlessSimulation(level, { seed: 5 });
+  const recorder = createInputRecorder(level.id, 5);
+  sim.input.x = 1;
+  runSimulation(sim, 3, (s) => recorder.record(s.input, s.view));
+  return {
+    recording: recorder.finish(),
+    size: sim.size,
+    collected: sim.collectibles.filter((item) => item.collected).length,
+  };
+}
+
+describe('Ghost', () => {
+  it('should grow and pick up items the way the recorded run did', () => {
+    const run = recordRun();
+    const ghost = createGhost(level, run.recording);
+
+    while (!ghost.finished) ghost.step();
+
+    expect(run.collected).toBe(2);
+    expect(ghost.size).toBeGreaterThan(1);
+    const ball = ghost.object.children[0]!;
+    expect(ball.children).toHaveLength(run.collected);
+    expect(ball.scale.x).toBeCloseTo(ghost.size);
+  });
+
+  it('should only be a see-through look-alike in the live scene', () => {
+    const live = createHeadlessSimulation(level);
+    const bodies = [...live.world.bodies];
+    const ghost = createGhost(level, recordRun().recording);
+    live.scene.add(ghost.object);
+
+    while (!ghost.finished) ghost.step();
+
+    // the live world didn't get a single body more or less, and nothing moved
+    expect(live.world.bodies).toEqual(bodies);
+    expect(live.katamariBody.position.x).toBe(0);
+    expect(live.collectibles.every((item) => !item.collected)).toBe(true);
+
+    ghost.object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        expect(child.material.transparent).toBe(true);
+        expect(child.material.opacity).toBe(GHOST_OPACITY);
+      }
+    });
+  });
+
+  it('should start over on reset and catch up on seek', () => {
+    const ghost = createGhost(level, recordRun().recording);
+    while (!ghost.finished) ghost.step();
+    const finalSize = ghost.size;
+
+    ghost.reset();
+    expect(ghost.position).toBe(0);
+    expect(ghost.size).toBe(1);
+    expect(ghost.object.children[0]!.children).toHaveLength(0);
+
+    ghost.seek(Infinity);
+    expect(ghost.size).toBe(finalSize);
+  });
+
+  it('should leave the scene when disposed', () => {
+    const scene = new THREE.Scene();
+    const ghost = createGhost(level, recordRun().recording);
+    scene.add(ghost.object);
+
+    ghost.dispose();
+
+    expect(scene.children).not.toContain(ghost.object);
+  });
+});
+
+describe('formatGhostDelta', () => {
+  it('should say whether the player is ahead or behind', () => {
+    expect(formatGhostDelta(0.123)).toBe('+0.12 m ahead of the ghost');
+    expect(formatGhostDelta(-0.3)).toBe('-0.30 m behind the ghost');
+    expect(formatGhostDelta(0.001)).toBe('even with the ghost');
+  });
+});
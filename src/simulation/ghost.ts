@@ -0,0 +1,172 @@
+// --- ghost racer (a recorded run rolling alongside the live one) ---
+import * as THREE from 'three';
+import { createHeadlessSimulation } from './simulation';
+import { createReplayPlayer } from './recording';
+import { DEFAULT_ITEM_CATALOG } from '../itemCatalog';
+import type { Collectible } from '../gameLogic';
+import type { ItemCatalog } from '../itemCatalog';
+import type { Level } from '../levels';
+import type { Recording } from './recording';
+
+export const GHOST_OPACITY = 0.35;
+export const GHOST_COLOR = 0xffffff;
+
+/**
+ * A recorded run replayed as a see-through katamari.
+ * It runs in a physics world of its own (a headless simulation), so it can't bump into
+ * or change anything in the live world. Only its looks end up in the live scene.
+ */
+export interface Ghost {
+  readonly object: THREE.Object3D; // what to add to the live scene (ball and the items stuck to it)
+  readonly size: number; // the ghost katamari's size right now
+  readonly position: number; // steps played
+  readonly finished: boolean; // the recorded run is over (the ghost stays where it ended)
+  step(): void; // one physics step, in lockstep with the live run
+  seek(position: number): void; // jumps to a step (re-simulates every step up to it)
+  reset(): void; // back to the start of the run
+  dispose(): void;
+}
+
+/**
+ * Creates a ghost for a level from a recording of a run on it.
+ */
+export function createGhost(
+  level: Level,
+  recording: Recording,
+  catalog: ItemCatalog = DEFAULT_ITEM_CATALOG
+): Ghost {
+  const object = new THREE.Group();
+  object.name = 'ghost';
+
+  // see-through ball, same sphere as the real one
+  const ballGeometry = new THREE.SphereGeometry(1, 32, 32);
+  const ballMaterial = createGhostMaterial(GHOST_COLOR);
+  const ball = new THREE.Mesh(ballGeometry, ballMaterial);
+  object.add(ball);
+
+  // items stuck to the ghost: see-through copies of the hidden simulation's meshes
+  const ghostMaterials = new Map<number, THREE.MeshStandardMaterial>(); // by color, shared
+  const stuckItems = new Map<Collectible, THREE.Mesh>();
+
+  const sim = createHeadlessSimulation(level, {
+    catalog,
+    seed: recording.seed,
+    events: {
+      onCollect: (item) => {
+        const copy = new THREE.Mesh(item.mesh.geometry, getGhostMaterial(item));
+        stuckItems.set(item, copy);
+        ball.add(copy);
+      },
+      onKnockOff: (item) => removeStuckItem(item),
+    },
+  });
+
+  const player = createReplayPlayer(recording, {
+    simulation: sim,
+    restart: (seed) => {
+      [...stuckItems.keys()].forEach(removeStuckItem);
+      sim.restart(seed);
+    },
+    respawn: () => {
+      [...stuckItems.keys()].forEach(removeStuckItem);
+      sim.respawnItems();
+    },
+  });
+  syncVisuals();
+
+  /**
+   * one see-through material per item color (the item's own material is shared with the live items)
+   */
+  function getGhostMaterial(item: Collectible): THREE.MeshStandardMaterial {
+    const source = item.mesh.material as THREE.MeshStandardMaterial;
+    const color = source.color.getHex();
+    let material = ghostMaterials.get(color);
+    if (!material) {
+      material = createGhostMaterial(color);
+      ghostMaterials.set(color, material);
+    }
+    return material;
+  }
+
+  function removeStuckItem(item: Collectible) {
+    stuckItems.get(item)?.removeFromParent();
+    stuckItems.delete(item);
+  }
+
+  /**
+   * copies the hidden simulation's katamari (and what's stuck to it) onto the visible ghost
+   */
+  function syncVisuals() {
+    const source = sim.katamariMesh;
+    ball.position.copy(source.position);
+    ball.quaternion.copy(source.quaternion);
+    ball.scale.copy(source.scale);
+
+    stuckItems.forEach((copy, item) => {
+      copy.position.copy(item.mesh.position);
+      copy.quaternion.copy(item.mesh.quaternion);
+      copy.scale.copy(item.mesh.scale);
+    });
+  }
+
+  function step() {
+    player.step();
+    syncVisuals();
+  }
+
+  function seek(position: number) {
+    player.seek(position);
+    syncVisuals();
+  }
+
+  function reset() {
+    player.restart();
+    syncVisuals();
+  }
+
+  function dispose() {
+    sim.dispose();
+    object.removeFromParent();
+    ballGeometry.dispose();
+    ballMaterial.dispose();
+    ghostMaterials.forEach((material) => material.dispose());
+  }
+
+  return {
+    object,
+    get size() {
+      return sim.size;
+    },
+    get position() {
+      return player.position;
+    },
+    get finished() {
+      return player.finished;
+    },
+    step,
+    seek,
+    reset,
+    dispose,
+  };
+}
+
+function createGhostMaterial(color: number): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    color,
+    transparent: true,
+    opacity: GHOST_OPACITY,
+    depthWrite: false, // see-through from every side, doesn't hide the live katamari
+  });
+}
+
+/**
+ * Formats how far the live katamari is ahead of the ghost for the HUD
+ * ("+0.12 m ahead of the ghost", "-0.30 m behind the ghost").
+ *
+ * @param delta - live size minus ghost size (m)
+ */
+export function formatGhostDelta(delta: number): string {
+  if (Math.abs(delta) < 0.005) return 'even with the ghost';
+  const sign = delta > 0 ? '+' : '-';
+  return `${sign}${Math.abs(delta).toFixed(2)} m ${delta > 0 ? 'ahead of' : 'behind'} the ghost`;
+}
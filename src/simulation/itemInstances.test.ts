@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import { createItemInstances } from './itemInstances';
+import type { ItemInstances } from './itemInstances';
+import { DEFAULT_ITEM_CATALOG, findItemDefinition } from '../itemCatalog';
+import type { ItemDefinition } from '../itemCatalog';
+
+function placed(x: number, z: number): THREE.Object3D {
+  const object = new THREE.Object3D();
+  object.position.set(x, 0, z);
+  return object;
+}
+
+function instancePosition(mesh: THREE.InstancedMesh, index: number): THREE.Vector3 {
+  const matrix = new THREE.Matrix4();
+  mesh.getMatrixAt(index, matrix);
+  return new THREE.Vector3().setFromMatrixPosition(matrix);
+}
+
+describe('Item instances', () => {
+  let scene: THREE.Scene;
+  let instances: ItemInstances;
+  let block: ItemDefinition;
+  let ball: ItemDefinition;
+
+  beforeEach(() => {
+    scene = new THREE.Scene();
+    instances = createItemInstances(scene);
+    block = findItemDefinition(DEFAULT_ITEM_CATALOG, 'toy-block')!;
+    ball = findItemDefinition(DEFAULT_ITEM_CATALOG, 'rubber-ball')!;
+  });
+
+  it('should draw all items of a kind with one instanced mesh', () => {
+    for (let i = 0; i < 10; i++) instances.allocate(block, placed(i, 0));
+    instances.allocate(ball, placed(0, 5));
+
+    expect(instances.meshes).toHaveLength(2);
+    expect(scene.children.filter((child) => child instanceof THREE.InstancedMesh)).toHaveLength(2);
+    expect(instances.meshes[0]!.count).toBe(10);
+  });
+
+  it('should place each instance at its object transform', () => {
+    const slot = instances.allocate(block, placed(4, -2));
+
+    expect(instancePosition(instances.meshes[0]!, slot.index)).toEqual(new THREE.Vector3(4, 0, -2));
+  });
+
+  it('should color each instance (catalog color by default)', () => {
+    const a = instances.allocate(block, placed(0, 0));
+    const b = instances.allocate(block, placed(1, 0), 0xff0000);
+    const mesh = instances.meshes[0]!;
+
+    const color = new THREE.Color();
+    mesh.getColorAt(a.index, color);
+    expect(color.getHex()).toBe(new THREE.Color(block.material.color).getHex());
+    mesh.getColorAt(b.index, color);
+    expect(color.getHex()).toBe(0xff0000);
+  });
+
+  it('should hide released instances and reuse their slots', () => {
+    const first = instances.allocate(block, placed(1, 1));
+    instances.allocate(block, placed(2, 2));
+    first.release();
+
+    const matrix = new THREE.Matrix4();
+    instances.meshes[0]!.getMatrixAt(first.index, matrix);
+    expect(matrix.determinant()).toBe(0);
+
+    const reused = instances.allocate(block, placed(3, 3));
+    expect(reused.index).toBe(first.index);
+    expect(instances.meshes[0]!.count).toBe(2);
+  });
+
+  it('should only free a slot once', () => {
+    const slot = instances.allocate(block, placed(0, 0));
+    slot.release();
+    slot.release();
+
+    const a = instances.allocate(block, placed(1, 0));
+    const b = instances.allocate(block, placed(2, 0));
+    expect(a.index).not.toBe(b.index);
+  });
+
+  it('should grow past its initial capacity and keep existing instances', () => {
+    const slots = Array.from({ length: 200 }, (_, i) => instances.allocate(block, placed(i, 0)));
+    const mesh = instances.meshes[0]!;
+
+    expect(instances.meshes).toHaveLength(1);
+    expect(scene.children).toContain(mesh);
+    expect(mesh.count).toBe(200);
+    expect(instancePosition(mesh, slots[10]!.index).x).toBe(10);
+    expect(instancePosition(mesh, slots[199]!.index).x).toBe(199);
+  });
+
+  it('should free everything on clear, ignoring stale slots', () => {
+    const stale = instances.allocate(block, placed(0, 0));
+    instances.clear();
+    expect(instances.meshes[0]!.count).toBe(0);
+
+    const fresh = instances.allocate(block, placed(1, 0));
+    stale.release(); // from before the clear: must not free the new item's slot
+    const other = instances.allocate(block, placed(2, 0));
+
+    expect(other.index).not.toBe(fresh.index);
+  });
+
+  it('should take its meshes out of the scene on dispose', () => {
+    instances.allocate(block, placed(0, 0));
+    instances.dispose();
+
+    expect(scene.children).toHaveLength(0);
+    expect(instances.meshes).toHaveLength(0);
+  });
+});
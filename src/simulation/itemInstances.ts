@@ -0,0 +1,163 @@
+// --- instanced rendering of uncollected items (framework-free) ---
+import * as THREE from 'three';
+import { createItemGeometry, createItemMaterial } from '../itemCatalog';
+import type { ItemDefinition } from '../itemCatalog';
+import type { InstanceSlot } from '../gameLogic';
+
+// first InstancedMesh size per item kind (doubles whenever it runs out)
+const INITIAL_CAPACITY = 64;
+
+// matrix that hides a freed slot (scaled to nothing)
+const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+
+/**
+ * Draws all uncollected items of one kind with a single InstancedMesh (one draw call per kind
+ * instead of one per item). Items get a slot when spawned and give it back when collected or cleared.
+ */
+export interface ItemInstances {
+  allocate(def: ItemDefinition, object: THREE.Object3D, color?: THREE.ColorRepresentation): InstanceSlot;
+  clear(): void; // frees every slot (meshes stay around for the next spawn)
+  dispose(): void; // removes the instanced meshes from the scene
+  readonly meshes: THREE.InstancedMesh[]; // one per item kind spawned so far
+}
+
+interface Pool {
+  mesh: THREE.InstancedMesh;
+  used: number; // slots handed out so far (high-water mark)
+  free: number[]; // released slots, reused first
+  generation: number; // bumped on clear, so slots handed out before it can't be released twice
+}
+
+/**
+ * Creates the instanced meshes for a scene.
+ *
+ * @param parent - scene (or group) the instanced meshes are added to
+ */
+export function createItemInstances(parent: THREE.Object3D): ItemInstances {
+  const pools = new Map<ItemDefinition, Pool>();
+
+  function createInstancedMesh(
+    def: ItemDefinition,
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    capacity: number
+  ): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.count = 0;
+    mesh.name = `items:${def.id}`;
+    // items are spread over the whole level, culling them as one block wouldn't save anything
+    mesh.frustumCulled = false;
+    return mesh;
+  }
+
+  function getPool(def: ItemDefinition): Pool {
+    let pool = pools.get(def);
+    if (!pool) {
+      // material is white, the item's color comes from the instance color
+      const material = createItemMaterial(def);
+      material.color.set(0xffffff);
+
+      const mesh = createInstancedMesh(def, createItemGeometry(def), material, INITIAL_CAPACITY);
+      pool = { mesh, used: 0, free: [], generation: 0 };
+      parent.add(pool.mesh);
+      pools.set(def, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * swaps in an InstancedMesh twice the size, keeping every slot where it was
+   */
+  function grow(def: ItemDefinition, pool: Pool) {
+    const old = pool.mesh;
+    const mesh = createInstancedMesh(def, old.geometry, old.material as THREE.Material, old.instanceMatrix.count * 2);
+
+    mesh.instanceMatrix.array.set(old.instanceMatrix.array);
+    if (old.instanceColor) {
+      mesh.setColorAt(0, new THREE.Color()); // creates the color buffer
+      mesh.instanceColor!.array.set(old.instanceColor.array);
+    }
+    mesh.count = old.count;
+
+    parent.add(mesh);
+    old.removeFromParent();
+    old.dispose(); // only the instance buffers, geometry and material moved over
+    pool.mesh = mesh;
+  }
+
+  /**
+   * gives an item a slot and draws it with the object's transform
+   *
+   * @param object - holds the item's world transform (not added to the scene)
+   * @param color - instance color (the catalog color by default)
+   */
+  function allocate(
+    def: ItemDefinition,
+    object: THREE.Object3D,
+    color: THREE.ColorRepresentation = def.material.color
+  ): InstanceSlot {
+    const pool = getPool(def);
+
+    let index = pool.free.pop();
+    if (index === undefined) {
+      if (pool.used === pool.mesh.instanceMatrix.count) grow(def, pool);
+      index = pool.used++;
+      pool.mesh.count = pool.used;
+    }
+
+    object.updateMatrix();
+    pool.mesh.setMatrixAt(index, object.matrix);
+    pool.mesh.setColorAt(index, new THREE.Color(color));
+    pool.mesh.instanceMatrix.needsUpdate = true;
+    pool.mesh.instanceColor!.needsUpdate = true;
+
+    const slotIndex = index;
+    let generation: number | null = pool.generation;
+    return {
+      index: slotIndex,
+      update(target) {
+        if (generation !== pool.generation) return; // released, the slot may be someone else's now
+        target.updateMatrix();
+        pool.mesh.setMatrixAt(slotIndex, target.matrix);
+        pool.mesh.instanceMatrix.needsUpdate = true;
+      },
+      release() {
+        if (generation !== pool.generation) return; // already released (or cleared)
+        generation = null;
+
+        // hide it, the slot is reused by the next item of this kind
+        pool.mesh.setMatrixAt(slotIndex, HIDDEN_MATRIX);
+        pool.mesh.instanceMatrix.needsUpdate = true;
+        pool.free.push(slotIndex);
+      },
+    };
+  }
+
+  function clear() {
+    pools.forEach((pool) => {
+      pool.used = 0;
+      pool.free.length = 0;
+      pool.generation++;
+      pool.mesh.count = 0;
+    });
+  }
+
+  function dispose() {
+    pools.forEach((pool) => {
+      pool.mesh.removeFromParent();
+      pool.mesh.geometry.dispose();
+      (pool.mesh.material as THREE.Material).dispose();
+      pool.mesh.dispose();
+    });
+    pools.clear();
+  }
+
+  return {
+    allocate,
+    clear,
+    dispose,
+    get meshes() {
+      return [...pools.values()].map((pool) => pool.mesh);
+    },
+  };
+}
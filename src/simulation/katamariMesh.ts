@@ -0,0 +1,39 @@
+// --- katamari scene object (framework-free) ---
+import * as THREE from 'three';
+import { STARTING_KATAMARI_SIZE } from '../levels';
+import type { Level } from '../levels';
+
+/**
+ * Creates the katamari's scene object at the level's spawn point.
+ * Collected items get attached to it, so it exists even without a renderer.
+ *
+ * @param wireframe - draw the ball as a wireframe (easy to see rotation, debug-friendly), can be changed later
+ */
+export function createKatamariMesh(level: Level, wireframe: boolean = true): THREE.Mesh {
+  const geometry = new THREE.SphereGeometry(1, 32, 32); // radius 1m, 32 segments (for smoothness)
+  const material = new THREE.MeshStandardMaterial({
+    color: 0x32cd32, // lime green
+    wireframe,
+  });
+  const katamariMesh = new THREE.Mesh(geometry, material);
+  katamariMesh.position.set(level.spawn.x, level.spawn.y, level.spawn.z); // start at falling point
+  return katamariMesh;
+}
+
+/**
+ * Puts the katamari mesh back at the level's spawn point at its starting size
+ * (for restarting a run).
+ */
+export function resetKatamariMesh(katamariMesh: THREE.Mesh, level: Level): void {
+  katamariMesh.position.set(level.spawn.x, level.spawn.y, level.spawn.z);
+  katamariMesh.quaternion.identity();
+  katamariMesh.scale.setScalar(STARTING_KATAMARI_SIZE);
+}
+
+/**
+ * Switches the katamari between a wireframe and a solid ball (the items stuck to it don't change).
+ */
+export function setKatamariWireframe(katamariMesh: THREE.Mesh, wireframe: boolean): void {
+  const material = katamariMesh.material as THREE.MeshStandardMaterial;
+  material.wireframe = wireframe;
+}
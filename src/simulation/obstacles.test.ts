@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import {
+  getLevelObstacles,
+  standOnTerrain,
+  createObstacleParts,
+  createObstacleBody,
+  createObstacleMesh,
+  FENCE_THICKNESS,
+} from './obstacles';
+import { getGroundHeight } from './terrain';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import { isInArea } from '../levels';
+import { createHeightmap } from '../heightmap';
+import { makeTestLevel } from './testLevel';
+import type { ObstacleDefinition } from '../levels';
+import type { PlacedObstacle } from './obstacles';
+
+function makeLevel(obstacles: unknown[], fence?: { height: number }) {
+  return makeTestLevel({
+    bounds: { minX: -20, maxX: 20, minZ: -20, maxZ: 20 },
+    ground: { width: 40, depth: 40 },
+    obstacles,
+    fence,
+  });
+}
+
+function obstacle(def: Partial<PlacedObstacle>): PlacedObstacle {
+  return { kind: 'box', x: 0, z: 0, y: 0, width: 4, depth: 2, height: 1, rotationY: 0, steps: 1, ...def };
+}
+
+// ground rising towards +x, 2 m up at the center
+const slope = createHeightmap(40, 40, (x) => 2 + x * 0.1);
+
+/**
+ * highest point of an obstacle's colliders (in its own frame)
+ */
+function topOf(def: PlacedObstacle): number {
+  const body = createObstacleBody(def);
+  body.updateAABB();
+  return body.aabb.upperBound.y;
+}
+
+describe('Obstacles', () => {
+  it('should stand boxes and walls on the ground', () => {
+    const parts = createObstacleParts(obstacle({ kind: 'wall', height: 3 }));
+
+    expect(parts).toHaveLength(1);
+    expect(parts[0]!.offset.y).toBe(1.5);
+    expect(topOf(obstacle({ kind: 'wall', height: 3 }))).toBeCloseTo(3);
+  });
+
+  it('should build a step per step, each higher than the last', () => {
+    const parts = createObstacleParts(obstacle({ kind: 'steps', width: 6, height: 3, steps: 3 }));
+    const tops = parts.map(({ shape, offset }) => offset.y + (shape as CANNON.Box).halfExtents.y);
+
+    expect(tops).toEqual([1, 2, 3]);
+    expect(parts.map(({ offset }) => offset.x)).toEqual([-2, 0, 2]);
+  });
+
+  it('should raise ramps from the ground at -x to the full height at +x', () => {
+    const def = obstacle({ kind: 'ramp', x: 5, height: 2 });
+    const body = createObstacleBody(def);
+    const world = new CANNON.World();
+    world.addBody(body);
+
+    const heightAt = (x: number) => {
+      const result = new CANNON.RaycastResult();
+      world.raycastClosest(new CANNON.Vec3(x, 10, 0), new CANNON.Vec3(x, -1, 0), {}, result);
+      return result.hasHit ? result.hitPointWorld.y : 0;
+    };
+
+    expect(heightAt(3.5)).toBeCloseTo(0.25);
+    expect(heightAt(5)).toBeCloseTo(1);
+    expect(heightAt(6.9)).toBeCloseTo(1.95);
+  });
+
+  it('should turn obstacles by their rotation', () => {
+    const def = obstacle({ kind: 'wall', width: 10, rotationY: Math.PI / 2 });
+    const body = createObstacleBody(def);
+    body.updateAABB();
+
+    expect(body.aabb.upperBound.z).toBeCloseTo(5); // the wall runs along z now
+    expect(body.aabb.upperBound.x).toBeCloseTo(1);
+  });
+
+  it('should build meshes matching the colliders', () => {
+    const def = obstacle({ kind: 'steps', x: 3, z: -2, width: 6, height: 3, steps: 3, rotationY: 0.5 });
+    const mesh = createObstacleMesh(def);
+    const body = createObstacleBody(def);
+    mesh.updateMatrixWorld();
+    body.updateAABB();
+
+    const bounds = new THREE.Box3().setFromObject(mesh);
+    expect(bounds.min.x).toBeCloseTo(body.aabb.lowerBound.x);
+    expect(bounds.max.x).toBeCloseTo(body.aabb.upperBound.x);
+    expect(bounds.max.y).toBeCloseTo(3);
+    expect(bounds.max.z).toBeCloseTo(body.aabb.upperBound.z);
+  });
+
+  it('should color obstacles by kind unless the level picks a color', () => {
+    const wall = createObstacleMesh(obstacle({ kind: 'wall' })).children[0] as THREE.Mesh;
+    const red = createObstacleMesh(obstacle({ color: '#ff0000' })).children[0] as THREE.Mesh;
+
+    expect((wall.material as THREE.MeshStandardMaterial).color.getHexString()).toBe('b0b0b0');
+    expect((red.material as THREE.MeshStandardMaterial).color.getHexString()).toBe('ff0000');
+  });
+
+  it('should fence the level bounds in', () => {
+    const level = makeLevel([{ kind: 'box', x: 5, z: 5, width: 1, depth: 1, height: 1 }], { height: 2 });
+    const obstacles = getLevelObstacles(level);
+
+    expect(obstacles).toHaveLength(5);
+    expect(getLevelObstacles(makeLevel([]))).toHaveLength(0);
+    obstacles.slice(1).forEach((fence) => {
+      expect(fence.kind).toBe('wall');
+      expect(fence.height).toBe(2);
+      expect(isInArea(level.bounds, fence.x, fence.z)).toBe(false); // just outside, not in the way
+    });
+    expect(obstacles[1]!.width).toBe(40 + FENCE_THICKNESS * 2); // covers the corners
+  });
+
+  it('should leave obstacles where they are on flat ground', () => {
+    const def: ObstacleDefinition = obstacle({ kind: 'wall', x: 5, height: 3 });
+
+    expect(standOnTerrain(def, null)).toEqual({ ...def, y: 0 });
+  });
+
+  it('should stand obstacles on the hills, as tall above the highest ground as on flat ground', () => {
+    // 4 m wide at x = 5: the ground under it goes from 2.3 up to 2.7
+    const placed = standOnTerrain(obstacle({ kind: 'wall', x: 5, width: 4, height: 3 }), slope);
+
+    expect(placed.y).toBeCloseTo(2.3);
+    expect(placed.height).toBeCloseTo(3.4);
+    expect(topOf(placed)).toBeCloseTo(2.7 + 3);
+  });
+
+  it('should measure the ground under turned obstacles the way they are turned', () => {
+    // turned a quarter: 4 m deep along x instead of 2
+    const placed = standOnTerrain(obstacle({ x: 5, width: 2, depth: 4, rotationY: Math.PI / 2 }), slope);
+
+    expect(placed.y).toBeCloseTo(2.3);
+    expect(placed.height).toBeCloseTo(1.4);
+  });
+
+  it('should stand the fence on the hills too', () => {
+    getLevelObstacles(makeLevel([], { height: 2 }), slope).forEach((fence) => {
+      const body = createObstacleBody(fence);
+      body.updateAABB();
+      const { lowerBound, upperBound } = body.aabb;
+
+      // the ground rises along x: lowest under the west end, highest under the east end
+      expect(lowerBound.y).toBeCloseTo(getGroundHeight(slope, lowerBound.x, fence.z));
+      expect(upperBound.y).toBeCloseTo(getGroundHeight(slope, upperBound.x, fence.z) + 2);
+    });
+  });
+});
+
+describe('Obstacles in the simulation', () => {
+  it('should stop the katamari at a wall', () => {
+    const sim = createHeadlessSimulation(makeLevel([{ kind: 'wall', x: 6, z: 0, width: 1, depth: 10, height: 3 }]));
+    sim.input.x = 1;
+
+    runSimulation(sim, 4);
+
+    expect(sim.katamariBody.position.x).toBeLessThan(6);
+    expect(sim.katamariBody.position.x).toBeGreaterThan(4);
+  });
+
+  it('should roll the katamari up a ramp', () => {
+    const sim = createHeadlessSimulation(makeLevel([{ kind: 'ramp', x: 8, z: 0, width: 8, depth: 6, height: 2 }]));
+    sim.input.x = 1;
+    let highest = 0;
+
+    runSimulation(sim, 4, (s) => {
+      highest = Math.max(highest, s.katamariBody.position.y);
+    });
+
+    expect(highest).toBeGreaterThan(2);
+  });
+
+  it('should keep the katamari in with a fence', () => {
+    const sim = createHeadlessSimulation(makeLevel([], { height: 2 }));
+    sim.input.x = 1;
+
+    runSimulation(sim, 10);
+
+    expect(sim.katamariBody.position.x).toBeLessThan(20);
+    expect(sim.katamariBody.position.y).toBeGreaterThan(0);
+  });
+});
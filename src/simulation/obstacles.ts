@@ -0,0 +1,204 @@
+// --- static level geometry: walls, boxes, ramps, steps (framework-free) ---
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { createConvexGeometry } from './debugDraw';
+import { getGroundHeight } from './terrain';
+import type { Level, ObstacleDefinition, ObstacleKind } from '../levels';
+import type { Heightmap } from '../heightmap';
+
+// fences round the level bounds are this thick (m), standing just outside the bounds
+export const FENCE_THICKNESS = 1;
+
+// colors for obstacles that don't set their own
+export const OBSTACLE_COLORS: Record<ObstacleKind, string> = {
+  box: '#c8a165', // wooden crate
+  wall: '#b0b0b0', // concrete
+  ramp: '#d2b48c', // tan
+  steps: '#a9a9a9', // stone
+};
+
+/**
+ * An obstacle where it stands: its base is at y (0 on flat ground, see standOnTerrain for hills).
+ */
+export interface PlacedObstacle extends ObstacleDefinition {
+  y: number;
+}
+
+/**
+ * One cannon shape of an obstacle, offset from the obstacle's center on the ground.
+ */
+export interface ObstaclePart {
+  shape: CANNON.Box | CANNON.ConvexPolyhedron;
+  offset: CANNON.Vec3;
+}
+
+/**
+ * Stands an obstacle on the terrain: its base goes down to the lowest ground under it and it's made
+ * taller by the rise in the ground there, so it still stands its full height above the highest ground
+ * (no gaps underneath, no walls sunk into a hill).
+ *
+ * @param terrain - the level's hills (null for flat ground: the obstacle stays as it is)
+ */
+export function standOnTerrain(def: ObstacleDefinition, terrain: Heightmap | null): PlacedObstacle {
+  if (!terrain) return { ...def, y: 0 };
+
+  // sample the ground under the footprint at half the heightmap's spacing (the corners included)
+  const spacing = terrain.cellSize / 2;
+  const across = Math.ceil(def.width / spacing);
+  const along = Math.ceil(def.depth / spacing);
+  const cos = Math.cos(def.rotationY);
+  const sin = Math.sin(def.rotationY);
+  let lowest = Infinity;
+  let highest = -Infinity;
+
+  for (let i = 0; i <= across; i++) {
+    for (let j = 0; j <= along; j++) {
+      // turned the same way as the obstacle's body and mesh
+      const localX = def.width * (i / across - 0.5);
+      const localZ = def.depth * (j / along - 0.5);
+      const height = getGroundHeight(terrain, def.x + localX * cos + localZ * sin, def.z - localX * sin + localZ * cos);
+      lowest = Math.min(lowest, height);
+      highest = Math.max(highest, height);
+    }
+  }
+
+  return { ...def, y: lowest, height: def.height + highest - lowest };
+}
+
+/**
+ * Everything static a level has standing on its ground: its own obstacles plus the fence walls (if any),
+ * stood on the level's hills.
+ *
+ * @param terrain - the level's hills (null for flat ground)
+ */
+export function getLevelObstacles(level: Level, terrain: Heightmap | null = null): PlacedObstacle[] {
+  const obstacles = [...level.obstacles, ...getFenceWalls(level)];
+  return obstacles.map((obstacle) => standOnTerrain(obstacle, terrain));
+}
+
+/**
+ * The fence walls round the level bounds (none if the level has no fence).
+ */
+function getFenceWalls(level: Level): ObstacleDefinition[] {
+  if (!level.fence) return [];
+
+  const { minX, maxX, minZ, maxZ } = level.bounds;
+  const { height } = level.fence;
+  const half = FENCE_THICKNESS / 2;
+  const fence = (x: number, z: number, width: number, depth: number): ObstacleDefinition => ({
+    kind: 'wall',
+    x,
+    z,
+    width,
+    depth,
+    height,
+    rotationY: 0,
+    steps: 1,
+  });
+
+  // north and south walls run past the corners, so there are no gaps to squeeze through
+  return [
+    fence((minX + maxX) / 2, minZ - half, maxX - minX + FENCE_THICKNESS * 2, FENCE_THICKNESS),
+    fence((minX + maxX) / 2, maxZ + half, maxX - minX + FENCE_THICKNESS * 2, FENCE_THICKNESS),
+    fence(minX - half, (minZ + maxZ) / 2, FENCE_THICKNESS, maxZ - minZ),
+    fence(maxX + half, (minZ + maxZ) / 2, FENCE_THICKNESS, maxZ - minZ),
+  ];
+}
+
+/**
+ * Builds the collider shapes of an obstacle (in its own frame, y = 0 on the ground).
+ * - boxes and walls: one box
+ * - ramps: a wedge rising from the ground at -x to the full height at +x
+ * - steps: a box per step, each one higher than the last
+ */
+export function createObstacleParts(def: ObstacleDefinition): ObstaclePart[] {
+  const { width, depth, height } = def;
+
+  switch (def.kind) {
+    case 'box':
+    case 'wall':
+      return [
+        {
+          shape: new CANNON.Box(new CANNON.Vec3(width / 2, height / 2, depth / 2)),
+          offset: new CANNON.Vec3(0, height / 2, 0),
+        },
+      ];
+    case 'ramp': {
+      const x = width / 2;
+      const z = depth / 2;
+      const vertices = [
+        new CANNON.Vec3(-x, 0, -z),
+        new CANNON.Vec3(x, 0, -z),
+        new CANNON.Vec3(x, height, -z),
+        new CANNON.Vec3(-x, 0, z),
+        new CANNON.Vec3(x, 0, z),
+        new CANNON.Vec3(x, height, z),
+      ];
+      // counter-clockwise seen from outside (cannon works out the face normals from the winding)
+      const faces = [
+        [0, 1, 4, 3], // bottom
+        [1, 2, 5, 4], // back (the high end)
+        [0, 2, 1], // sides
+        [3, 4, 5],
+        [0, 3, 5, 2], // slope
+      ];
+      return [{ shape: new CANNON.ConvexPolyhedron({ vertices, faces }), offset: new CANNON.Vec3() }];
+    }
+    case 'steps': {
+      const stepWidth = width / def.steps;
+      return Array.from({ length: def.steps }, (_, i) => {
+        const stepHeight = (height * (i + 1)) / def.steps;
+        return {
+          shape: new CANNON.Box(new CANNON.Vec3(stepWidth / 2, stepHeight / 2, depth / 2)),
+          offset: new CANNON.Vec3(-width / 2 + stepWidth * (i + 0.5), stepHeight / 2, 0),
+        };
+      });
+    }
+  }
+}
+
+/**
+ * Creates the static physics body of an obstacle, standing where it was placed (on the ground or the hills).
+ *
+ * @param material - surface the katamari rolls on (the ground's, so it grips the same)
+ */
+export function createObstacleBody(def: PlacedObstacle, material?: CANNON.Material): CANNON.Body {
+  const body = new CANNON.Body({
+    type: CANNON.Body.STATIC,
+    position: new CANNON.Vec3(def.x, def.y, def.z),
+    material,
+  });
+  body.quaternion.setFromEuler(0, def.rotationY, 0);
+  createObstacleParts(def).forEach(({ shape, offset }) => body.addShape(shape, offset));
+  return body;
+}
+
+/**
+ * Creates the scene object of an obstacle, built from the same shapes as its body
+ * (what you see is what you bump into).
+ */
+export function createObstacleMesh(def: PlacedObstacle): THREE.Object3D {
+  const material = new THREE.MeshStandardMaterial({ color: def.color ?? OBSTACLE_COLORS[def.kind] });
+  const group = new THREE.Group();
+  group.name = `obstacle-${def.kind}`;
+  group.position.set(def.x, def.y, def.z);
+  group.rotation.y = def.rotationY;
+
+  createObstacleParts(def).forEach(({ shape, offset }) => {
+    let geometry: THREE.BufferGeometry;
+    if (shape instanceof CANNON.Box) {
+      const half = shape.halfExtents;
+      geometry = new THREE.BoxGeometry(half.x * 2, half.y * 2, half.z * 2);
+    } else {
+      // flat shading: split the shared corners so each face gets its own normal
+      geometry = createConvexGeometry(shape).toNonIndexed();
+      geometry.computeVertexNormals();
+    }
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(offset.x, offset.y, offset.z);
+    group.add(mesh);
+  });
+
+  return group;
+}
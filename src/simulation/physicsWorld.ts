@@ -0,0 +1,99 @@
+// --- physics world setup (framework-free) ---
+import * as CANNON from 'cannon-es';
+import { STARTING_KATAMARI_SIZE } from '../levels';
+import { createTerrainHeightmap } from '../heightmap';
+import { getLevelObstacles, createObstacleBody } from './obstacles';
+import { createTerrainBody } from './terrain';
+import { BEHAVIOR_MATERIAL } from './behaviors';
+import type { Level } from '../levels';
+import type { Heightmap } from '../heightmap';
+
+// the ground is a slab this thick (m), its top at y = 0 (thick enough that a fast ball can't pass through)
+export const GROUND_THICKNESS = 2;
+
+export interface PhysicsWorld {
+  world: CANNON.World;
+  katamariBody: CANNON.Body;
+  terrain: Heightmap | null; // the hills the ground is built from (null for flat ground)
+}
+
+/**
+ * Creates the physics world for a level: gravity, materials, the ground, the level's obstacles and the katamari body.
+ * The katamari starts at the level's spawn point.
+ */
+export function createPhysicsWorld(level: Level): PhysicsWorld {
+  // create main physics world with earth-like gravity
+  const world = new CANNON.World({ gravity: new CANNON.Vec3(0, -9.82, 0) });
+
+  // materials: surface properties for friction/bounce
+  const groundMat = new CANNON.Material('ground');
+  const ballMat = new CANNON.Material('ball');
+
+  // contact materials (what happens when two materials touch?)
+  const contactMat = new CANNON.ContactMaterial(groundMat, ballMat, {
+    friction: 0.8, // high friction -> ball grips ground better
+    restitution: 0.3, // low bounce -> more realistic rolling
+  });
+  world.addContactMaterial(contactMat);
+
+  // items that move on their own glide, their behavior does the steering
+  world.addContactMaterial(new CANNON.ContactMaterial(groundMat, BEHAVIOR_MATERIAL, { friction: 0, restitution: 0 }));
+
+  // create the physics body (katamari is a sphere)
+  // damping -> prevents infinite acceleration and spinning
+  const katamariBody = new CANNON.Body({
+    mass: 1, // light enough to move easily, not so light that it'll float away
+    shape: new CANNON.Sphere(STARTING_KATAMARI_SIZE), //radius of 1m
+    material: ballMat,
+    position: new CANNON.Vec3(level.spawn.x, level.spawn.y, level.spawn.z), // start in the air for a cute fall and bounce
+    linearDamping: 0.5, // air resistance for movement
+    angularDamping: 0.5 // rotational friction (stops spinning gradually)
+  });
+  world.addBody(katamariBody);
+
+  // create the ground
+  // hills (heightfield) or a flat slab, the size of the visible ground (not an infinite plane): roll off the edge and you fall
+  const terrain = level.terrain ? createTerrainHeightmap(level.terrain, level.ground) : null;
+  const groundBody = terrain
+    ? createTerrainBody(terrain, groundMat)
+    : new CANNON.Body({
+        type: CANNON.Body.STATIC, // immovable object
+        shape: new CANNON.Box(new CANNON.Vec3(level.ground.width / 2, GROUND_THICKNESS / 2, level.ground.depth / 2)),
+        position: new CANNON.Vec3(0, -GROUND_THICKNESS / 2, 0), // top face at y = 0
+        material: groundMat
+      });
+  world.addBody(groundBody);
+
+  // walls, ramps, steps, ... (same surface as the ground)
+  getLevelObstacles(level, terrain).forEach((obstacle) => world.addBody(createObstacleBody(obstacle, groundMat)));
+
+  return { world, katamariBody, terrain };
+}
+
+/**
+ * Puts the katamari body back at the level's spawn point, at rest and at its starting size,
+ * a plain sphere again (for restarting a run).
+ */
+export function resetKatamariBody(katamariBody: CANNON.Body, level: Level): void {
+  // item lumps (see updateKatamariColliders) normally go with their items, this catches any left over
+  while (katamariBody.shapes.length > 1) katamariBody.removeShape(katamariBody.shapes[1]!);
+
+  katamariBody.position.set(level.spawn.x, level.spawn.y, level.spawn.z);
+  katamariBody.quaternion.set(0, 0, 0, 1);
+  katamariBody.velocity.set(0, 0, 0);
+  katamariBody.angularVelocity.set(0, 0, 0);
+  (katamariBody.shapes[0] as CANNON.Sphere).radius = STARTING_KATAMARI_SIZE;
+  katamariBody.updateBoundingRadius();
+  katamariBody.updateMassProperties(); // same inertia as a fresh katamari body (unturned starting sphere)
+}
+
+/**
+ * Puts a katamari that fell off the level back at the spawn point, at rest.
+ * Unlike a reset it keeps its size and items (it's dropped from higher up by as much as it grew).
+ */
+export function respawnKatamariBody(katamariBody: CANNON.Body, level: Level): void {
+  const lift = katamariBody.boundingRadius - STARTING_KATAMARI_SIZE;
+  katamariBody.position.set(level.spawn.x, level.spawn.y + lift, level.spawn.z);
+  katamariBody.velocity.set(0, 0, 0);
+  katamariBody.angularVelocity.set(0, 0, 0);
+}
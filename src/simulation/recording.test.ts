@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import type { HeadlessSimulation } from './simulation';
+import {
+  createInputRecorder,
+  createReplayPlayer,
+  decodeInputs,
+  parseRecording,
+  clampReplaySpeed,
+  RECORDING_VERSION,
+} from './recording';
+import type { Recording, ReplayTarget } from './recording';
+import { findLevel } from '../levels';
+import { ValidationError } from '../validation';
+
+const playroom = findLevel('playroom')!; // has random spawn zones
+
+/**
+ * what a replay needs from a headless simulation
+ */
+function replayTarget(sim: HeadlessSimulation): ReplayTarget {
+  return {
+    simulation: sim,
+    restart: (seed) => sim.restart(seed),
+    respawn: () => sim.respawnItems(),
+  };
+}
+
+/**
+ * plays 6 seconds of zig-zagging with a camera turn and a respawn half way, recording every step
+ */
+function recordRun(seed: number): { sim: HeadlessSimulation; recording: Recording } {
+  const sim = createHeadlessSimulation(playroom, { seed });
+  const recorder = createInputRecorder(playroom.id, seed);
+  const target = replayTarget(sim);
+
+  sim.input.y = 1;
+  runSimulation(sim, 6, (s) => {
+    s.input.x = Math.floor(s.time) % 2 === 0 ? -0.5 : 0.5;
+    s.view.heading = s.time > 3 ? 0.3 : 0;
+    if (recorder.steps === 200) {
+      target.respawn();
+      recorder.recordEvent('respawn');
+    }
+    recorder.record(s.input, s.view);
+  });
+
+  return { sim, recording: recorder.finish() };
+}
+
+function stateOf(sim: HeadlessSimulation) {
+  return {
+    position: sim.katamariBody.position.clone(),
+    velocity: sim.katamariBody.velocity.clone(),
+    size: sim.size,
+    collected: sim.collectibles.filter((item) => item.collected).map((item) => item.type),
+    items: sim.collectibles.map((item) => item.body.position.clone()),
+  };
+}
+
+describe('Input recording', () => {
+  it('should store one frame per step, run-length encoded', () => {
+    const recorder = createInputRecorder('test', 7);
+    const view = { heading: 0 };
+    recorder.record({ x: 0, y: 1 }, view);
+    recorder.record({ x: 0, y: 1 }, view);
+    recorder.record({ x: 0, y: 1 }, view);
+    recorder.record({ x: 1, y: 0 }, view);
+
+    const recording = recorder.finish();
+    expect(recording.steps).toBe(4);
+    expect(recording.inputs).toEqual([
+      [3, 0, 1, 0],
+      [1, 1, 0, 0],
+    ]);
+    expect(decodeInputs(recording)).toHaveLength(4);
+    expect(decodeInputs(recording)[3]).toEqual({ x: 1, y: 0, heading: 0 });
+  });
+
+  it('should survive a trip through json', () => {
+    const { recording } = recordRun(1);
+
+    expect(parseRecording(JSON.parse(JSON.stringify(recording)))).toEqual(recording);
+  });
+
+  it('should reject broken recordings', () => {
+    const { recording } = recordRun(1);
+
+    expect(() => parseRecording({ ...recording, version: RECORDING_VERSION + 1 })).toThrow(/version/);
+    expect(() => parseRecording({ ...recording, steps: recording.steps + 1 })).toThrow(ValidationError);
+    expect(() => parseRecording({ ...recording, events: [{ step: 1, type: 'explode' }] })).toThrow(/events\[0\]\.type/);
+  });
+});
+
+describe('Replay', () => {
+  it('should reproduce a run exactly from its seed and inputs', () => {
+    const { sim: original, recording } = recordRun(12345);
+
+    // a different layout to start with: the replay restarts from the recording's seed
+    const sim = createHeadlessSimulation(playroom, { seed: 999 });
+    const player = createReplayPlayer(recording, replayTarget(sim));
+    while (!player.finished) player.step();
+
+    expect(player.position).toBe(recording.steps);
+    expect(stateOf(sim)).toEqual(stateOf(original));
+  });
+
+  it('should end up in the same place after seeking back and forth', () => {
+    const { sim: original, recording } = recordRun(42);
+    const sim = createHeadlessSimulation(playroom);
+    const player = createReplayPlayer(recording, replayTarget(sim));
+
+    player.seek(300);
+    expect(player.position).toBe(300);
+    player.seek(50); // backwards: replays from the start
+    expect(player.position).toBe(50);
+    player.seek(recording.steps + 100); // past the end stops at the end
+
+    expect(player.finished).toBe(true);
+    expect(stateOf(sim)).toEqual(stateOf(original));
+  });
+
+  it('should do nothing when stepping past the end', () => {
+    const { recording } = recordRun(3);
+    const sim = createHeadlessSimulation(playroom);
+    const player = createReplayPlayer(recording, replayTarget(sim));
+    player.seek(recording.steps);
+    const time = sim.time;
+
+    player.step();
+
+    expect(sim.time).toBe(time);
+  });
+
+  it('should keep playback speeds between 0.25x and 4x', () => {
+    expect(clampReplaySpeed(0.1)).toBe(0.25);
+    expect(clampReplaySpeed(2)).toBe(2);
+    expect(clampReplaySpeed(10)).toBe(4);
+  });
+});
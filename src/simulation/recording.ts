@@ -0,0 +1,257 @@
+// --- input recording and replay (framework-free) ---
+import { Validator, ValidationError } from '../validation';
+import { FIXED_TIMESTEP } from '../fixedTimestep';
+import type { InputVector, ViewState } from '../gameLogic';
+import type { Simulation } from './simulation';
+
+// bump when the format changes (old recordings can't be replayed by a newer simulation anyway)
+export const RECORDING_VERSION = 1;
+
+// playback speeds offered by the replay controls
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4] as const;
+export const MIN_REPLAY_SPEED = 0.25;
+export const MAX_REPLAY_SPEED = 4;
+
+/**
+ * What the simulation reads from the player during one physics step.
+ */
+export interface InputFrame {
+  x: number; // input vector (camera-relative)
+  y: number;
+  heading: number; // camera heading the input is relative to
+}
+
+/**
+ * Things the player does between steps that change the world (besides moving).
+ * Replayed right before the step they were recorded at.
+ */
+export interface RecordedEvent {
+  step: number;
+  type: 'respawn';
+}
+
+/**
+ * A run as a seed plus the input of every physics step.
+ * Replaying the inputs on a level spawned from the same seed reproduces the run exactly.
+ */
+export interface Recording {
+  version: number;
+  levelId: string;
+  seed: number; // seeds the random spawn zones
+  timestep: number; // seconds per step (recordings only replay at the step size they were made with)
+  recordedAt: string; // ISO date
+  steps: number; // total number of steps
+  inputs: [number, number, number, number][]; // run-length encoded frames: [repeat, x, y, heading]
+  events: RecordedEvent[];
+}
+
+/**
+ * Records the input of a run, one frame per physics step.
+ * Identical frames in a row (holding a key, standing still) are stored once with a repeat count.
+ */
+export interface InputRecorder {
+  readonly steps: number;
+  record(input: InputVector, view: ViewState): void; // call once per physics step
+  recordEvent(type: RecordedEvent['type']): void; // happens before the next recorded step
+  finish(): Recording;
+}
+
+export function createInputRecorder(levelId: string, seed: number, timestep: number = FIXED_TIMESTEP): InputRecorder {
+  const inputs: Recording['inputs'] = [];
+  const events: RecordedEvent[] = [];
+  let steps = 0;
+
+  function record(input: InputVector, view: ViewState) {
+    const last = inputs[inputs.length - 1];
+    if (last && last[1] === input.x && last[2] === input.y && last[3] === view.heading) {
+      last[0]++;
+    } else {
+      inputs.push([1, input.x, input.y, view.heading]);
+    }
+    steps++;
+  }
+
+  function recordEvent(type: RecordedEvent['type']) {
+    events.push({ step: steps, type });
+  }
+
+  /**
+   * returns the recording so far (recording can carry on afterwards)
+   */
+  function finish(): Recording {
+    return {
+      version: RECORDING_VERSION,
+      levelId,
+      seed,
+      timestep,
+      recordedAt: new Date().toISOString(),
+      steps,
+      inputs: inputs.map((frame) => [...frame]),
+      events: events.map((event) => ({ ...event })),
+    };
+  }
+
+  return {
+    get steps() {
+      return steps;
+    },
+    record,
+    recordEvent,
+    finish,
+  };
+}
+
+/**
+ * Expands a recording's run-length encoded inputs into one frame per step.
+ */
+export function decodeInputs(recording: Recording): InputFrame[] {
+  const frames: InputFrame[] = [];
+  recording.inputs.forEach(([repeat, x, y, heading]) => {
+    for (let i = 0; i < repeat; i++) frames.push({ x, y, heading });
+  });
+  return frames;
+}
+
+/**
+ * Validates raw json data (e.g. a downloaded recording) and returns a typed recording.
+ * Throws a ValidationError listing every problem.
+ */
+export function parseRecording(data: unknown): Recording {
+  const v = new Validator();
+  const root = v.object(data, 'recording');
+
+  if (root.version !== RECORDING_VERSION) {
+    throw new ValidationError('recording', [
+      `version: expected ${RECORDING_VERSION}, got ${JSON.stringify(root.version)} (recordings only replay in the version they were made with)`,
+    ]);
+  }
+
+  const inputs = v.array(root.inputs, 'inputs').map((raw, i): [number, number, number, number] => {
+    const frame = v.array(raw, `inputs[${i}]`);
+    if (frame.length !== 4) {
+      v.fail(`inputs[${i}]`, `expected [repeat, x, y, heading], got ${frame.length} values`);
+      return [0, 0, 0, 0];
+    }
+    return [
+      v.number(frame[0], `inputs[${i}][0]`, { min: 1 }),
+      v.number(frame[1], `inputs[${i}][1]`, { min: -1, max: 1 }),
+      v.number(frame[2], `inputs[${i}][2]`, { min: -1, max: 1 }),
+      v.number(frame[3], `inputs[${i}][3]`),
+    ];
+  });
+
+  const recording: Recording = {
+    version: RECORDING_VERSION,
+    levelId: v.string(root.levelId, 'levelId'),
+    seed: v.number(root.seed, 'seed', { min: 0 }),
+    timestep: v.positive(root.timestep, 'timestep'),
+    recordedAt: v.string(root.recordedAt, 'recordedAt'),
+    steps: v.number(root.steps, 'steps', { min: 0 }),
+    inputs,
+    events: v.array(root.events, 'events').map((raw, i) => {
+      const event = v.object(raw, `events[${i}]`);
+      return {
+        step: v.number(event.step, `events[${i}].step`, { min: 0 }),
+        type: v.oneOf(event.type, `events[${i}].type`, ['respawn'] as const),
+      };
+    }),
+  };
+
+  const frameCount = inputs.reduce((sum, [repeat]) => sum + repeat, 0);
+  if (frameCount !== recording.steps) {
+    v.fail('inputs', `frames add up to ${frameCount} steps, expected ${recording.steps}`);
+  }
+
+  v.assertValid('recording');
+  return recording;
+}
+
+/**
+ * What a replay drives besides the simulation itself.
+ */
+export interface ReplayTarget {
+  simulation: Simulation;
+  restart(seed: number): void; // back to the start of the level, random items spawned from the seed
+  respawn(): void; // recorded respawn (clears and respawns the level's items)
+}
+
+/**
+ * Plays a recording back on a simulation, step by step.
+ * Has the same step() as a simulation, so the game loop can drive it in place of one.
+ */
+export interface ReplayPlayer {
+  readonly recording: Recording;
+  readonly position: number; // steps played so far
+  readonly length: number; // steps in the recording
+  readonly finished: boolean;
+  readonly katamariBody: Simulation['katamariBody'];
+  readonly katamariMesh: Simulation['katamariMesh'];
+  step(): void; // plays the next step (does nothing once finished)
+  seek(position: number): void; // jumps to a step (backwards = replay from the start)
+  restart(): void; // back to step 0
+}
+
+/**
+ * Creates a replay of a recording. Starts by restarting the level from the recording's seed.
+ */
+export function createReplayPlayer(recording: Recording, target: ReplayTarget): ReplayPlayer {
+  const { simulation } = target;
+  const frames = decodeInputs(recording);
+  let position = 0;
+
+  function restart() {
+    target.restart(recording.seed);
+    position = 0;
+  }
+
+  function step() {
+    const frame = frames[position];
+    if (!frame) return;
+
+    recording.events.forEach((event) => {
+      if (event.step === position && event.type === 'respawn') target.respawn();
+    });
+
+    simulation.input.x = frame.x;
+    simulation.input.y = frame.y;
+    simulation.view.heading = frame.heading;
+    simulation.step(recording.timestep);
+    position++;
+  }
+
+  /**
+   * runs the simulation to a step as fast as possible (nothing is drawn on the way)
+   */
+  function seek(target: number) {
+    const clamped = Math.max(0, Math.min(frames.length, Math.round(target)));
+    if (clamped < position) restart();
+    while (position < clamped) step();
+  }
+
+  restart();
+
+  return {
+    recording,
+    get position() {
+      return position;
+    },
+    get length() {
+      return frames.length;
+    },
+    get finished() {
+      return position >= frames.length;
+    },
+    katamariBody: simulation.katamariBody,
+    katamariMesh: simulation.katamariMesh,
+    step,
+    seek,
+    restart,
+  };
+}
+
+/**
+ * Keeps a playback speed within what replays support.
+ */
+export function clampReplaySpeed(speed: number): number {
+  return Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, speed));
+}
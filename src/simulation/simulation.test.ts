@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import type { HeadlessSimulation } from './simulation';
+import { findLevel } from '../levels';
+import { makeTestLevel } from './testLevel';
+import { detachItem } from '../gameLogic';
+import type { Collectible } from '../gameLogic';
+import { FIXED_TIMESTEP } from '../fixedTimestep';
+
+describe('Headless simulation', () => {
+  let sim: HeadlessSimulation;
+  let collected: Collectible[];
+  let knockedOff: Collectible[];
+  let fallOuts: number;
+
+  function setup(items: { type: string; x: number; z: number }[]) {
+    collected = [];
+    knockedOff = [];
+    fallOuts = 0;
+    sim = createHeadlessSimulation(makeTestLevel({ items }), {
+      events: {
+        onCollect: (item) => collected.push(item),
+        onKnockOff: (item) => knockedOff.push(item),
+        onFallOut: () => fallOuts++,
+      },
+    });
+  }
+
+  beforeEach(() => {
+    setup([]);
+  });
+
+  it('should run in node without a renderer', () => {
+    expect(sim.world.bodies).toContain(sim.katamariBody);
+    expect(sim.scene.children).toContain(sim.katamariMesh);
+    expect(sim.size).toBe(1);
+  });
+
+  it('should advance simulated time in fixed steps', () => {
+    sim.step();
+    sim.step();
+
+    expect(sim.time).toBeCloseTo(2 * FIXED_TIMESTEP);
+  });
+
+  it('should settle the katamari on the ground', () => {
+    runSimulation(sim, 2);
+
+    expect(sim.katamariBody.position.y).toBeCloseTo(1, 1);
+    expect(sim.katamariMesh.position.y).toBeCloseTo(sim.katamariBody.position.y);
+  });
+
+  it('should roll the katamari where the input points', () => {
+    sim.input.x = 1;
+    runSimulation(sim, 2);
+
+    expect(sim.katamariBody.position.x).toBeGreaterThan(2);
+    expect(Math.abs(sim.katamariBody.position.z)).toBeLessThan(0.5);
+  });
+
+  it('should roll the way the camera looks', () => {
+    // camera turned a quarter left: forward is -x
+    sim.view.heading = Math.PI / 2;
+    sim.input.y = 1;
+    runSimulation(sim, 2);
+
+    expect(sim.katamariBody.position.x).toBeLessThan(-2);
+    expect(Math.abs(sim.katamariBody.position.z)).toBeLessThan(0.5);
+  });
+
+  it('should roll slower with a half-pushed stick', () => {
+    sim.input.y = 0.3;
+    runSimulation(sim, 1);
+    const slow = -sim.katamariBody.position.z;
+
+    sim.restart();
+    sim.input.y = 1;
+    runSimulation(sim, 1);
+    const fast = -sim.katamariBody.position.z;
+
+    expect(slow).toBeGreaterThan(0);
+    expect(fast).toBeGreaterThan(slow * 2);
+  });
+
+  it('should absorb small items it rolls over and grow', () => {
+    setup([{ type: 'toy-block', x: 4, z: 0 }]);
+    sim.input.x = 1;
+    runSimulation(sim, 3);
+
+    expect(collected).toHaveLength(1);
+    expect(collected[0]!.collected).toBe(true);
+    expect(collected[0]!.mesh.parent).toBe(sim.katamariMesh);
+    expect(sim.world.bodies).not.toContain(collected[0]!.body);
+    expect(sim.size).toBeGreaterThan(1);
+  });
+
+  it('should get lumpy where absorbed items stick out', () => {
+    setup([{ type: 'toy-block', x: 4, z: 0 }]);
+    sim.input.x = 1;
+    runSimulation(sim, 3);
+
+    expect(sim.katamariBody.shapes).toHaveLength(2);
+    expect(sim.katamariBody.shapes[1]).toBe(collected[0]!.colliderShape);
+    expect(sim.katamariBody.boundingRadius).toBeGreaterThan(sim.size);
+  });
+
+  it('should draw uncollected items instanced and promote them when absorbed', () => {
+    setup([{ type: 'toy-block', x: 4, z: 0 }]);
+    const item = sim.collectibles[0]!;
+
+    expect(item.instanceSlot).toBeDefined();
+    expect(item.mesh.parent).toBeNull();
+
+    sim.input.x = 1;
+    runSimulation(sim, 3);
+
+    expect(item.instanceSlot).toBeUndefined();
+    expect(item.mesh.parent).toBe(sim.katamariMesh);
+  });
+
+  it('should not absorb items that are too big', () => {
+    setup([{ type: 'boulder', x: 5, z: 0 }]);
+    sim.input.x = 1;
+    runSimulation(sim, 3);
+
+    expect(collected).toHaveLength(0);
+    expect(sim.size).toBe(1);
+    // the boulder is a solid obstacle: the ball can't roll through it
+    expect(sim.katamariBody.position.x).toBeLessThan(5);
+  });
+
+  it('should knock items off on a hard hit', () => {
+    setup([
+      { type: 'toy-block', x: 3, z: 0 },
+      { type: 'boulder', x: 24, z: 0 },
+    ]);
+    sim.input.x = 1;
+    runSimulation(sim, 2);
+    expect(collected).toHaveLength(1);
+    const sizeWithItem = sim.size;
+
+    // keep rolling and slam into the boulder at full speed
+    runSimulation(sim, 3);
+
+    expect(knockedOff).toHaveLength(1);
+    expect(knockedOff[0]!.collected).toBe(false);
+    expect(sim.size).toBeLessThan(sizeWithItem);
+
+    // the loose item's mesh tumbles along with its body
+    runSimulation(sim, 0.5);
+    expect(knockedOff[0]!.mesh.parent).toBe(sim.scene);
+    expect(knockedOff[0]!.mesh.position.x).toBeCloseTo(knockedOff[0]!.body.position.x);
+    expect(knockedOff[0]!.mesh.position.y).toBeCloseTo(knockedOff[0]!.body.position.y);
+  });
+
+  it('should put everything back on restart', () => {
+    setup([{ type: 'toy-block', x: 3, z: 0 }]);
+    sim.input.x = 1;
+    runSimulation(sim, 2);
+    expect(collected).toHaveLength(1);
+
+    sim.restart();
+
+    expect(sim.size).toBe(1);
+    expect(sim.time).toBe(0);
+    expect(sim.katamariMesh.children).toHaveLength(0);
+    expect(sim.collectibles).toHaveLength(1);
+    expect(sim.collectibles[0]!.collected).toBe(false);
+    expect([...sim.itemsByMesh.values()]).toEqual(sim.collectibles); // the cleared items are forgotten
+    expect([...sim.itemsByBody.values()]).toEqual(sim.collectibles);
+    expect(sim.katamariBody.position.x).toBe(0);
+    expect(sim.katamariBody.shapes).toHaveLength(1); // a plain sphere again
+  });
+
+  it('should put the katamari back at the spawn point when it falls off the level', () => {
+    setup([{ type: 'toy-block', x: 3, z: 0 }]);
+    sim.input.x = 1;
+    runSimulation(sim, 2);
+    const size = sim.size;
+    sim.katamariBody.position.x = 45; // near the edge of the ground
+
+    runSimulation(sim, 5, () => {
+      if (fallOuts > 0) sim.input.x = 0; // stay put after the respawn
+    });
+
+    expect(fallOuts).toBe(1);
+    expect(sim.katamariBody.position.x).toBeCloseTo(0, 0);
+    expect(sim.katamariBody.position.y).toBeGreaterThan(sim.level.killHeight);
+    expect(sim.size).toBe(size); // keeps what it rolled up
+    expect(collected).toHaveLength(1);
+  });
+
+  it('should remove loose items that fall off the level', () => {
+    const lost: Collectible[] = [];
+    sim = createHeadlessSimulation(makeTestLevel({ items: [{ type: 'candy', x: 48, z: 0 }] }), {
+      events: { onItemLost: (item) => lost.push(item) },
+    });
+    const candy = sim.collectibles[0]!;
+    sim.katamariBody.position.set(47.2, 1, 0);
+    runSimulation(sim, 0.5);
+    expect(candy.collected).toBe(true);
+
+    // knocked off towards the edge (the ground ends at 50)
+    detachItem(candy, sim.katamariMesh, sim.world, sim.size);
+    sim.collectibleIndex.add(candy);
+    runSimulation(sim, 5);
+
+    expect(lost).toEqual([candy]);
+    expect(sim.collectibles).not.toContain(candy);
+    expect(sim.itemsByMesh.has(candy.mesh)).toBe(false);
+    expect(sim.itemsByBody.has(candy.body)).toBe(false);
+    expect(sim.world.bodies).not.toContain(candy.body);
+    expect(sim.collectibleIndex.has(candy)).toBe(false);
+    expect(sim.collectibleIndex.moving.has(candy)).toBe(false);
+    expect(candy.mesh.parent).toBeNull(); // not drawn any more
+  });
+
+  it('should run a whole session on a bundled level', () => {
+    const playroom = createHeadlessSimulation(findLevel('playroom')!);
+    playroom.input.y = 1;
+
+    runSimulation(playroom, 5, (s) => {
+      // steer in a slow zig-zag
+      s.input.x = Math.floor(s.time) % 2 === 0 ? -0.5 : 0.5;
+    });
+
+    expect(playroom.time).toBeCloseTo(5);
+    expect(playroom.collectibles.length).toBeGreaterThan(0);
+    expect(Number.isFinite(playroom.katamariBody.position.x)).toBe(true);
+  });
+});
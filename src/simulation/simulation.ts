@@ -0,0 +1,367 @@
+// --- simulation core (framework-free: no vue, no DOM, no WebGL) ---
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import {
+  applyInputForce,
+  capLinearVelocity,
+  capAngularVelocity,
+  findCollidingCollectibles,
+  canAbsorb,
+  stickItem,
+  growKatamari,
+  calculateGrowth,
+  isKnockOffImpact,
+  countKnockedOffItems,
+  findRecentlyCollected,
+  detachItem,
+  tickPickupCooldowns,
+  syncItemToBody,
+} from '../gameLogic';
+import { FIXED_TIMESTEP } from '../fixedTimestep';
+import { DEFAULT_ITEM_CATALOG } from '../itemCatalog';
+import { STARTING_KATAMARI_SIZE } from '../levels';
+import { createInputVector } from '../input';
+import { createSeededRandom } from '../random';
+import { createPhysicsWorld, resetKatamariBody, respawnKatamariBody } from './physicsWorld';
+import { createKatamariMesh, resetKatamariMesh } from './katamariMesh';
+import { spawnLevelItems, clearItems, removeItem } from './collectibleSpawner';
+import { createCollectibleIndex } from './collectibleIndex';
+import { createItemInstances } from './itemInstances';
+import { updateItemBehaviors } from './behaviors';
+import type { InputVector, ViewState, Collectible } from '../gameLogic';
+import type { ItemCatalog } from '../itemCatalog';
+import type { Level } from '../levels';
+import type { SpawnContext } from './collectibleSpawner';
+import type { CollectibleIndex } from './collectibleIndex';
+
+/**
+ * The objects a simulation runs on. They're shared, not copied:
+ * the renderer draws the same katamari mesh, the input source writes into the same input vector.
+ */
+export interface SimulationParts {
+  level: Level; // level being played (spawn point, kill height)
+  world: CANNON.World;
+  katamariBody: CANNON.Body;
+  katamariMesh: THREE.Mesh; // scene object collected items get attached to
+  collectibles: Collectible[]; // all items (collected and not), changed in place
+  itemsByMesh: Map<THREE.Object3D, Collectible>; // the same items by mesh (filled by the spawner)
+  itemsByBody: Map<CANNON.Body, Collectible>; // and by physics body
+  collectibleIndex: CollectibleIndex; // uncollected items by position (filled by the spawner)
+  input: InputVector; // read every step
+  view: ViewState; // camera heading the input is relative to, read every step
+}
+
+/**
+ * Hooks for observers (score display, sound, ...). All optional.
+ */
+export interface SimulationEvents {
+  onCollect?: (item: Collectible) => void; // item absorbed
+  onKnockOff?: (item: Collectible) => void; // item knocked off the katamari
+  onResize?: (size: number) => void; // katamari grew or shrank
+  onFallOut?: () => void; // katamari fell off the level and was put back at the spawn point
+  onItemLost?: (item: Collectible) => void; // loose item fell off the level and was removed
+}
+
+export interface Simulation extends SimulationParts {
+  readonly size: number; // current katamari size (m)
+  readonly time: number; // simulated seconds since creation / reset
+  step(dt?: number): void;
+  reset(): void;
+  restore(saved: { size: number; time: number }): void;
+  dispose(): void;
+}
+
+/**
+ * Creates the simulation core around existing parts.
+ * step(dt) advances everything by one physics step:
+ * 1. process player input (and let items that move on their own pick where to go)
+ * 2. step physics simulation
+ * 3. put the katamari back if it fell off the level (loose items that fell off are removed)
+ * 4. check collisions (absorb items) and knock-offs
+ *
+ * Nothing here touches requestAnimationFrame, vue or the renderer,
+ * so it runs the same in the browser, in node tests and in balancing scripts.
+ */
+export function createSimulation(parts: SimulationParts, events: SimulationEvents = {}): Simulation {
+  const { level, world, katamariBody, katamariMesh, collectibles, itemsByMesh, itemsByBody, collectibleIndex, input, view } =
+    parts;
+
+  let size = (katamariBody.shapes[0] as CANNON.Sphere).radius;
+  let time = 0;
+
+  // hardest obstacle hit since the last step (collide events fire mid-step, so we queue them)
+  let pendingImpactSpeed = 0;
+
+  /**
+   * advances the simulation by one physics step
+   *
+   * @param dt - step size in seconds (keep it fixed for consistent results)
+   */
+  function step(dt: number = FIXED_TIMESTEP) {
+    // --- process input ---
+    // apply force based on the input vector, turned to match the camera (acts during this step)
+    applyInputForce(input, katamariBody, view.heading);
+
+    // items with a behavior wander, patrol, flee or chase (also acts during this step)
+    updateItemBehaviors(collectibleIndex.moving, katamariBody, size, dt);
+
+    // --- physics simulation ---
+    world.step(dt);
+    time += dt;
+
+    // cap velocities to prevent runaway speed
+    capLinearVelocity(katamariBody);
+    capAngularVelocity(katamariBody);
+
+    // --- fell off the level ---
+    // back to the spawn point (size and items kept, it's not a restart)
+    if (katamariBody.position.y < level.killHeight) {
+      respawnKatamariBody(katamariBody, level);
+      events.onFallOut?.();
+    }
+
+    // items that left the ground (knocked off, running away) would fall forever: gone for good
+    const lostItems = [...collectibleIndex.moving].filter((item) => item.body.position.y < level.killHeight);
+    lostItems.forEach((item) => {
+      removeItem({ world, collectibles, itemsByMesh, itemsByBody, index: collectibleIndex }, item);
+      events.onItemLost?.(item);
+    });
+
+    // --- check collisions ---
+    // collisions work in the katamari mesh's local space, so sync it to the exact physics state first
+    katamariMesh.position.copy(katamariBody.position);
+    katamariMesh.quaternion.copy(katamariBody.quaternion);
+    katamariMesh.updateMatrixWorld();
+
+    // knocked-off items tumble around as standalone meshes, items with a behavior move their instance
+    collectibleIndex.moving.forEach(syncItemToBody);
+
+    tickPickupCooldowns(collectibleIndex.moving, dt);
+    checkCollisions();
+    checkKnockOffs();
+  }
+
+  function setSize(newSize: number) {
+    size = newSize;
+    events.onResize?.(size);
+  }
+
+  /**
+   * checks for collisions between katamari and collectibles
+   * 1. fid all items touching katamari
+   * - only items near the katamari are checked (spatial index), not the whole level
+   * 2. for each touching item:
+   * - stick it to katamari
+   * - grow katamari (by the item's volume)
+   * - notify observers
+   */
+  function checkCollisions() {
+    // knocked-off items may have rolled since the last step
+    collectibleIndex.updateMoving();
+
+    // identify colliding items (nearby candidates first, then the exact check)
+    // bounding radius: the ball and the items sticking out of it
+    const { x, z } = katamariBody.position;
+    const nearbyItems = collectibleIndex.query(x, z, Math.max(size, katamariBody.boundingRadius));
+    const collidingItems = findCollidingCollectibles(katamariBody, nearbyItems, size);
+
+    // process each collision
+    collidingItems.forEach((item) => {
+      // stick item to katamari (it can't be picked up again until knocked off)
+      stickItem(item, katamariMesh, world, size);
+      collectibleIndex.remove(item);
+
+      // grow katamari based on the absorbed item's volume
+      setSize(growKatamari(calculateGrowth(size, item.volume), size, katamariMesh, katamariBody, itemsByMesh));
+
+      events.onCollect?.(item);
+    });
+  }
+
+  /**
+   * records hard hits on the katamari
+   * - ignores ground contacts and items small enough to be absorbed
+   * - only the hardest hit per physics step counts
+   */
+  function onKatamariCollide(event: { body: CANNON.Body; contact: CANNON.ContactEquation }) {
+    const impactSpeed = Math.abs(event.contact.getImpactVelocityAlongNormal());
+    if (!isKnockOffImpact(impactSpeed, event.contact.ni)) return;
+
+    const item = itemsByBody.get(event.body);
+    if (item && !item.collected && canAbsorb(item, size)) return;
+
+    pendingImpactSpeed = Math.max(pendingImpactSpeed, impactSpeed);
+  }
+
+  /**
+   * knocks recently collected items off the katamari after a hard hit
+   * 1. work out how many items the hit shakes loose
+   * 2. for each (newest first):
+   * - detach it back into the world
+   * - shrink katamari by the volume it added
+   * - notify observers
+   */
+  function checkKnockOffs() {
+    const count = countKnockedOffItems(pendingImpactSpeed);
+    pendingImpactSpeed = 0;
+    if (count === 0) return;
+
+    const looseItems = findRecentlyCollected(katamariMesh, itemsByMesh, count);
+    looseItems.forEach((item) => {
+      const shrink = detachItem(item, katamariMesh, world, size);
+      collectibleIndex.add(item); // loose again -> can be picked up again
+      setSize(growKatamari(-shrink, size, katamariMesh, katamariBody, itemsByMesh));
+
+      events.onKnockOff?.(item);
+    });
+  }
+
+  /**
+   * puts the katamari back at the level's spawn point at its starting size
+   * (items are left alone, respawning them is up to the caller)
+   * always the level the simulation was made for: its ground and obstacles are already in the world
+   */
+  function reset() {
+    resetKatamariBody(katamariBody, level);
+    resetKatamariMesh(katamariMesh, level);
+    pendingImpactSpeed = 0;
+    time = 0;
+    setSize(STARTING_KATAMARI_SIZE);
+  }
+
+  /**
+   * puts the katamari at a saved size and the clock at a saved time (loading a save)
+   * (positions and items are restored by the caller, see snapshot.ts)
+   */
+  function restore(saved: { size: number; time: number }) {
+    pendingImpactSpeed = 0;
+    time = saved.time;
+    setSize(growKatamari(saved.size - size, size, katamariMesh, katamariBody, itemsByMesh));
+  }
+
+  /**
+   * stops listening to the physics world
+   */
+  function dispose() {
+    katamariBody.removeEventListener('collide', onKatamariCollide);
+  }
+
+  katamariBody.addEventListener('collide', onKatamariCollide);
+
+  return {
+    ...parts,
+    get size() {
+      return size;
+    },
+    get time() {
+      return time;
+    },
+    step,
+    reset,
+    restore,
+    dispose,
+  };
+}
+
+/**
+ * A simulation that builds its own parts (no vue, no renderer).
+ * The scene holds the katamari and the level's items, but is never drawn.
+ */
+export interface HeadlessSimulation extends Simulation {
+  scene: THREE.Scene;
+  spawnContext: SpawnContext; // where the level's items get spawned (e.g. for restoring a save)
+  restart(seed?: number): void; // reset the katamari and bring back all of the level's items
+  respawnItems(): void; // bring back all of the level's items (the katamari keeps going)
+}
+
+/**
+ * Creates a complete simulation for a level, for tests and balancing scripts.
+ * With a seed, the level's random spawn zones come out the same every time.
+ */
+export function createHeadlessSimulation(
+  level: Level,
+  {
+    catalog = DEFAULT_ITEM_CATALOG,
+    events = {},
+    seed,
+  }: { catalog?: ItemCatalog; events?: SimulationEvents; seed?: number } = {}
+): HeadlessSimulation {
+  const scene = new THREE.Scene();
+  const { world, katamariBody, terrain } = createPhysicsWorld(level);
+  const katamariMesh = createKatamariMesh(level);
+  scene.add(katamariMesh);
+
+  const collectibles: Collectible[] = [];
+  const itemsByMesh = new Map<THREE.Object3D, Collectible>();
+  const itemsByBody = new Map<CANNON.Body, Collectible>();
+  const collectibleIndex = createCollectibleIndex();
+  const instances = createItemInstances(scene);
+  const random = seed === undefined ? Math.random : createSeededRandom(seed);
+  const spawnContext: SpawnContext = {
+    world,
+    terrain,
+    catalog,
+    collectibles,
+    itemsByMesh,
+    itemsByBody,
+    index: collectibleIndex,
+    instances,
+    random,
+  };
+  spawnLevelItems(spawnContext, level);
+
+  const simulation = createSimulation(
+    {
+      level,
+      world,
+      katamariBody,
+      katamariMesh,
+      collectibles,
+      itemsByMesh,
+      itemsByBody,
+      collectibleIndex,
+      input: createInputVector(),
+      view: { heading: 0 },
+    },
+    events
+  );
+
+  /**
+   * reset the katamari and bring back all of the level's items
+   *
+   * @param newSeed - seed for the random spawn zones (keeps drawing from the current sequence without one)
+   */
+  function restart(newSeed?: number) {
+    if (newSeed !== undefined) spawnContext.random = createSeededRandom(newSeed);
+    clearItems(spawnContext);
+    simulation.reset();
+    spawnLevelItems(spawnContext, level);
+  }
+
+  /**
+   * clear the level's items (collected ones too) and spawn them again
+   */
+  function respawnItems() {
+    clearItems(spawnContext);
+    spawnLevelItems(spawnContext, level);
+  }
+
+  return Object.assign(simulation, { scene, spawnContext, restart, respawnItems });
+}
+
+/**
+ * Runs a simulation for the given number of seconds in fixed steps.
+ *
+ * @param onStep - called before every step (e.g. to script input)
+ */
+export function runSimulation(
+  simulation: Simulation,
+  seconds: number,
+  onStep?: (simulation: Simulation) => void
+): void {
+  const steps = Math.round(seconds / FIXED_TIMESTEP);
+  for (let i = 0; i < steps; i++) {
+    onStep?.(simulation);
+    simulation.step(FIXED_TIMESTEP);
+  }
+}
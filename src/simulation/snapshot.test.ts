@@ -0,0 +1,252 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as CANNON from 'cannon-es';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import type { HeadlessSimulation } from './simulation';
+import {
+  captureSnapshot,
+  parseSnapshot,
+  migrateSnapshot,
+  restoreSnapshot,
+  saveSnapshot,
+  loadSnapshot,
+  deleteSnapshot,
+  SNAPSHOT_VERSION,
+  SAVE_STORAGE_PREFIX,
+} from './snapshot';
+import type { RunSnapshot } from './snapshot';
+import { makeTestLevel } from './testLevel';
+import { DEFAULT_ITEM_CATALOG } from '../itemCatalog';
+import { ValidationError } from '../validation';
+
+const level = makeTestLevel({
+  items: [
+    { type: 'die', x: 3, z: 0 },
+    { type: 'toy-block', x: 10, z: 0.5 }, // past where the die lump bounces the ball
+    { type: 'candy', x: -4, z: 2 },
+    { type: 'boulder', x: 20, z: 0 },
+  ],
+  goalSize: 5,
+});
+
+const progress = { elapsed: 12.5, score: 30, collectedCount: 2 };
+
+/**
+ * rolls right into two small items, then slams into the boulder (knocks one off)
+ */
+function playUntilKnockOff(): HeadlessSimulation {
+  const sim = createHeadlessSimulation(level);
+  sim.input.x = 1;
+  runSimulation(sim, 4.2);
+  sim.view.heading = 0.1; // camera turned a little (restored too, input is relative to it)
+  return sim;
+}
+
+/**
+ * a fresh simulation of the same level to restore into
+ */
+function createTarget(): { sim: HeadlessSimulation; ctx: HeadlessSimulation['spawnContext'] } {
+  const sim = createHeadlessSimulation(level);
+  return { sim, ctx: sim.spawnContext };
+}
+
+function roundTrip(snapshot: RunSnapshot): RunSnapshot {
+  return parseSnapshot(JSON.parse(JSON.stringify(snapshot)), DEFAULT_ITEM_CATALOG);
+}
+
+describe('Snapshots', () => {
+  it('should capture the katamari, every item and the run progress', () => {
+    const sim = playUntilKnockOff();
+    const snapshot = captureSnapshot(sim, 'test', progress);
+
+    expect(snapshot.version).toBe(SNAPSHOT_VERSION);
+    expect(snapshot.levelId).toBe('test');
+    expect(snapshot.time).toBeCloseTo(sim.time);
+    expect(snapshot.elapsed).toBe(12.5);
+    expect(snapshot.katamari.size).toBe(sim.size);
+    expect(snapshot.katamari.position[0]).toBe(sim.katamariBody.position.x);
+    expect(snapshot.items).toHaveLength(4);
+    expect(snapshot.items.some((item) => item.collected && item.attached)).toBe(true);
+    expect(snapshot.items.some((item) => item.loose)).toBe(true);
+  });
+
+  it('should survive a trip through json unchanged', () => {
+    const snapshot = captureSnapshot(playUntilKnockOff(), 'test', progress);
+
+    expect(roundTrip(snapshot)).toEqual(snapshot);
+  });
+
+  it('should rebuild the scene and physics world exactly', () => {
+    const original = playUntilKnockOff();
+    const snapshot = roundTrip(captureSnapshot(original, 'test', progress));
+
+    const { sim, ctx } = createTarget();
+    restoreSnapshot(sim, ctx, snapshot);
+
+    expect(sim.size).toBe(original.size);
+    expect(sim.time).toBe(original.time);
+    expect(sim.view.heading).toBe(original.view.heading);
+    expect(sim.katamariBody.position).toEqual(original.katamariBody.position);
+    expect(sim.katamariBody.velocity).toEqual(original.katamariBody.velocity);
+    expect((sim.katamariBody.shapes[0] as CANNON.Sphere).radius).toBe(original.size);
+    expect(sim.katamariMesh.scale.x).toBe(original.size);
+
+    sim.collectibles.forEach((item, i) => {
+      const before = original.collectibles[i]!;
+      expect(item.type).toBe(before.type);
+      expect(item.collected).toBe(before.collected);
+      expect(item.mesh.position).toEqual(before.mesh.position);
+      expect(item.mesh.scale).toEqual(before.mesh.scale);
+      expect(item.body.type).toBe(before.body.type);
+      expect(sim.world.bodies.includes(item.body)).toBe(original.world.bodies.includes(before.body));
+      expect(sim.collectibleIndex.has(item)).toBe(original.collectibleIndex.has(before));
+      expect(item.instanceSlot === undefined).toBe(before.instanceSlot === undefined);
+      expect(item.mesh.parent === sim.katamariMesh).toBe(before.mesh.parent === original.katamariMesh);
+    });
+
+    // stuck on in the same order (the newest gets knocked off first)
+    const order = (s: HeadlessSimulation) =>
+      s.katamariMesh.children.map((child) => s.collectibles.findIndex((item) => item.mesh === child));
+    expect(order(sim)).toEqual(order(original));
+  });
+
+  it('should carry on the same way as the original run', () => {
+    const original = playUntilKnockOff();
+    const snapshot = roundTrip(captureSnapshot(original, 'test', progress));
+    const { sim, ctx } = createTarget();
+    restoreSnapshot(sim, ctx, snapshot);
+
+    // both steer back left over the remaining item
+    [original, sim].forEach((s) => {
+      s.input.x = -1;
+      runSimulation(s, 2);
+    });
+
+    expect(sim.katamariBody.position.x).toBeCloseTo(original.katamariBody.position.x, 3);
+    expect(sim.katamariBody.position.z).toBeCloseTo(original.katamariBody.position.z, 3);
+    expect(sim.size).toBeCloseTo(original.size, 6);
+  });
+
+  it('should keep items that move on their own going where they were going', () => {
+    const walkers = makeTestLevel({
+      items: [
+        { type: 'chick', x: 5, z: 5 },
+        { type: 'toy-car', x: -8, z: 4 },
+      ],
+    });
+    const original = createHeadlessSimulation(walkers, { seed: 1 });
+    runSimulation(original, 2);
+    const snapshot = roundTrip(captureSnapshot(original, 'test', progress));
+    expect(snapshot.items.every((item) => item.behavior && item.loose)).toBe(true);
+
+    const sim = createHeadlessSimulation(walkers, { seed: 2 });
+    restoreSnapshot(sim, sim.spawnContext, snapshot);
+    sim.collectibles.forEach((item, i) => {
+      expect(item.behavior).toEqual(original.collectibles[i]!.behavior);
+      expect(item.instanceSlot).toBeDefined(); // still drawn instanced
+    });
+
+    runSimulation(original, 3);
+    runSimulation(sim, 3);
+    sim.collectibles.forEach((item, i) => {
+      expect(item.body.position.x).toBeCloseTo(original.collectibles[i]!.body.position.x, 3);
+      expect(item.body.position.z).toBeCloseTo(original.collectibles[i]!.body.position.z, 3);
+    });
+  });
+
+  it('should replace whatever was in the world before', () => {
+    const snapshot = captureSnapshot(playUntilKnockOff(), 'test', progress);
+    const { sim, ctx } = createTarget();
+    sim.input.x = 1;
+    runSimulation(sim, 1);
+
+    restoreSnapshot(sim, ctx, snapshot);
+    restoreSnapshot(sim, ctx, snapshot);
+
+    expect(sim.collectibles).toHaveLength(4);
+    expect(sim.world.bodies.filter((body) => body.type === CANNON.Body.STATIC)).toHaveLength(
+      1 + snapshot.items.filter((item) => !item.collected && !item.loose).length // + ground
+    );
+  });
+
+  it('should list every problem with a broken snapshot', () => {
+    const snapshot = captureSnapshot(playUntilKnockOff(), 'test', progress);
+    const broken = JSON.parse(JSON.stringify(snapshot));
+    broken.katamari.size = -1;
+    broken.items[0].type = 'spaceship';
+    broken.items[1].position = [1, 2];
+
+    try {
+      parseSnapshot(broken, DEFAULT_ITEM_CATALOG);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues).toHaveLength(3);
+    }
+  });
+
+  it('should reject data that is not a snapshot', () => {
+    expect(() => parseSnapshot('nope', DEFAULT_ITEM_CATALOG)).toThrow(ValidationError);
+    expect(() => parseSnapshot({ version: 1 }, DEFAULT_ITEM_CATALOG)).toThrow(/levelId/);
+  });
+});
+
+describe('Snapshot migrations', () => {
+  it('should upgrade old versions step by step', () => {
+    const migrations = {
+      1: (data: Record<string, unknown>) => ({ ...data, a: 'added in 2' }),
+      2: (data: Record<string, unknown>) => ({ ...data, b: `${data.a} then 3` }),
+    };
+
+    expect(migrateSnapshot({ version: 1 }, 3, migrations)).toEqual({
+      version: 3,
+      a: 'added in 2',
+      b: 'added in 2 then 3',
+    });
+  });
+
+  it('should leave current versions alone', () => {
+    const data = { version: SNAPSHOT_VERSION, x: 1 };
+    expect(migrateSnapshot(data)).toBe(data);
+  });
+
+  it('should refuse versions it cannot upgrade', () => {
+    expect(() => migrateSnapshot({ version: 1 }, 2, {})).toThrow(/no migration from version 1/);
+    expect(() => migrateSnapshot({ version: SNAPSHOT_VERSION + 1 })).toThrow(/newer/);
+    expect(() => migrateSnapshot({})).toThrow(ValidationError);
+  });
+});
+
+describe('Saved runs', () => {
+  function fakeStorage() {
+    const data = new Map<string, string>();
+    return {
+      data,
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => void data.set(key, value),
+      removeItem: (key: string) => void data.delete(key),
+    };
+  }
+
+  it('should save, load and delete one run per level', () => {
+    const storage = fakeStorage();
+    const snapshot = captureSnapshot(playUntilKnockOff(), 'test', progress);
+
+    saveSnapshot(storage, snapshot);
+    expect(storage.data.has(SAVE_STORAGE_PREFIX + 'test')).toBe(true);
+    expect(loadSnapshot(storage, 'test', DEFAULT_ITEM_CATALOG)).toEqual(snapshot);
+    expect(loadSnapshot(storage, 'other', DEFAULT_ITEM_CATALOG)).toBeNull();
+
+    deleteSnapshot(storage, 'test');
+    expect(loadSnapshot(storage, 'test', DEFAULT_ITEM_CATALOG)).toBeNull();
+  });
+
+  it('should ignore a broken save', () => {
+    const storage = fakeStorage();
+    storage.setItem(SAVE_STORAGE_PREFIX + 'test', '{ not json');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadSnapshot(storage, 'test', DEFAULT_ITEM_CATALOG)).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
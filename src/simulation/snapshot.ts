@@ -0,0 +1,420 @@
+// --- save / resume (snapshot of a run in progress) ---
+import * as CANNON from 'cannon-es';
+import { Validator, ValidationError } from '../validation';
+import { findItemDefinition } from '../itemCatalog';
+import { stickItem, stopBehavior, anchorStuckItem, getItemMass, updateKatamariColliders } from '../gameLogic';
+import { placeItem, clearItems } from './collectibleSpawner';
+import type { BehaviorState, Collectible } from '../gameLogic';
+import type { ItemCatalog } from '../itemCatalog';
+import type { Simulation } from './simulation';
+import type { SpawnContext } from './collectibleSpawner';
+
+// bump when the format changes, and add a migration from the previous version below
+export const SNAPSHOT_VERSION = 1;
+
+export const SAVE_STORAGE_PREFIX = 'katamari.save.'; // + level id, one save per level
+
+export type Vec3Tuple = [number, number, number];
+export type QuatTuple = [number, number, number, number]; // x, y, z, w
+
+/**
+ * The katamari's physics state.
+ */
+export interface KatamariSnapshot {
+  position: Vec3Tuple;
+  quaternion: QuatTuple;
+  velocity: Vec3Tuple;
+  angularVelocity: Vec3Tuple;
+  size: number;
+}
+
+/**
+ * One item, collected or not.
+ * - lying around: world transform (static) or world transform and velocities (knocked off, tumbling)
+ * - collected: transform relative to the ball, and its place among the ball's children
+ *   (newest items get knocked off first, so the order matters)
+ */
+export interface ItemSnapshot {
+  type: string; // catalog id
+  position: Vec3Tuple;
+  quaternion: QuatTuple;
+  collected: boolean;
+  loose?: { velocity: Vec3Tuple; angularVelocity: Vec3Tuple }; // knocked off and still a dynamic body (or moving on its own)
+  behavior?: BehaviorSnapshot; // moving on its own (the kind of behavior comes from the catalog)
+  pickupCooldown?: number;
+  attached?: { order: number; scale: Vec3Tuple; collectedAtSize: number }; // collected only
+}
+
+/**
+ * Where an item that moves on its own was going (see BehaviorState).
+ */
+export interface BehaviorSnapshot {
+  home: [number, number]; // x, z
+  target: [number, number];
+  waypoint: number;
+  timer: number;
+  seed: number;
+}
+
+/**
+ * Everything needed to carry on a run exactly where it was left.
+ * Items are listed in the same order as the simulation's collectibles array.
+ */
+export interface RunSnapshot {
+  version: number;
+  levelId: string;
+  savedAt: string; // ISO date, for showing "saved 5 minutes ago"
+  time: number; // simulation clock (s)
+  heading: number; // camera heading (input is relative to it)
+  elapsed: number; // seconds of play used from the time limit
+  score: number;
+  collectedCount: number;
+  katamari: KatamariSnapshot;
+  items: ItemSnapshot[];
+}
+
+/**
+ * The run state that lives outside the simulation (HUD, game clock).
+ */
+export interface RunProgress {
+  elapsed: number;
+  score: number;
+  collectedCount: number;
+}
+
+/**
+ * Upgrades raw snapshot data by one version (e.g. fills in a field that didn't exist yet).
+ */
+export type SnapshotMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// keyed by the version they upgrade from (1 -> 2 goes under 1)
+export const SNAPSHOT_MIGRATIONS: Record<number, SnapshotMigration> = {};
+
+const toVec3 = (v: { x: number; y: number; z: number }): Vec3Tuple => [v.x, v.y, v.z];
+const toQuat = (q: { x: number; y: number; z: number; w: number }): QuatTuple => [q.x, q.y, q.z, q.w];
+
+/**
+ * Captures the current state of a run.
+ *
+ * @param levelId - level being played (a save only loads into the same level)
+ * @param progress - score and game clock (kept by the UI, not the simulation)
+ */
+export function captureSnapshot(simulation: Simulation, levelId: string, progress: RunProgress): RunSnapshot {
+  const { katamariBody, katamariMesh, collectibles } = simulation;
+
+  const items = collectibles.map((item): ItemSnapshot => {
+    if (item.collected) {
+      return {
+        type: item.type,
+        position: toVec3(item.mesh.position),
+        quaternion: toQuat(item.mesh.quaternion),
+        collected: true,
+        attached: {
+          order: katamariMesh.children.indexOf(item.mesh),
+          scale: toVec3(item.mesh.scale),
+          collectedAtSize: item.collectedAtSize ?? simulation.size,
+        },
+      };
+    }
+
+    const snapshot: ItemSnapshot = {
+      type: item.type,
+      position: toVec3(item.body.position),
+      quaternion: toQuat(item.body.quaternion),
+      collected: false,
+    };
+    if (item.body.type === CANNON.Body.DYNAMIC) {
+      snapshot.loose = { velocity: toVec3(item.body.velocity), angularVelocity: toVec3(item.body.angularVelocity) };
+    }
+    if (item.behavior) {
+      const { home, target, waypoint, timer, seed } = item.behavior;
+      snapshot.behavior = { home: [home.x, home.z], target: [target.x, target.z], waypoint, timer, seed };
+    }
+    if (item.pickupCooldown !== undefined) snapshot.pickupCooldown = item.pickupCooldown;
+    return snapshot;
+  });
+
+  return {
+    version: SNAPSHOT_VERSION,
+    levelId,
+    savedAt: new Date().toISOString(),
+    time: simulation.time,
+    heading: simulation.view.heading,
+    elapsed: progress.elapsed,
+    score: progress.score,
+    collectedCount: progress.collectedCount,
+    katamari: {
+      position: toVec3(katamariBody.position),
+      quaternion: toQuat(katamariBody.quaternion),
+      velocity: toVec3(katamariBody.velocity),
+      angularVelocity: toVec3(katamariBody.angularVelocity),
+      size: simulation.size,
+    },
+    items,
+  };
+}
+
+/**
+ * Brings older snapshot data up to the current version, one migration at a time.
+ * Throws if a step is missing or the data comes from a newer version of the game.
+ */
+export function migrateSnapshot(
+  data: Record<string, unknown>,
+  targetVersion: number = SNAPSHOT_VERSION,
+  migrations: Record<number, SnapshotMigration> = SNAPSHOT_MIGRATIONS
+): Record<string, unknown> {
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ValidationError('snapshot', [`version: expected a whole number >= 1, got ${JSON.stringify(version)}`]);
+  }
+  if (version > targetVersion) {
+    throw new ValidationError('snapshot', [`version: ${version} is newer than this game supports (${targetVersion})`]);
+  }
+
+  let migrated = data;
+  while (version < targetVersion) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new ValidationError('snapshot', [`version: no migration from version ${version}`]);
+    }
+    migrated = { ...migration(migrated), version: version + 1 };
+    version++;
+  }
+  return migrated;
+}
+
+/**
+ * reads a list of exactly `length` numbers (vectors and quaternions are stored as arrays)
+ */
+function parseNumbers(v: Validator, value: unknown, path: string, length: number): number[] {
+  const list = v.array(value, path);
+  if (list.length !== length) {
+    v.fail(path, `expected ${length} numbers, got ${list.length}`);
+    return new Array<number>(length).fill(0);
+  }
+  return list.map((num, i) => v.number(num, `${path}[${i}]`));
+}
+
+function parseVec3(v: Validator, value: unknown, path: string): Vec3Tuple {
+  return parseNumbers(v, value, path, 3) as Vec3Tuple;
+}
+
+function parseQuat(v: Validator, value: unknown, path: string): QuatTuple {
+  return parseNumbers(v, value, path, 4) as QuatTuple;
+}
+
+function parseItemSnapshot(v: Validator, raw: unknown, path: string, catalog: ItemCatalog): ItemSnapshot {
+  const obj = v.object(raw, path);
+
+  const type = v.string(obj.type, `${path}.type`);
+  if (type && !findItemDefinition(catalog, type)) {
+    v.fail(`${path}.type`, `unknown item "${type}"`);
+  }
+  if (typeof obj.collected !== 'boolean') v.fail(`${path}.collected`, 'expected true or false');
+
+  const item: ItemSnapshot = {
+    type,
+    position: parseVec3(v, obj.position, `${path}.position`),
+    quaternion: parseQuat(v, obj.quaternion, `${path}.quaternion`),
+    collected: obj.collected === true,
+  };
+
+  if (obj.loose !== undefined) {
+    const loose = v.object(obj.loose, `${path}.loose`);
+    item.loose = {
+      velocity: parseVec3(v, loose.velocity, `${path}.loose.velocity`),
+      angularVelocity: parseVec3(v, loose.angularVelocity, `${path}.loose.angularVelocity`),
+    };
+  }
+  if (obj.behavior !== undefined) {
+    const behavior = v.object(obj.behavior, `${path}.behavior`);
+    item.behavior = {
+      home: parseNumbers(v, behavior.home, `${path}.behavior.home`, 2) as [number, number],
+      target: parseNumbers(v, behavior.target, `${path}.behavior.target`, 2) as [number, number],
+      waypoint: v.number(behavior.waypoint, `${path}.behavior.waypoint`, { min: 0 }),
+      timer: v.number(behavior.timer, `${path}.behavior.timer`),
+      seed: v.number(behavior.seed, `${path}.behavior.seed`, { min: 0 }),
+    };
+  }
+  if (obj.pickupCooldown !== undefined) {
+    item.pickupCooldown = v.number(obj.pickupCooldown, `${path}.pickupCooldown`, { min: 0 });
+  }
+
+  if (item.collected) {
+    const attached = v.object(obj.attached, `${path}.attached`);
+    item.attached = {
+      order: v.number(attached.order, `${path}.attached.order`, { min: 0 }),
+      scale: parseVec3(v, attached.scale, `${path}.attached.scale`),
+      collectedAtSize: v.positive(attached.collectedAtSize, `${path}.attached.collectedAtSize`),
+    };
+  }
+  return item;
+}
+
+/**
+ * Validates raw json data (a save from storage or an exported file) and returns a typed snapshot.
+ * Older versions are migrated first. Throws a ValidationError listing every problem.
+ *
+ * @param catalog - items the snapshot may contain (unknown kinds can't be rebuilt)
+ */
+export function parseSnapshot(data: unknown, catalog: ItemCatalog): RunSnapshot {
+  const v = new Validator();
+  const root = migrateSnapshot(v.object(data, 'snapshot'));
+
+  const katamari = v.object(root.katamari, 'katamari');
+  const snapshot: RunSnapshot = {
+    version: SNAPSHOT_VERSION,
+    levelId: v.string(root.levelId, 'levelId'),
+    savedAt: v.string(root.savedAt, 'savedAt'),
+    time: v.number(root.time, 'time', { min: 0 }),
+    heading: v.number(root.heading, 'heading'),
+    elapsed: v.number(root.elapsed, 'elapsed', { min: 0 }),
+    score: v.number(root.score, 'score', { min: 0 }),
+    collectedCount: v.number(root.collectedCount, 'collectedCount', { min: 0 }),
+    katamari: {
+      position: parseVec3(v, katamari.position, 'katamari.position'),
+      quaternion: parseQuat(v, katamari.quaternion, 'katamari.quaternion'),
+      velocity: parseVec3(v, katamari.velocity, 'katamari.velocity'),
+      angularVelocity: parseVec3(v, katamari.angularVelocity, 'katamari.angularVelocity'),
+      size: v.positive(katamari.size, 'katamari.size'),
+    },
+    items: v.array(root.items, 'items').map((raw, i) => parseItemSnapshot(v, raw, `items[${i}]`, catalog)),
+  };
+
+  v.assertValid('snapshot');
+  return snapshot;
+}
+
+/**
+ * Rebuilds a run from a snapshot: every item is respawned with its exact transform
+ * (collected ones stuck back onto the ball in their original order) and the katamari
+ * gets back its size, position and velocities.
+ * Whatever was in the world before is cleared first.
+ *
+ * @param ctx - where items get spawned (must share the simulation's world, collectibles, maps and index)
+ */
+export function restoreSnapshot(simulation: Simulation, ctx: SpawnContext, snapshot: RunSnapshot): void {
+  const { katamariBody, katamariMesh, world } = simulation;
+  clearItems(ctx);
+
+  // --- katamari ---
+  // size first: items stuck on afterwards keep their saved scale
+  simulation.restore({ size: snapshot.katamari.size, time: snapshot.time });
+  simulation.view.heading = snapshot.heading;
+  katamariBody.position.set(...snapshot.katamari.position);
+  katamariBody.quaternion.set(...snapshot.katamari.quaternion);
+  katamariBody.velocity.set(...snapshot.katamari.velocity);
+  katamariBody.angularVelocity.set(...snapshot.katamari.angularVelocity);
+  katamariMesh.position.copy(katamariBody.position);
+  katamariMesh.quaternion.copy(katamariBody.quaternion);
+  katamariMesh.updateMatrixWorld();
+
+  // --- items ---
+  const attached: { item: Collectible; saved: ItemSnapshot }[] = [];
+  snapshot.items.forEach((saved) => {
+    const def = findItemDefinition(ctx.catalog, saved.type);
+    if (!def) throw new Error(`Unknown item "${saved.type}" in snapshot`); // parseSnapshot rules this out
+
+    const item = placeItem(
+      ctx,
+      def,
+      new CANNON.Vec3(...saved.position),
+      new CANNON.Quaternion(...saved.quaternion)
+    );
+    item.pickupCooldown = saved.pickupCooldown;
+    if (item.behavior && saved.behavior) {
+      restoreBehavior(item.behavior, saved.behavior);
+    } else if (item.behavior && !saved.collected) {
+      // absorbed and knocked off again since it spawned: just a loose item now
+      stopBehavior(item);
+    }
+
+    if (saved.collected) {
+      attached.push({ item, saved });
+    } else if (saved.loose) {
+      makeLoose(item, saved.loose);
+    }
+  });
+
+  // stick collected items back on in their original order (newest last)
+  attached
+    .sort((a, b) => (a.saved.attached?.order ?? 0) - (b.saved.attached?.order ?? 0))
+    .forEach(({ item, saved }) => {
+      stickItem(item, katamariMesh, world, saved.attached?.collectedAtSize ?? snapshot.katamari.size);
+      ctx.index.remove(item);
+
+      // stickItem works out the local transform from the world one, the saved local one is exact
+      item.mesh.position.set(...saved.position);
+      item.mesh.quaternion.set(...saved.quaternion);
+      if (saved.attached) item.mesh.scale.set(...saved.attached.scale);
+      anchorStuckItem(item, snapshot.katamari.size); // keeps sinking from where it was as the ball grows
+    });
+
+  // items that stick out of the ball make it lumpy again
+  updateKatamariColliders(katamariBody, katamariMesh, ctx.itemsByMesh, simulation.size);
+
+  /**
+   * turns a freshly placed item back into a knocked-off one, tumbling as it was
+   * (items moving on their own are dynamic already and stay instanced, they only get their velocities back)
+   */
+  function makeLoose(item: Collectible, loose: NonNullable<ItemSnapshot['loose']>) {
+    const body = item.body;
+    body.velocity.set(...loose.velocity);
+    body.angularVelocity.set(...loose.angularVelocity);
+    if (item.behavior) return;
+
+    item.instanceSlot?.release();
+    item.instanceSlot = undefined;
+    katamariMesh.parent?.add(item.mesh);
+
+    body.type = CANNON.Body.DYNAMIC;
+    body.mass = getItemMass(item);
+    body.updateMassProperties();
+    ctx.index.add(item); // re-added as a moving item
+  }
+}
+
+/**
+ * Puts a freshly placed item's behavior back where it was.
+ * The wander seed carries on from the save, so the item keeps moving exactly as it would have.
+ */
+function restoreBehavior(state: BehaviorState, saved: BehaviorSnapshot): void {
+  state.home = { x: saved.home[0], z: saved.home[1] };
+  state.target = { x: saved.target[0], z: saved.target[1] };
+  state.waypoint = state.definition.kind === 'patrol' ? saved.waypoint % state.definition.path.length : 0;
+  state.timer = saved.timer;
+  state.seed = saved.seed >>> 0;
+}
+
+// the part of localStorage saves need (easy to fake in tests)
+export type SaveStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Saves a run (replaces the level's previous save).
+ */
+export function saveSnapshot(storage: SaveStorage, snapshot: RunSnapshot): void {
+  storage.setItem(SAVE_STORAGE_PREFIX + snapshot.levelId, JSON.stringify(snapshot));
+}
+
+/**
+ * Loads the level's saved run, or null if there is none.
+ * A broken save is ignored (with a warning) rather than breaking the title screen.
+ */
+export function loadSnapshot(storage: SaveStorage, levelId: string, catalog: ItemCatalog): RunSnapshot | null {
+  const saved = storage.getItem(SAVE_STORAGE_PREFIX + levelId);
+  if (saved === null) return null;
+
+  try {
+    return parseSnapshot(JSON.parse(saved), catalog);
+  } catch (error) {
+    console.warn('Ignoring saved run:', error);
+    return null;
+  }
+}
+
+/**
+ * Forgets the level's saved run.
+ */
+export function deleteSnapshot(storage: SaveStorage, levelId: string): void {
+  storage.removeItem(SAVE_STORAGE_PREFIX + levelId);
+}
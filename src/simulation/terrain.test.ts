@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { createTerrainBody, createTerrainMesh, getGroundHeight } from './terrain';
+import { createHeadlessSimulation, runSimulation } from './simulation';
+import { createHeightmap, createTerrainHeightmap } from '../heightmap';
+import { getItemHalfExtents, findItemDefinition, DEFAULT_ITEM_CATALOG } from '../itemCatalog';
+import { makeTestLevel } from './testLevel';
+
+// a slope up towards +x and a bump towards -z (different in each direction, so flips show up)
+const heightmap = createHeightmap(20, 16, (x, z) => (x + 10) * 0.2 + Math.max(0, -z) * 0.1);
+
+function makeWorld(): CANNON.World {
+  const world = new CANNON.World();
+  world.addBody(createTerrainBody(heightmap));
+  return world;
+}
+
+const level = makeTestLevel({
+  bounds: { minX: -40, maxX: 40, minZ: -40, maxZ: 40 },
+  ground: { width: 80, depth: 80 },
+  terrain: { source: 'noise', height: 4, seed: 3, scale: 20 },
+  spawn: { x: 0, y: 8, z: 0 },
+  items: [
+    { type: 'crate', x: 10, z: 5 },
+    { type: 'die', x: -12, z: -3 },
+  ],
+  spawnZones: [{ minX: -30, maxX: 30, minZ: -30, maxZ: 30, density: 1 }],
+});
+
+describe('Terrain', () => {
+  it('should put each heightmap sample at its spot on the ground', () => {
+    [
+      [0, 0],
+      [5, 3],
+      [heightmap.columns - 1, heightmap.rows - 1],
+      [2, heightmap.rows - 2],
+    ].forEach(([i, j]) => {
+      const x = heightmap.minX + i! * heightmap.cellSize;
+      const z = heightmap.minZ + j! * heightmap.cellSize;
+      expect(getGroundHeight(heightmap, x, z)).toBeCloseTo(heightmap.heights[i!]![j!]!);
+    });
+  });
+
+  it('should keep the height at the nearest edge outside the terrain', () => {
+    expect(getGroundHeight(heightmap, 30, 2)).toBeCloseTo(getGroundHeight(heightmap, 10, 2));
+    expect(getGroundHeight(heightmap, -4, -20)).toBeCloseTo(getGroundHeight(heightmap, -4, -8));
+  });
+
+  it('should be flat without a heightmap', () => {
+    expect(getGroundHeight(null, 5, -3)).toBe(0);
+  });
+
+  it('should read the same heights between samples as the heightfield', () => {
+    const body = makeWorld().bodies[0]!;
+    const shape = body.shapes[0] as CANNON.Heightfield;
+
+    for (let i = 0; i < 40; i++) {
+      const x = -10 + ((i * 7.3) % 20);
+      const z = -8 + ((i * 3.1) % 16);
+      expect(getGroundHeight(heightmap, x, z)).toBeCloseTo(
+        shape.getHeightAt(x - body.position.x, body.position.z - z, true),
+        6
+      );
+    }
+  });
+
+  it('should build a mesh with the same surface as the heightfield', () => {
+    const mesh = createTerrainMesh(heightmap);
+    mesh.updateMatrixWorld();
+    const raycaster = new THREE.Raycaster();
+
+    for (let i = 0; i < 20; i++) {
+      const x = -9 + ((i * 7.3) % 18);
+      const z = -7 + ((i * 3.1) % 14);
+      raycaster.set(new THREE.Vector3(x, 50, z), new THREE.Vector3(0, -1, 0));
+      const hit = raycaster.intersectObject(mesh)[0];
+
+      expect(hit).toBeDefined();
+      expect(hit!.point.y).toBeCloseTo(getGroundHeight(heightmap, x, z), 4);
+      expect(hit!.face!.normal.clone().transformDirection(mesh.matrixWorld).y).toBeGreaterThan(0); // facing up
+    }
+  });
+
+  it('should build the level terrain into the physics world', () => {
+    const sim = createHeadlessSimulation(level, { seed: 1 });
+    const expected = createTerrainHeightmap(level.terrain!, level.ground);
+
+    const ground = sim.world.bodies.find((body) => body.shapes[0] instanceof CANNON.Heightfield);
+    expect(ground).toBeDefined();
+    expect(sim.spawnContext.terrain).toEqual(expected); // items are stood on the same hills
+  });
+
+  it('should spawn items resting on the hills', () => {
+    const sim = createHeadlessSimulation(level, { seed: 1 });
+    const crate = sim.collectibles[0]!;
+    const half = getItemHalfExtents(findItemDefinition(DEFAULT_ITEM_CATALOG, 'crate')!);
+
+    const terrain = sim.spawnContext.terrain;
+
+    expect(crate.body.position.y).toBeCloseTo(getGroundHeight(terrain, 10, 5) + half.y);
+    sim.collectibles.forEach((item) => {
+      const { x, y, z } = item.body.position;
+      expect(y).toBeGreaterThan(getGroundHeight(terrain, x, z));
+    });
+  });
+
+  it('should roll the katamari over the hills', () => {
+    const sim = createHeadlessSimulation(level, { seed: 1 });
+    sim.input.x = 1;
+
+    runSimulation(sim, 4, (s) => {
+      const { x, y, z } = s.katamariBody.position;
+      expect(y).toBeGreaterThan(getGroundHeight(sim.spawnContext.terrain, x, z)); // never sinks into the ground
+    });
+
+    expect(sim.katamariBody.position.x).toBeGreaterThan(5);
+  });
+});
@@ -0,0 +1,92 @@
+// --- terrain: hills as a cannon heightfield plus a matching mesh (framework-free) ---
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { createHeightfieldGeometry } from './debugDraw';
+import type { Heightmap } from '../heightmap';
+
+export const TERRAIN_COLOR = '#9acd32'; // yellow-green grass
+
+/**
+ * Creates the cannon heightfield for a heightmap.
+ * Heightfields are laid out in their own x/y plane with heights along z, so the body is turned
+ * to lie on the ground (local y runs towards -z) and placed at the heightmap's max z corner.
+ */
+export function createTerrainShape(heightmap: Heightmap): CANNON.Heightfield {
+  const { heights, rows, cellSize } = heightmap;
+  // local y runs the other way to world z
+  const data = heights.map((column) => column.map((_, yi) => column[rows - 1 - yi]!));
+  return new CANNON.Heightfield(data, { elementSize: cellSize });
+}
+
+/**
+ * Where the heightfield's origin goes: the heightmap's min x, max z corner
+ * (body and mesh are both placed there and turned -90° about x).
+ */
+function getTerrainCorner(heightmap: Heightmap): { x: number; z: number } {
+  return { x: heightmap.minX, z: heightmap.minZ + (heightmap.rows - 1) * heightmap.cellSize };
+}
+
+/**
+ * Creates the static terrain body (the ground, when a level has hills).
+ *
+ * @param material - surface the katamari rolls on
+ */
+export function createTerrainBody(heightmap: Heightmap, material?: CANNON.Material): CANNON.Body {
+  const corner = getTerrainCorner(heightmap);
+  const body = new CANNON.Body({
+    type: CANNON.Body.STATIC,
+    shape: createTerrainShape(heightmap),
+    position: new CANNON.Vec3(corner.x, 0, corner.z),
+    material,
+  });
+  body.quaternion.setFromEuler(-Math.PI / 2, 0, 0);
+  return body;
+}
+
+/**
+ * Creates the terrain's scene object, built from the same triangles as the heightfield.
+ */
+export function createTerrainMesh(heightmap: Heightmap): THREE.Mesh {
+  // flat shading: split the shared corners so each triangle gets its own normal (slopes are easy to read)
+  const geometry = createHeightfieldGeometry(createTerrainShape(heightmap)).toNonIndexed();
+  geometry.computeVertexNormals();
+
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: TERRAIN_COLOR }));
+  mesh.name = 'terrain';
+  const corner = getTerrainCorner(heightmap);
+  mesh.position.set(corner.x, 0, corner.z);
+  mesh.rotation.x = -Math.PI / 2;
+  return mesh;
+}
+
+/**
+ * Height of the ground at a point: the terrain's height if the level has hills, 0 for flat ground.
+ * Read straight off the heightmap, split into triangles the same way as the heightfield
+ * (so it's where the katamari and items actually touch down).
+ * (Outside the terrain the height at its nearest edge.)
+ *
+ * @param heightmap - the level's hills (null for flat ground)
+ */
+export function getGroundHeight(heightmap: Heightmap | null, x: number, z: number): number {
+  if (!heightmap) return 0;
+
+  const { heights, columns, rows, cellSize, minX, minZ } = heightmap;
+  // in cells from the heightfield's corner: u along x, v along its local y (towards -z)
+  const u = Math.min(Math.max((x - minX) / cellSize, 0), columns - 1);
+  const v = Math.min(Math.max((minZ + (rows - 1) * cellSize - z) / cellSize, 0), rows - 1);
+  const i = Math.min(Math.floor(u), columns - 2);
+  const j = Math.min(Math.floor(v), rows - 2);
+  const du = u - i;
+  const dv = v - j;
+
+  // heights at the cell's corners (heightmap rows run the other way to v)
+  const h00 = heights[i]![rows - 1 - j]!;
+  const h10 = heights[i + 1]![rows - 1 - j]!;
+  const h01 = heights[i]![rows - 2 - j]!;
+  const h11 = heights[i + 1]![rows - 2 - j]!;
+
+  // each cell is two triangles, split along the diagonal from (1, 0) to (0, 1)
+  return du + dv <= 1
+    ? h00 + du * (h10 - h00) + dv * (h01 - h00)
+    : h11 + (1 - du) * (h01 - h11) + (1 - dv) * (h10 - h11);
+}
@@ -0,0 +1,25 @@
+// --- level fixture shared by the simulation tests ---
+import { parseLevel } from '../levels';
+import type { Level } from '../levels';
+
+/**
+ * Builds a small flat level through the real level parser: 100 m square, the katamari
+ * dropped just above the origin, fixed placements only (no random spawn zones -> same layout every run).
+ *
+ * @param overrides - level fields a test needs different (items, bounds, terrain, ...)
+ */
+export function makeTestLevel(overrides: Record<string, unknown> = {}): Level {
+  return parseLevel({
+    version: 1,
+    id: 'test',
+    name: 'Test Level',
+    bounds: { minX: -50, maxX: 50, minZ: -50, maxZ: 50 },
+    ground: { width: 100, depth: 100 },
+    spawn: { x: 0, y: 1, z: 0 },
+    items: [],
+    spawnZones: [],
+    goalSize: 2,
+    timeLimit: 60,
+    ...overrides,
+  });
+}
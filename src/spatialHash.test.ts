@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSpatialHash } from './spatialHash';
+import type { SpatialHash } from './spatialHash';
+
+describe('Spatial Hash', () => {
+  let hash: SpatialHash<string>;
+
+  beforeEach(() => {
+    hash = createSpatialHash<string>(4);
+  });
+
+  it('should find entries overlapping the query area', () => {
+    hash.insert('near', 1, 1, 2, 2);
+    hash.insert('far', 40, 40, 41, 41);
+
+    expect(hash.query(0, 0, 3, 3)).toEqual(['near']);
+    expect(hash.query(39, 39, 42, 42)).toEqual(['far']);
+  });
+
+  it('should find entries in neighbouring cells when the area crosses a cell border', () => {
+    hash.insert('a', 3.5, 0, 3.9, 0.5);
+    hash.insert('b', 4.1, 0, 4.5, 0.5);
+
+    expect(hash.query(3, 0, 5, 1).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should handle negative coordinates', () => {
+    hash.insert('neg', -10, -10, -9, -9);
+
+    expect(hash.query(-11, -11, -8, -8)).toEqual(['neg']);
+    expect(hash.query(8, 8, 11, 11)).toEqual([]);
+  });
+
+  it('should return entries spanning several cells only once', () => {
+    hash.insert('big', -10, -10, 10, 10);
+
+    expect(hash.query(-20, -20, 20, 20)).toEqual(['big']);
+  });
+
+  it('should forget removed entries', () => {
+    hash.insert('a', 0, 0, 1, 1);
+    hash.remove('a');
+
+    expect(hash.query(0, 0, 1, 1)).toEqual([]);
+    expect(hash.has('a')).toBe(false);
+    expect(hash.size).toBe(0);
+  });
+
+  it('should ignore removing entries it does not have', () => {
+    expect(() => hash.remove('missing')).not.toThrow();
+  });
+
+  it('should move entries that are inserted again', () => {
+    hash.insert('a', 0, 0, 1, 1);
+    hash.insert('a', 20, 20, 21, 21);
+
+    expect(hash.query(0, 0, 1, 1)).toEqual([]);
+    expect(hash.query(20, 20, 21, 21)).toEqual(['a']);
+    expect(hash.size).toBe(1);
+  });
+
+  it('should empty on clear', () => {
+    hash.insert('a', 0, 0, 1, 1);
+    hash.insert('b', 5, 5, 6, 6);
+    hash.clear();
+
+    expect(hash.size).toBe(0);
+    expect(hash.query(-10, -10, 10, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+// --- uniform grid spatial hash (x/z ground plane) ---
+
+/**
+ * Spatial index for things on the ground. Each entry covers a rectangle on the
+ * x/z plane and is stored in every grid cell that rectangle overlaps, so a query
+ * only looks at entries in nearby cells instead of the whole list.
+ */
+export interface SpatialHash<T> {
+  insert(item: T, minX: number, minZ: number, maxX: number, maxZ: number): void;
+  remove(item: T): void;
+  has(item: T): boolean;
+  query(minX: number, minZ: number, maxX: number, maxZ: number): T[];
+  clear(): void;
+  readonly size: number; // number of entries
+}
+
+// cells are keyed by a single number: (ix, iz) packed into one value
+// (±2^20 cells per axis is plenty for any level)
+const CELL_OFFSET = 2 ** 20;
+const CELL_STRIDE = 2 ** 21;
+
+function cellKey(ix: number, iz: number): number {
+  return (ix + CELL_OFFSET) * CELL_STRIDE + (iz + CELL_OFFSET);
+}
+
+/**
+ * Creates an empty spatial hash.
+ *
+ * @param cellSize - grid cell size in meters (a bit bigger than typical entries works best)
+ */
+export function createSpatialHash<T>(cellSize: number): SpatialHash<T> {
+  const cells = new Map<number, T[]>();
+  const itemCells = new Map<T, number[]>(); // which cells each entry is in (for removal)
+
+  function forEachCell(minX: number, minZ: number, maxX: number, maxZ: number, fn: (key: number) => void) {
+    const x0 = Math.floor(minX / cellSize);
+    const x1 = Math.floor(maxX / cellSize);
+    const z0 = Math.floor(minZ / cellSize);
+    const z1 = Math.floor(maxZ / cellSize);
+
+    for (let ix = x0; ix <= x1; ix++) {
+      for (let iz = z0; iz <= z1; iz++) {
+        fn(cellKey(ix, iz));
+      }
+    }
+  }
+
+  function insert(item: T, minX: number, minZ: number, maxX: number, maxZ: number) {
+    // re-inserting moves the entry
+    if (itemCells.has(item)) remove(item);
+
+    const keys: number[] = [];
+    forEachCell(minX, minZ, maxX, maxZ, (key) => {
+      let cell = cells.get(key);
+      if (!cell) {
+        cell = [];
+        cells.set(key, cell);
+      }
+      cell.push(item);
+      keys.push(key);
+    });
+    itemCells.set(item, keys);
+  }
+
+  function remove(item: T) {
+    const keys = itemCells.get(item);
+    if (!keys) return;
+
+    keys.forEach((key) => {
+      const cell = cells.get(key)!;
+      // swap-remove (order inside a cell doesn't matter)
+      const index = cell.indexOf(item);
+      cell[index] = cell[cell.length - 1]!;
+      cell.pop();
+      if (cell.length === 0) cells.delete(key);
+    });
+    itemCells.delete(item);
+  }
+
+  function query(minX: number, minZ: number, maxX: number, maxZ: number): T[] {
+    const found = new Set<T>(); // entries spanning several cells must only show up once
+    forEachCell(minX, minZ, maxX, maxZ, (key) => {
+      cells.get(key)?.forEach((item) => found.add(item));
+    });
+    return [...found];
+  }
+
+  function clear() {
+    cells.clear();
+    itemCells.clear();
+  }
+
+  return {
+    insert,
+    remove,
+    has: (item: T) => itemCells.has(item),
+    query,
+    clear,
+    get size() {
+      return itemCells.size;
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// --- json data validation helpers ---
+
+/**
+ * Error thrown when a data file (item catalog, level, ...) doesn't match its format.
+ * Collects every problem found so designers can fix them all in one go.
+ */
+export class ValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(what: string, issues: string[]) {
+    super(`Invalid ${what}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Collects validation issues while walking a json value.
+ * Each check records a readable message (with the path to the bad value) and
+ * returns a fallback, so validation keeps going and reports everything at once.
+ */
+export class Validator {
+  readonly issues: string[] = [];
+
+  fail(path: string, message: string): void {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, 'expected an object');
+      return {};
+    }
+    return value as Record<string, unknown>;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'expected an array');
+      return [];
+    }
+    return value;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(path, 'expected a non-empty string');
+      return '';
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, { min, max }: { min?: number; max?: number } = {}): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'expected a number');
+      return min ?? 0;
+    }
+    if (min !== undefined && value < min) {
+      this.fail(path, `expected a number >= ${min}, got ${value}`);
+    }
+    if (max !== undefined && value > max) {
+      this.fail(path, `expected a number <= ${max}, got ${value}`);
+    }
+    return value;
+  }
+
+  positive(value: unknown, path: string): number {
+    const num = this.number(value, path);
+    if (typeof value === 'number' && num <= 0) {
+      this.fail(path, `expected a positive number, got ${num}`);
+    }
+    return num > 0 ? num : 1;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      this.fail(path, `expected one of ${options.map((opt) => `"${opt}"`).join(', ')}, got ${JSON.stringify(value)}`);
+      return options[0]!;
+    }
+    return value as T;
+  }
+
+  /**
+   * throws a ValidationError if anything failed
+   */
+  assertValid(what: string): void {
+    if (this.issues.length > 0) {
+      throw new ValidationError(what, this.issues);
+    }
+  }
+}